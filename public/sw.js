@@ -0,0 +1,54 @@
+// Keeps the app shell cached so the app, and the games that need no server, load offline.
+// precache-manifest.js is written by the build (see vite.config.ts) and lists the built files;
+// the browser also checks it for changes, so every new build installs a fresh worker.
+importScripts('precache-manifest.js')
+
+const { version, files } = self.__PRECACHE_MANIFEST
+const CACHE_PREFIX = 'app-shell-'
+const CACHE_NAME = `${CACHE_PREFIX}${version}`
+const SHELL = ['./', 'manifest.webmanifest', 'favicon.ico', 'icon.svg', ...files]
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  // The API and game socket live on another origin and must never be answered from a cache
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return
+
+  // Pages come from the network while it answers; offline, the cached shell lets the router
+  // show whichever route was asked for
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(async () => {
+        const shell = await caches.match('index.html', { cacheName: CACHE_NAME })
+        return shell ?? Response.error()
+      }),
+    )
+    return
+  }
+
+  // Built files are content-hashed, so a cached copy is never out of date
+  event.respondWith(caches.match(request).then((cached) => cached ?? fetch(request)))
+})
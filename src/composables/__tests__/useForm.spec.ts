@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { nextTick } from 'vue'
+import { ASYNC_RULE_DELAY, useForm } from '../useForm'
+import { ApiError } from '../../services/http'
+import { validators } from '../../utils/validation'
+
+const signupForm = (isFree: (name: string) => Promise<boolean> = async () => true) =>
+  useForm({
+    username: {
+      rules: [(value) => validators.minLength(value, 3, 'Username')],
+      asyncRules: [
+        async (value) =>
+          (await isFree(value)) ? { valid: true } : { valid: false, message: 'Taken' },
+      ],
+    },
+    password: {
+      rules: [(value) => validators.required(value, 'Password')],
+      affects: ['confirm'],
+    },
+    confirm: { rules: [(value, { password }) => validators.passwordsMatch(password, value)] },
+  })
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('useForm', () => {
+  it('reports nothing for fields the user has not left yet', async () => {
+    const form = signupForm()
+    form.values.username = 'al'
+    await nextTick()
+    expect(form.errors.username).toBeNull()
+
+    form.touch('username')
+    expect(form.errors.username).toBe('Username must be at least 3 characters')
+  })
+
+  it('tracks which fields differ from their initial value', async () => {
+    const form = signupForm()
+    expect(form.isDirty.value).toBe(false)
+    form.values.password = 'secret'
+    expect(form.dirty.value).toMatchObject({ password: true, username: false })
+    form.values.password = ''
+    expect(form.isDirty.value).toBe(false)
+  })
+
+  it('checks a touched confirmation again when the password changes', async () => {
+    const form = signupForm()
+    form.values.password = 'Secret123'
+    form.values.confirm = 'Secret123'
+    form.touch('confirm')
+    expect(form.errors.confirm).toBeNull()
+
+    form.values.password = 'Other123'
+    await nextTick()
+    expect(form.errors.confirm).toBe('Passwords do not match')
+  })
+
+  it('runs async rules once typing pauses, for values that pass the sync rules', async () => {
+    vi.useFakeTimers()
+    const isFree = vi.fn(async (name: string) => name !== 'alice')
+    const form = signupForm(isFree)
+    form.values.username = 'bob'
+    form.touch('username')
+    await vi.waitFor(() => expect(form.pending.username).toBe(false))
+
+    form.values.username = 'ali'
+    await nextTick()
+    form.values.username = 'alice'
+    await nextTick()
+    expect(form.pending.username).toBe(true)
+    await vi.advanceTimersByTimeAsync(ASYNC_RULE_DELAY)
+
+    expect(isFree.mock.calls.map(([name]) => name)).toEqual(['bob', 'alice'])
+    expect(form.errors.username).toBe('Taken')
+    expect(form.isValid.value).toBe(false)
+  })
+
+  it('keeps a field invalid when its rule fails without a message', async () => {
+    const onSubmit = vi.fn()
+    const form = useForm({ code: { rules: [(value) => ({ valid: value === '1234' })] } })
+    await form.handleSubmit(onSubmit)()
+
+    expect(form.errors.code).toBe('This value is not valid')
+    expect(form.isValid.value).toBe(false)
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('submits only a valid form', async () => {
+    const onSubmit = vi.fn()
+    const form = signupForm()
+    const submit = form.handleSubmit(onSubmit)
+
+    await submit()
+    expect(onSubmit).not.toHaveBeenCalled()
+    expect(form.touched).toEqual({ username: true, password: true, confirm: true })
+
+    Object.assign(form.values, { username: 'alice', password: 'pw', confirm: 'pw' })
+    await submit()
+    expect(onSubmit).toHaveBeenCalledWith({ username: 'alice', password: 'pw', confirm: 'pw' })
+  })
+
+  it('puts server validation errors on their fields', () => {
+    const form = signupForm()
+    const error = new ApiError(422, 'Username already registered', {
+      username: 'Username already registered',
+      avatar: 'Not a field of this form',
+    })
+    expect(form.applyServerErrors(error)).toBe(true)
+    expect(form.errors.username).toBe('Username already registered')
+    expect(form.applyServerErrors(new ApiError(401, 'Incorrect username or password'))).toBe(false)
+  })
+
+  it('resets values, errors and touched state', () => {
+    const form = signupForm()
+    form.values.username = 'al'
+    form.touch('username')
+    form.reset()
+    expect(form.values.username).toBe('')
+    expect(form.errors.username).toBeNull()
+    expect(form.touched.username).toBe(false)
+  })
+})
@@ -0,0 +1,194 @@
+import { computed, reactive, ref, watch } from 'vue'
+import { ApiError } from '../services/http'
+import type { ValidationResult } from '../utils/validation'
+import { t } from '../i18n'
+
+// Sync rules also see the other fields, which is how a confirmation checks its password
+export type FieldRule<K extends string> = (
+  value: string,
+  values: Readonly<Record<K, string>>,
+) => ValidationResult
+
+// Run once every sync rule passes, e.g. asking the server whether a name is free. `signal`
+// aborts when the value changes again before the answer arrives.
+export type AsyncFieldRule = (value: string, signal: AbortSignal) => Promise<ValidationResult>
+
+export interface FieldSchema<K extends string> {
+  initial?: string
+  rules?: FieldRule<K>[]
+  asyncRules?: AsyncFieldRule[]
+  // Fields whose rules read this one, and so are checked again when it changes
+  affects?: K[]
+}
+
+// The field names come from the keys alone, not from what the rules refer to
+export type FormSchema<K extends string> = Record<K, FieldSchema<NoInfer<K>>>
+
+// Wait for a pause in typing before running async rules
+export const ASYNC_RULE_DELAY = 400
+
+// Form state for a fixed set of string fields. A field shows errors once touched (left, or the
+// form submitted), and is checked again on every change from then on.
+export function useForm<K extends string>(schema: FormSchema<K>) {
+  const fields = Object.keys(schema) as K[]
+  const perField = <T>(value: (field: K) => T) =>
+    Object.fromEntries(fields.map((field) => [field, value(field)])) as Record<K, T>
+  const initialValues = perField((field) => schema[field].initial ?? '')
+
+  const values = reactive(perField((field) => initialValues[field])) as Record<K, string>
+  const errors = reactive(perField((): string | null => null)) as Record<K, string | null>
+  const touched = reactive(perField(() => false)) as Record<K, boolean>
+  const pending = reactive(perField(() => false)) as Record<K, boolean>
+  const submitting = ref(false)
+
+  const dirty = computed(() => perField((field) => values[field] !== initialValues[field]))
+  const isDirty = computed(() => fields.some((field) => dirty.value[field]))
+  const isValid = computed(() => fields.every((field) => errors[field] === null && !pending[field]))
+
+  const timers = new Map<K, ReturnType<typeof setTimeout>>()
+  const checks = new Map<K, AbortController>()
+  // The value each field was last checked with, so a change seen by both touch() and the watcher
+  // is only checked once
+  const checkedValues = new Map<K, string>()
+
+  const cancelAsync = (field: K) => {
+    clearTimeout(timers.get(field))
+    timers.delete(field)
+    checks.get(field)?.abort()
+    checks.delete(field)
+    pending[field] = false
+  }
+
+  // Valid fields hold null, so a rule failing without a message still needs one
+  const failure = (result: ValidationResult) => result.message || t('validation.invalid')
+
+  const runSync = (field: K): string | null => {
+    for (const rule of schema[field].rules ?? []) {
+      const result = rule(values[field], values)
+      if (!result.valid) return failure(result)
+    }
+    return null
+  }
+
+  const runAsync = async (field: K): Promise<void> => {
+    const controller = new AbortController()
+    checks.set(field, controller)
+    pending[field] = true
+    try {
+      for (const rule of schema[field].asyncRules ?? []) {
+        const result = await rule(values[field], controller.signal)
+        if (controller.signal.aborted) return
+        if (!result.valid) {
+          errors[field] = failure(result)
+          return
+        }
+      }
+    } catch (err: unknown) {
+      // An unreachable check must not block the form; the server has the final say on submit
+      if (!controller.signal.aborted) console.error(`Error checking ${field}:`, err)
+    } finally {
+      if (checks.get(field) === controller) {
+        checks.delete(field)
+        pending[field] = false
+      }
+    }
+  }
+
+  // Sync rules report at once; async rules only for a value that passes them, after `delay`
+  const check = (field: K, delay: number): Promise<void> => {
+    cancelAsync(field)
+    checkedValues.set(field, values[field])
+    errors[field] = runSync(field)
+    if (errors[field] !== null || !schema[field].asyncRules?.length) return Promise.resolve()
+    if (delay === 0) return runAsync(field)
+    pending[field] = true
+    timers.set(
+      field,
+      setTimeout(() => {
+        timers.delete(field)
+        runAsync(field)
+      }, delay),
+    )
+    return Promise.resolve()
+  }
+
+  for (const field of fields) {
+    watch(
+      () => values[field],
+      () => {
+        if (touched[field] && values[field] !== checkedValues.get(field)) {
+          check(field, ASYNC_RULE_DELAY)
+        }
+        for (const other of schema[field].affects ?? []) {
+          if (touched[other]) check(other, ASYNC_RULE_DELAY)
+        }
+      },
+    )
+  }
+
+  // For the field's blur event
+  const touch = (field: K) => {
+    if (touched[field]) return
+    touched[field] = true
+    check(field, 0)
+  }
+
+  // Touches and checks every field, waiting for async rules; true when nothing failed
+  const validate = async (): Promise<boolean> => {
+    for (const field of fields) touched[field] = true
+    await Promise.all(fields.map((field) => check(field, 0)))
+    return isValid.value
+  }
+
+  // Puts the messages of a rejected request next to the fields they name; true if any did
+  const applyServerErrors = (err: unknown): boolean => {
+    if (!(err instanceof ApiError)) return false
+    let applied = false
+    for (const [field, message] of Object.entries(err.fieldErrors)) {
+      if (!(field in schema)) continue
+      cancelAsync(field as K)
+      touched[field as K] = true
+      errors[field as K] = message || t('validation.invalid')
+      applied = true
+    }
+    return applied
+  }
+
+  // Wraps a submit handler so it only runs for a valid form, and not twice at once
+  const handleSubmit =
+    (onSubmit: (values: Record<K, string>) => Promise<void> | void) => async (): Promise<void> => {
+      if (submitting.value) return
+      submitting.value = true
+      try {
+        if (await validate()) await onSubmit({ ...values })
+      } finally {
+        submitting.value = false
+      }
+    }
+
+  const reset = () => {
+    for (const field of fields) {
+      cancelAsync(field)
+      values[field] = initialValues[field]
+      checkedValues.delete(field)
+      errors[field] = null
+      touched[field] = false
+    }
+  }
+
+  return {
+    values,
+    errors,
+    touched,
+    pending,
+    dirty,
+    isDirty,
+    isValid,
+    submitting,
+    touch,
+    validate,
+    applyServerErrors,
+    handleSubmit,
+    reset,
+  }
+}
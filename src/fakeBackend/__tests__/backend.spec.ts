@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { FakeBackend } from '../backend'
+import type { ServerMessage } from '../../services/websocket'
+
+let backend: FakeBackend
+
+const call = (method: string, path: string, token: string | null = null, body?: unknown) =>
+  backend.handle({ method, path, token, body })
+
+const last = <T>(list: T[]) => list[list.length - 1]
+
+const openGame = (token: string, playerId: string) => {
+  const response = call('POST', '/games', token, {
+    player_x_id: playerId,
+    variant: 'classic',
+    board_size: 3,
+    win_length: 3,
+  })
+  return (response.body as { id: string }).id
+}
+
+describe('FakeBackend REST', () => {
+  beforeEach(() => {
+    backend = new FakeBackend()
+  })
+
+  it('signs up, logs in and answers /auth/me with the token', () => {
+    const signup = call('POST', '/auth/signup', null, {
+      username: 'alice',
+      email: 'alice@example.com',
+      password: 'Secret123',
+    })
+    expect(signup.status).toBe(200)
+
+    const login = call('POST', '/auth/login', null, { username: 'alice', password: 'Secret123' })
+    const { access_token } = login.body as { access_token: string }
+    expect(call('GET', '/auth/me', access_token).body).toMatchObject({ username: 'alice' })
+    expect(call('GET', '/auth/me', 'forged').status).toBe(401)
+  })
+
+  it('reports invalid signups per field, like FastAPI', () => {
+    const response = call('POST', '/auth/signup', null, {
+      username: 'al',
+      email: 'alice@example.com',
+      password: 'Secret123',
+    })
+    expect(response.status).toBe(422)
+    expect(response.body).toEqual({
+      detail: [{ loc: ['body', 'username'], msg: 'Username must be at least 3 characters' }],
+    })
+    expect(call('POST', '/auth/login', null, { username: 'nobody', password: 'x' }).status).toBe(
+      401,
+    )
+  })
+
+  it('tells whether a username or email is still free', () => {
+    backend.addUser({ username: 'alice', password: 'pw', email: 'alice@example.com' })
+    expect(call('GET', '/auth/available?username=Alice').body).toEqual({ available: false })
+    expect(call('GET', '/auth/available?email=bob@example.com').body).toEqual({ available: true })
+    expect(call('GET', '/auth/available').status).toBe(422)
+  })
+
+  it('plays a game to the end and moves both ratings', () => {
+    const alice = backend.addUser({ username: 'alice', password: 'pw' })
+    const bob = backend.addUser({ username: 'bob', password: 'pw' })
+    const gameId = openGame(alice.token, alice.user.id)
+    expect(call('GET', '/games?status=waiting').body).toMatchObject({ total: 1 })
+
+    call('POST', `/games/${gameId}/join`, bob.token, { player_o_id: bob.user.id })
+    expect(call('GET', '/games?status=waiting').body).toMatchObject({ total: 0 })
+
+    const play = (token: string, playerId: string, position: string) =>
+      call('POST', `/games/${gameId}/move`, token, { player_id: playerId, position })
+    expect(play(bob.token, bob.user.id, '0,0')).toMatchObject({
+      status: 400,
+      body: { detail: 'Not your turn' },
+    })
+    play(alice.token, alice.user.id, '0,0')
+    expect(play(bob.token, bob.user.id, '0,0').status).toBe(400)
+    play(bob.token, bob.user.id, '1,1')
+    play(alice.token, alice.user.id, '0,1')
+    play(bob.token, bob.user.id, '2,2')
+    const winning = play(alice.token, alice.user.id, '0,2')
+
+    expect(winning.body).toMatchObject({ winner: 'X', game_status: 'finished', end_reason: 'line' })
+    expect(call('GET', `/games/${gameId}/moves`).body).toHaveLength(5)
+    const game = call('GET', `/games/${gameId}`).body as {
+      rating_changes: { x: number; o: number }
+    }
+    expect(game.rating_changes.x).toBeGreaterThan(0)
+    expect(game.rating_changes.o).toBe(-game.rating_changes.x)
+    expect(call('GET', `/users/${alice.user.id}/stats`).body).toMatchObject({
+      as_x: { wins: 1, losses: 0, draws: 0 },
+      streak: { result: 'win', length: 1 },
+    })
+    expect(call('GET', `/leaderboard/users/${alice.user.id}`).body).toMatchObject({ rank: 1 })
+  })
+
+  it('only lets players act for themselves', () => {
+    const alice = backend.addUser({ username: 'alice', password: 'pw' })
+    const bob = backend.addUser({ username: 'bob', password: 'pw' })
+    const response = call('POST', '/games', bob.token, {
+      player_x_id: alice.user.id,
+      board_size: 3,
+      win_length: 3,
+    })
+    expect(response.status).toBe(403)
+  })
+})
+
+describe('FakeBackend rooms', () => {
+  beforeEach(() => {
+    backend = new FakeBackend()
+  })
+
+  const connect = (token: string) => {
+    const received: ServerMessage[] = []
+    const connection = backend.connect({ send: (message) => received.push(message), close() {} })
+    connection.receive(JSON.stringify({ type: 'authenticate', token }))
+    return { received, send: (message: unknown) => connection.receive(JSON.stringify(message)) }
+  }
+
+  it('numbers room events and tells the room when the game starts', () => {
+    const alice = backend.addUser({ username: 'alice', password: 'pw' })
+    const bob = backend.addUser({ username: 'bob', password: 'pw' })
+    const gameId = openGame(alice.token, alice.user.id)
+    const host = connect(alice.token)
+    host.send({ type: 'create_room', room_id: gameId })
+
+    const stranger = connect(bob.token)
+    stranger.send({ type: 'join_room', room_id: gameId })
+    expect(last(stranger.received)).toMatchObject({ type: 'error', code: 'not_your_game' })
+
+    call('POST', `/games/${gameId}/join`, bob.token, { player_o_id: bob.user.id })
+    stranger.send({ type: 'join_room', room_id: gameId })
+
+    expect(host.received.map((message) => message.type)).toEqual([
+      'authenticated',
+      'room_created',
+      'game_started',
+      'player_joined',
+    ])
+    expect(host.received.slice(1).map((message) => 'seq' in message && message.seq)).toEqual([
+      1, 2, 3,
+    ])
+    expect(last(stranger.received)).toMatchObject({ type: 'room_joined', players: 2, seq: 3 })
+  })
+
+  it('rejects sockets with an unknown token', () => {
+    const socket = connect('forged')
+    expect(socket.received).toEqual([
+      { type: 'error', code: 'auth_expired', message: 'Invalid or expired token' },
+    ])
+  })
+})
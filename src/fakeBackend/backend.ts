@@ -0,0 +1,1297 @@
+import type {
+  BoardState,
+  Game,
+  GameResult,
+  LeaderboardEntry,
+  LobbyEntry,
+  MoveRecord,
+  MoveResponse,
+  PlayerGame,
+  PlayerRecord,
+  PlayerResult,
+  PlayerStats,
+  PlayerSummary,
+  Profile,
+  RatingPoint,
+  Series,
+  ServerClock,
+  TimeControl,
+} from '../services/api'
+import type { LoginResponse, User } from '../services/auth'
+import type { ClientMessage, ServerMessage } from '../services/websocket'
+import { EMOTES, normalizeChatText, validateChatText } from '../utils/chat'
+import { ratingChange } from '../utils/elo'
+import {
+  applyMove,
+  createEmptyBoard,
+  formatPosition,
+  getOutcome,
+  getTurn,
+  isLegalMove,
+  opponentOf,
+  parsePosition,
+  validateSettings,
+  type Board,
+  type EndReason,
+  type GameVariant,
+  type PlayerSymbol,
+  type Winner,
+} from '../utils/gameRules'
+import { DEFAULT_RATING, ratingWindow } from '../utils/matchmaking'
+import {
+  applyUltimateMove,
+  createUltimateState,
+  formatUltimatePosition,
+  getUltimateOutcome,
+  getUltimateTurn,
+  isLegalUltimateMove,
+  parseUltimatePosition,
+  type UltimateState,
+} from '../utils/ultimateRules'
+import { validators } from '../utils/validation'
+
+// In-memory stand-in for the backend: every REST route the app calls and the room protocol of
+// the game socket, with enough of the rules to play real games against it. The Vite dev server
+// serves it in `fake` mode (see devServer.ts) and tests talk to it through doubles.ts.
+
+const TOKEN_LIFETIME = 60 * 60 * 1000
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+export interface FakeRequest {
+  method: string
+  // Path and query string, relative to the API base URL
+  path: string
+  token: string | null
+  body: unknown
+}
+
+export interface FakeResponse {
+  status: number
+  body?: unknown
+}
+
+// The server's end of one client socket
+export interface FakePeer {
+  send(message: ServerMessage): void
+  close(): void
+}
+
+// Handed back for each connected peer to feed the client's frames in
+export interface FakeConnection {
+  receive(data: string): void
+  close(): void
+}
+
+export interface FakeUserInput {
+  username: string
+  password: string
+  email?: string
+  elo_rating?: number
+}
+
+interface ValidationIssue {
+  loc: string[]
+  msg: string
+}
+
+// Thrown by route handlers and answered the way FastAPI reports errors
+class HttpError extends Error {
+  readonly status: number
+  readonly detail: string | ValidationIssue[]
+
+  constructor(status: number, detail: string | ValidationIssue[]) {
+    super(typeof detail === 'string' ? detail : 'Validation failed')
+    this.name = 'HttpError'
+    this.status = status
+    this.detail = detail
+  }
+}
+
+interface StoredUser {
+  id: string
+  username: string
+  email: string
+  password: string
+  elo_rating: number
+  avatar_url: string | null
+  created_at: string
+  games_played: number
+  history: RatingPoint[]
+}
+
+// remaining is what each side had when the running side's clock last started
+interface Clocks {
+  remaining: Record<PlayerSymbol, number>
+  turn: PlayerSymbol | null
+  runningSince: number | null
+}
+
+interface StoredGame {
+  // Sent as is, apart from the series which is looked up on the way out
+  game: Omit<Game, 'series'>
+  seriesId: string | null
+  board: Board
+  ultimate: UltimateState
+  moves: MoveRecord[]
+  winner: Winner
+  clocks: Clocks | null
+  drawOfferFrom: string | null
+  rematchOffer: { fromId: string; bestOf: number } | null
+  finishedAt: string | null
+}
+
+interface Session {
+  peer: FakePeer
+  userId: string | null
+  roomId: string | null
+  spectating: boolean
+  lobby: boolean
+}
+
+interface Room {
+  seq: number
+  players: Set<Session>
+  spectators: Set<Session>
+}
+
+interface QueueEntry {
+  session: Session
+  userId: string
+  rating: number
+  // Only players asking for the same kind of game are paired
+  key: string
+  joinedAt: number
+}
+
+interface ParsedRequest {
+  token: string | null
+  query: URLSearchParams
+  body: Record<string, unknown>
+}
+
+type RouteHandler = (params: Record<string, string>, request: ParsedRequest) => unknown
+
+interface Route {
+  method: string
+  pattern: RegExp
+  names: string[]
+  handler: RouteHandler
+}
+
+// The token of an `Authorization: Bearer ...` header
+export function bearerToken(header: string | null): string | null {
+  const match = header ? /^Bearer\s+(.+)$/i.exec(header) : null
+  return match ? match[1]! : null
+}
+
+function route(method: string, path: string, handler: RouteHandler): Route {
+  const names: string[] = []
+  const source = path.replace(/:(\w+)/g, (_, name: string) => {
+    names.push(name)
+    return '([^/]+)'
+  })
+  return { method, pattern: new RegExp(`^${source}$`), names, handler }
+}
+
+function invalid(field: string, message: string): HttpError {
+  return new HttpError(422, [{ loc: ['body', field], msg: message }])
+}
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field]
+  if (typeof value !== 'string' || !value) throw invalid(field, 'Field required')
+  return value
+}
+
+function requireInteger(body: Record<string, unknown>, field: string): number {
+  const value = body[field]
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw invalid(field, 'Input should be a valid integer')
+  }
+  return value
+}
+
+function isTimeControl(value: unknown): value is TimeControl {
+  if (!value || typeof value !== 'object' || !('kind' in value)) return false
+  const control = value as Record<string, unknown>
+  const positive = (field: string) => typeof control[field] === 'number' && control[field] > 0
+  if (control.kind === 'none') return true
+  if (control.kind === 'per_move') return positive('move_seconds')
+  if (control.kind === 'bank') {
+    return positive('initial_seconds') && typeof control.increment_seconds === 'number'
+  }
+  return false
+}
+
+function base64Url(text: string): string {
+  return btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function paginate<T>(items: T[], query: URLSearchParams) {
+  const page = Math.max(1, Number(query.get('page')) || 1)
+  const pageSize = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, Number(query.get('page_size')) || DEFAULT_PAGE_SIZE),
+  )
+  const start = (page - 1) * pageSize
+  return {
+    items: items.slice(start, start + pageSize),
+    total: items.length,
+    page,
+    page_size: pageSize,
+  }
+}
+
+function resultFor(winner: Winner, symbol: PlayerSymbol): PlayerResult {
+  if (winner === 'DRAW') return 'draw'
+  return winner === symbol ? 'win' : 'loss'
+}
+
+export class FakeBackend {
+  private users = new Map<string, StoredUser>()
+  // Token to the user it was issued to and when it stops working
+  private tokens = new Map<string, { userId: string; expiresAt: number }>()
+  private games = new Map<string, StoredGame>()
+  private series = new Map<string, Series>()
+  private sessions = new Set<Session>()
+  private rooms = new Map<string, Room>()
+  private queue: QueueEntry[] = []
+
+  private routes: Route[] = [
+    route('GET', '/health', () => ({ status: 'ok' })),
+    route('POST', '/auth/signup', (_, request) => this.signup(request.body)),
+    route('POST', '/auth/login', (_, request) => this.login(request.body)),
+    route('GET', '/auth/available', (_, request) => this.availability(request.query)),
+    route('POST', '/auth/refresh', (_, request) => {
+      const user = this.authorize(request)
+      return { access_token: this.issueToken(user.id), token_type: 'bearer' }
+    }),
+    route('GET', '/auth/me', (_, request) => this.toUser(this.authorize(request))),
+    route('POST', '/games', (_, request) => this.createGame(request)),
+    route('GET', '/games', (_, request) => this.listGames(request.query)),
+    route('GET', '/games/:id', ({ id }) => this.publicGame(this.findGame(id!))),
+    route('GET', '/games/:id/board', ({ id }) => {
+      const stored = this.findGame(id!)
+      return {
+        ...this.boardState(stored),
+        winner: stored.winner,
+        end_reason: stored.game.end_reason ?? null,
+        clock: this.serverClock(stored),
+      }
+    }),
+    route('GET', '/games/:id/moves', ({ id }) => this.findGame(id!).moves),
+    route('POST', '/games/:id/join', ({ id }, request) => this.joinGame(id!, request)),
+    route('POST', '/games/:id/move', ({ id }, request) => this.makeMove(id!, request)),
+    route('POST', '/games/:id/resign', ({ id }, request) => {
+      const { stored, symbol } = this.activePlayer(id!, request)
+      return this.endGame(stored, opponentOf(symbol), 'resignation')
+    }),
+    route('POST', '/games/:id/draw/offer', ({ id }, request) => this.offerDraw(id!, request)),
+    route('POST', '/games/:id/draw/accept', ({ id }, request) =>
+      this.answerDraw(id!, request, true),
+    ),
+    route('POST', '/games/:id/draw/decline', ({ id }, request) =>
+      this.answerDraw(id!, request, false),
+    ),
+    route('POST', '/games/:id/timeout', ({ id }, request) => this.claimTimeout(id!, request)),
+    route('GET', '/users/:id', ({ id }) => this.toProfile(this.findUser(id!))),
+    route('GET', '/users/:id/stats', ({ id }) => this.playerStats(this.findUser(id!))),
+    route('GET', '/users/:id/rating-history', ({ id }) => this.findUser(id!).history),
+    route('GET', '/users/:id/games', ({ id }, request) =>
+      paginate(this.playerGames(this.findUser(id!)), request.query),
+    ),
+    route('GET', '/leaderboard', (_, request) => {
+      const search = request.query.get('search')?.toLowerCase() ?? ''
+      const entries = this.leaderboard().filter((entry) =>
+        entry.player.username.toLowerCase().includes(search),
+      )
+      return paginate(entries, request.query)
+    }),
+    route('GET', '/leaderboard/users/:id', ({ id }) => {
+      const entry = this.leaderboard().find((known) => known.player.id === id)
+      if (!entry) throw new HttpError(404, 'User not found')
+      return entry
+    }),
+  ]
+
+  // REST
+
+  handle(request: FakeRequest): FakeResponse {
+    const url = new URL(request.path, 'http://fake.invalid')
+    const body =
+      request.body && typeof request.body === 'object'
+        ? (request.body as Record<string, unknown>)
+        : {}
+    const parsed: ParsedRequest = { token: request.token, query: url.searchParams, body }
+
+    let pathMatched = false
+    for (const candidate of this.routes) {
+      const match = candidate.pattern.exec(url.pathname)
+      if (!match) continue
+      pathMatched = true
+      if (candidate.method !== request.method.toUpperCase()) continue
+
+      const params: Record<string, string> = {}
+      candidate.names.forEach((name, i) => {
+        params[name] = decodeURIComponent(match[i + 1]!)
+      })
+      try {
+        return { status: 200, body: candidate.handler(params, parsed) }
+      } catch (err: unknown) {
+        if (err instanceof HttpError) return { status: err.status, body: { detail: err.detail } }
+        throw err
+      }
+    }
+    return pathMatched
+      ? { status: 405, body: { detail: 'Method Not Allowed' } }
+      : { status: 404, body: { detail: 'Not Found' } }
+  }
+
+  // Registers someone without going through signup, e.g. to set up a test
+  addUser(input: FakeUserInput): { user: User; token: string } {
+    const user = this.storeUser(input)
+    return { user: this.toUser(user), token: this.issueToken(user.id) }
+  }
+
+  private storeUser(input: FakeUserInput): StoredUser {
+    const createdAt = new Date().toISOString()
+    const rating = input.elo_rating ?? DEFAULT_RATING
+    const user: StoredUser = {
+      id: crypto.randomUUID(),
+      username: input.username,
+      email: input.email ?? `${input.username.toLowerCase()}@example.com`,
+      password: input.password,
+      elo_rating: rating,
+      avatar_url: null,
+      created_at: createdAt,
+      games_played: 0,
+      history: [{ rating, recorded_at: createdAt, game_id: null }],
+    }
+    this.users.set(user.id, user)
+    return user
+  }
+
+  // Shaped like a JWT so the client can read its expiry, but only valid here
+  private issueToken(userId: string): string {
+    const expiresAt = Date.now() + TOKEN_LIFETIME
+    const payload = base64Url(
+      JSON.stringify({ sub: userId, exp: Math.floor(expiresAt / 1000), jti: crypto.randomUUID() }),
+    )
+    const token = `${base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${payload}.fake`
+    this.tokens.set(token, { userId, expiresAt })
+    return token
+  }
+
+  private userForToken(token: string | null): StoredUser | null {
+    const issued = token ? this.tokens.get(token) : undefined
+    if (!issued || issued.expiresAt <= Date.now()) return null
+    return this.users.get(issued.userId) ?? null
+  }
+
+  private authorize(request: ParsedRequest): StoredUser {
+    if (!request.token) throw new HttpError(401, 'Not authenticated')
+    const user = this.userForToken(request.token)
+    if (!user) throw new HttpError(401, 'Could not validate credentials')
+    return user
+  }
+
+  // Players act for themselves only; the id in the body must be the caller's
+  private assertSelf(user: StoredUser, body: Record<string, unknown>, field: string) {
+    if (requireString(body, field) !== user.id) {
+      throw new HttpError(403, 'You can only act on your own behalf')
+    }
+  }
+
+  private signup(body: Record<string, unknown>): User {
+    const username = requireString(body, 'username')
+    const email = requireString(body, 'email')
+    const password = requireString(body, 'password')
+    const issues: ValidationIssue[] = []
+    const check = (field: string, result: { valid: boolean; message?: string }) => {
+      if (!result.valid)
+        issues.push({ loc: ['body', field], msg: result.message ?? 'Invalid value' })
+    }
+    check('username', validators.username(username))
+    check('email', validators.email(email))
+    check('password', validators.minLength(password, 8, 'Password'))
+    if (issues.length > 0) throw new HttpError(422, issues)
+
+    const taken = [...this.users.values()]
+    if (taken.some((user) => user.username.toLowerCase() === username.toLowerCase())) {
+      throw new HttpError(400, 'Username already registered')
+    }
+    if (taken.some((user) => user.email.toLowerCase() === email.toLowerCase())) {
+      throw new HttpError(400, 'Email already registered')
+    }
+    return this.toUser(this.storeUser({ username, email, password }))
+  }
+
+  // Matches signup, which treats names and addresses differing only in case as the same
+  private availability(query: URLSearchParams): { available: boolean } {
+    const username = query.get('username')?.toLowerCase()
+    const email = query.get('email')?.toLowerCase()
+    if (!username && !email) throw new HttpError(422, 'Give a username or an email')
+    const taken = [...this.users.values()].some(
+      (user) =>
+        (username && user.username.toLowerCase() === username) ||
+        (email && user.email.toLowerCase() === email),
+    )
+    return { available: !taken }
+  }
+
+  private login(body: Record<string, unknown>): LoginResponse {
+    const username = requireString(body, 'username')
+    const password = requireString(body, 'password')
+    const user = [...this.users.values()].find((known) => known.username === username)
+    if (!user || user.password !== password) {
+      throw new HttpError(401, 'Incorrect username or password')
+    }
+    return {
+      access_token: this.issueToken(user.id),
+      token_type: 'bearer',
+      user_id: user.id,
+      username: user.username,
+    }
+  }
+
+  private findUser(id: string): StoredUser {
+    const user = this.users.get(id)
+    if (!user) throw new HttpError(404, 'User not found')
+    return user
+  }
+
+  private toUser(user: StoredUser): User {
+    return {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      elo_rating: user.elo_rating,
+      avatar_url: user.avatar_url,
+      created_at: user.created_at,
+    }
+  }
+
+  private toProfile(user: StoredUser): Profile {
+    return {
+      id: user.id,
+      username: user.username,
+      elo_rating: user.elo_rating,
+      avatar_url: user.avatar_url,
+      created_at: user.created_at,
+      games_played: user.games_played,
+    }
+  }
+
+  private toSummary(user: StoredUser): PlayerSummary {
+    return { id: user.id, username: user.username, elo_rating: user.elo_rating }
+  }
+
+  // Players with equal ratings share a rank
+  private leaderboard(): LeaderboardEntry[] {
+    const ranked = [...this.users.values()].sort(
+      (a, b) => b.elo_rating - a.elo_rating || a.username.localeCompare(b.username),
+    )
+    return ranked.map((user) => ({
+      rank: 1 + ranked.filter((other) => other.elo_rating > user.elo_rating).length,
+      player: this.toProfile(user),
+    }))
+  }
+
+  // Newest first
+  private playerGames(user: StoredUser): PlayerGame[] {
+    const games: PlayerGame[] = []
+    for (const stored of this.games.values()) {
+      const symbol = this.symbolOf(stored, user.id)
+      if (!symbol || !stored.finishedAt) continue
+      const opponentId = symbol === 'X' ? stored.game.player_o_id : stored.game.player_x_id
+      const opponent = opponentId ? this.users.get(opponentId) : undefined
+      const changes = stored.game.rating_changes
+      games.push({
+        game: this.publicGame(stored),
+        symbol,
+        result: resultFor(stored.winner, symbol),
+        opponent: opponent ? this.toSummary(opponent) : null,
+        rating_change: changes ? (symbol === 'X' ? changes.x : changes.o) : null,
+        finished_at: stored.finishedAt,
+      })
+    }
+    return games.sort((a, b) => b.finished_at.localeCompare(a.finished_at))
+  }
+
+  private playerStats(user: StoredUser): PlayerStats {
+    const record = (): PlayerRecord => ({ wins: 0, losses: 0, draws: 0 })
+    const stats: PlayerStats = {
+      as_x: record(),
+      as_o: record(),
+      streak: { result: null, length: 0 },
+    }
+    const games = this.playerGames(user)
+    for (const game of games) {
+      const totals = game.symbol === 'X' ? stats.as_x : stats.as_o
+      if (game.result === 'win') totals.wins++
+      else if (game.result === 'loss') totals.losses++
+      else totals.draws++
+    }
+    const latest = games[0]?.result ?? null
+    let length = 0
+    while (latest && games[length]?.result === latest) length++
+    stats.streak = { result: latest, length }
+    return stats
+  }
+
+  private findGame(id: string): StoredGame {
+    const stored = this.games.get(id)
+    if (!stored) throw new HttpError(404, 'Game not found')
+    return stored
+  }
+
+  private publicGame(stored: StoredGame): Game {
+    const series = stored.seriesId ? this.series.get(stored.seriesId) : undefined
+    return series ? { ...stored.game, series } : { ...stored.game }
+  }
+
+  private symbolOf(stored: StoredGame, userId: string): PlayerSymbol | null {
+    if (stored.game.player_x_id === userId) return 'X'
+    if (stored.game.player_o_id === userId) return 'O'
+    return null
+  }
+
+  private storeGame(
+    playerXId: string,
+    playerOId: string | null,
+    variant: GameVariant,
+    boardSize: number,
+    winLength: number,
+    timeControl: TimeControl,
+  ): StoredGame {
+    const stored: StoredGame = {
+      game: {
+        id: crypto.randomUUID(),
+        player_x_id: playerXId,
+        player_o_id: playerOId,
+        status: playerOId ? 'ongoing' : 'waiting',
+        variant,
+        board_size: boardSize,
+        win_length: winLength,
+        created_at: new Date().toISOString(),
+        time_control: timeControl,
+        end_reason: null,
+        rating_changes: null,
+      },
+      seriesId: null,
+      board: createEmptyBoard(boardSize),
+      ultimate: createUltimateState(),
+      moves: [],
+      winner: null,
+      clocks: null,
+      drawOfferFrom: null,
+      rematchOffer: null,
+      finishedAt: null,
+    }
+    if (playerOId) this.startClocks(stored)
+    this.games.set(stored.game.id, stored)
+    return stored
+  }
+
+  private createGame(request: ParsedRequest): Game {
+    const user = this.authorize(request)
+    const { body } = request
+    this.assertSelf(user, body, 'player_x_id')
+    const variant: GameVariant = body.variant === 'ultimate' ? 'ultimate' : 'classic'
+    // Ultimate is always played on a 3×3 grid of 3×3 boards
+    const boardSize = variant === 'ultimate' ? 3 : requireInteger(body, 'board_size')
+    const winLength = variant === 'ultimate' ? 3 : requireInteger(body, 'win_length')
+    const problem = validateSettings({ boardSize, winLength })
+    if (problem) throw invalid('board_size', problem)
+    const timeControl = body.time_control ?? { kind: 'none' }
+    if (!isTimeControl(timeControl)) throw invalid('time_control', 'Invalid time control')
+
+    const stored = this.storeGame(user.id, null, variant, boardSize, winLength, timeControl)
+    this.notifyLobby({ type: 'lobby_game_added', entry: this.lobbyEntry(stored, user) })
+    return this.publicGame(stored)
+  }
+
+  private lobbyEntry(stored: StoredGame, creator: StoredUser): LobbyEntry {
+    return { game: this.publicGame(stored), creator: this.toSummary(creator) }
+  }
+
+  // Newest first
+  private listGames(query: URLSearchParams) {
+    const status = query.get('status')
+    const variant = query.get('variant')
+    const minRating = query.has('min_rating') ? Number(query.get('min_rating')) : -Infinity
+    const maxRating = query.has('max_rating') ? Number(query.get('max_rating')) : Infinity
+    const entries: LobbyEntry[] = []
+    for (const stored of this.games.values()) {
+      const creator = this.users.get(stored.game.player_x_id ?? '')
+      if (!creator) continue
+      if (status && stored.game.status !== status) continue
+      if (variant && stored.game.variant !== variant) continue
+      if (creator.elo_rating < minRating || creator.elo_rating > maxRating) continue
+      entries.push(this.lobbyEntry(stored, creator))
+    }
+    return paginate(entries.reverse(), query)
+  }
+
+  private joinGame(id: string, request: ParsedRequest): Game {
+    const user = this.authorize(request)
+    this.assertSelf(user, request.body, 'player_o_id')
+    const stored = this.findGame(id)
+    if (stored.game.player_x_id === user.id) {
+      throw new HttpError(400, 'You cannot join your own game')
+    }
+    if (stored.game.status !== 'waiting' || stored.game.player_o_id) {
+      throw new HttpError(400, 'Game is not open for joining')
+    }
+
+    stored.game = { ...stored.game, player_o_id: user.id, status: 'ongoing' }
+    this.startClocks(stored)
+    this.notifyLobby({ type: 'lobby_game_removed', game_id: id })
+    this.broadcast(id, (seq) => ({
+      type: 'game_started',
+      game_id: id,
+      status: 'ongoing',
+      clock: this.serverClock(stored),
+      seq,
+    }))
+    return this.publicGame(stored)
+  }
+
+  // The caller must be playing this game, and it must still be going
+  private activePlayer(id: string, request: ParsedRequest) {
+    const user = this.authorize(request)
+    this.assertSelf(user, request.body, 'player_id')
+    const stored = this.findGame(id)
+    const symbol = this.symbolOf(stored, user.id)
+    if (!symbol) throw new HttpError(403, 'You are not a player in this game')
+    if (stored.game.status !== 'ongoing') throw new HttpError(400, 'Game is not in progress')
+    return { user, stored, symbol }
+  }
+
+  private boardState(stored: StoredGame): BoardState {
+    if (stored.game.variant === 'ultimate') {
+      return {
+        variant: 'ultimate',
+        board: stored.ultimate.boards,
+        active_board: stored.ultimate.activeBoard,
+      }
+    }
+    return { variant: 'classic', board: stored.board }
+  }
+
+  private turnOf(stored: StoredGame): PlayerSymbol | null {
+    return stored.game.variant === 'ultimate'
+      ? getUltimateTurn(stored.ultimate.boards)
+      : getTurn(stored.board, stored.game.win_length)
+  }
+
+  private makeMove(id: string, request: ParsedRequest): MoveResponse {
+    const { user, stored, symbol } = this.activePlayer(id, request)
+    if (this.turnOf(stored) !== symbol) throw new HttpError(400, 'Not your turn')
+    const now = Date.now()
+    if (this.timeRanOut(stored, now)) {
+      this.endGame(stored, opponentOf(symbol), 'timeout')
+      throw new HttpError(400, 'Your time has run out')
+    }
+
+    const requested = requireString(request.body, 'position')
+    let position: string
+    if (stored.game.variant === 'ultimate') {
+      const move = parseUltimatePosition(requested)
+      if (!move || !isLegalUltimateMove(stored.ultimate, move)) {
+        throw new HttpError(400, 'Invalid move')
+      }
+      stored.ultimate = applyUltimateMove(stored.ultimate, move, symbol)
+      position = formatUltimatePosition(move)
+    } else {
+      const move = parsePosition(requested)
+      if (!move || !isLegalMove(stored.board, move, stored.game.win_length)) {
+        throw new HttpError(400, 'Invalid move')
+      }
+      stored.board = applyMove(stored.board, move, symbol, stored.game.win_length)
+      position = formatPosition(move)
+    }
+
+    const record: MoveRecord = {
+      move_id: crypto.randomUUID(),
+      player_id: user.id,
+      position,
+      symbol,
+      created_at: new Date(now).toISOString(),
+    }
+    stored.moves.push(record)
+    stored.drawOfferFrom = null
+    this.advanceClocks(stored, symbol, now)
+
+    const { winner } =
+      stored.game.variant === 'ultimate'
+        ? getUltimateOutcome(stored.ultimate.boards)
+        : getOutcome(stored.board, stored.game.win_length)
+    // A result on the board reaches the room with the move itself, not as a game_over
+    if (winner) this.finish(stored, winner, winner === 'DRAW' ? 'board_full' : 'line')
+
+    const result = {
+      winner: stored.winner,
+      game_status: stored.game.status,
+      end_reason: stored.game.end_reason ?? null,
+      clock: this.serverClock(stored),
+    }
+    this.broadcast(id, (seq) => ({
+      type: 'move_made',
+      ...this.boardState(stored),
+      ...result,
+      game_id: id,
+      player_id: user.id,
+      position,
+      symbol,
+      seq,
+    }))
+    return {
+      ...this.boardState(stored),
+      ...result,
+      message: 'Move made',
+      move_id: record.move_id!,
+      position,
+      symbol,
+      next_turn: winner ? null : opponentOf(symbol),
+    }
+  }
+
+  private offerDraw(id: string, request: ParsedRequest) {
+    const { user, stored } = this.activePlayer(id, request)
+    stored.drawOfferFrom = user.id
+    this.broadcast(id, (seq) => ({ type: 'draw_offer', game_id: id, from_id: user.id, seq }))
+    return { message: 'Draw offered' }
+  }
+
+  // Only the player the draw was offered to can answer it
+  private answerDraw(id: string, request: ParsedRequest, accept: boolean) {
+    const { user, stored } = this.activePlayer(id, request)
+    if (!stored.drawOfferFrom || stored.drawOfferFrom === user.id) {
+      throw new HttpError(400, 'There is no draw offer to answer')
+    }
+    if (accept) return this.endGame(stored, 'DRAW', 'agreement')
+
+    stored.drawOfferFrom = null
+    this.broadcast(id, (seq) => ({ type: 'draw_decline', game_id: id, from_id: user.id, seq }))
+    return { message: 'Draw declined' }
+  }
+
+  private claimTimeout(id: string, request: ParsedRequest): GameResult {
+    const { stored } = this.activePlayer(id, request)
+    const turn = stored.clocks?.turn
+    if (!turn || !this.timeRanOut(stored, Date.now())) {
+      throw new HttpError(400, 'Time has not run out yet')
+    }
+    return this.endGame(stored, opponentOf(turn), 'timeout')
+  }
+
+  // Ends a game off the board and tells the room
+  private endGame(
+    stored: StoredGame,
+    winner: Exclude<Winner, null>,
+    reason: EndReason,
+  ): GameResult {
+    this.finish(stored, winner, reason)
+    const result: GameResult = {
+      game_id: stored.game.id,
+      winner,
+      end_reason: reason,
+      clock: this.serverClock(stored),
+    }
+    this.broadcast(stored.game.id, (seq) => ({ type: 'game_over', ...result, seq }))
+    return result
+  }
+
+  private finish(stored: StoredGame, winner: Exclude<Winner, null>, reason: EndReason) {
+    const now = Date.now()
+    if (stored.clocks) stored.clocks = this.stopClocks(stored.clocks, now)
+    stored.winner = winner
+    stored.drawOfferFrom = null
+    stored.finishedAt = new Date(now).toISOString()
+    stored.game = { ...stored.game, status: 'finished', end_reason: reason }
+    this.rate(stored)
+  }
+
+  private rate(stored: StoredGame) {
+    const x = this.users.get(stored.game.player_x_id ?? '')
+    const o = this.users.get(stored.game.player_o_id ?? '')
+    if (!x || !o) return
+    const rated = (user: StoredUser) => ({
+      rating: user.elo_rating,
+      gamesPlayed: user.games_played,
+    })
+    const changes = {
+      x: ratingChange(rated(x), rated(o), resultFor(stored.winner, 'X')),
+      o: ratingChange(rated(o), rated(x), resultFor(stored.winner, 'O')),
+    }
+    for (const [user, change] of [
+      [x, changes.x],
+      [o, changes.o],
+    ] as const) {
+      user.elo_rating += change
+      user.games_played++
+      user.history.push({
+        rating: user.elo_rating,
+        recorded_at: stored.finishedAt ?? new Date().toISOString(),
+        game_id: stored.game.id,
+      })
+    }
+    stored.game = { ...stored.game, rating_changes: changes }
+  }
+
+  // Clocks
+
+  private startClocks(stored: StoredGame) {
+    const control = stored.game.time_control
+    if (!control || control.kind === 'none') return
+    const allowance =
+      control.kind === 'per_move' ? control.move_seconds * 1000 : control.initial_seconds * 1000
+    stored.clocks = {
+      remaining: { X: allowance, O: allowance },
+      turn: 'X',
+      runningSince: Date.now(),
+    }
+  }
+
+  // Per-move clocks start over every turn; a bank keeps what is left and adds the increment
+  private advanceClocks(stored: StoredGame, mover: PlayerSymbol, now: number) {
+    const clocks = stored.clocks
+    const control = stored.game.time_control
+    if (!clocks || !control || control.kind === 'none') return
+    const elapsed = clocks.runningSince === null ? 0 : now - clocks.runningSince
+    const remaining =
+      control.kind === 'per_move'
+        ? { X: control.move_seconds * 1000, O: control.move_seconds * 1000 }
+        : {
+            ...clocks.remaining,
+            [mover]: clocks.remaining[mover] - elapsed + control.increment_seconds * 1000,
+          }
+    stored.clocks = { remaining, turn: opponentOf(mover), runningSince: now }
+  }
+
+  private stopClocks(clocks: Clocks, now: number): Clocks {
+    const remaining = { ...clocks.remaining }
+    if (clocks.turn && clocks.runningSince !== null) {
+      remaining[clocks.turn] = Math.max(0, remaining[clocks.turn] - (now - clocks.runningSince))
+    }
+    return { remaining, turn: null, runningSince: null }
+  }
+
+  private timeRanOut(stored: StoredGame, now: number): boolean {
+    const clocks = stored.clocks
+    if (!clocks?.turn || clocks.runningSince === null) return false
+    return clocks.remaining[clocks.turn] - (now - clocks.runningSince) <= 0
+  }
+
+  private serverClock(stored: StoredGame): ServerClock | undefined {
+    const clocks = stored.clocks
+    if (!clocks) return undefined
+    return {
+      x_remaining_ms: Math.round(clocks.remaining.X),
+      o_remaining_ms: Math.round(clocks.remaining.O),
+      turn: clocks.turn,
+      running_since:
+        clocks.runningSince === null ? null : new Date(clocks.runningSince).toISOString(),
+      server_time: new Date().toISOString(),
+    }
+  }
+
+  // WebSocket
+
+  connect(peer: FakePeer): FakeConnection {
+    const session: Session = { peer, userId: null, roomId: null, spectating: false, lobby: false }
+    this.sessions.add(session)
+    return {
+      receive: (data) => this.receive(session, data),
+      close: () => this.disconnect(session),
+    }
+  }
+
+  // Drops every socket, as a restarting server would; clients are expected to reconnect
+  disconnectAll() {
+    for (const session of this.sessions) {
+      this.disconnect(session)
+      session.peer.close()
+    }
+  }
+
+  private disconnect(session: Session) {
+    if (!this.sessions.delete(session)) return
+    this.leaveRoom(session)
+    this.leaveQueue(session)
+  }
+
+  private receive(session: Session, data: string) {
+    let message: ClientMessage
+    try {
+      message = JSON.parse(data) as ClientMessage
+    } catch {
+      return
+    }
+
+    if (message.type === 'ping') {
+      session.peer.send({ type: 'pong' })
+      return
+    }
+    if (message.type === 'authenticate') {
+      const user = this.userForToken(message.token)
+      if (!user) {
+        session.peer.send({
+          type: 'error',
+          code: 'auth_expired',
+          message: 'Invalid or expired token',
+        })
+        return
+      }
+      session.userId = user.id
+      session.peer.send({ type: 'authenticated', user_id: user.id })
+      return
+    }
+    // Nothing else is answered before the token has been checked
+    const user = session.userId ? this.users.get(session.userId) : undefined
+    if (!user) return
+
+    switch (message.type) {
+      case 'create_room':
+      case 'join_room':
+      case 'spectate_room':
+        this.enterRoom(session, user, message.type, message.room_id)
+        break
+      case 'rematch_offer':
+      case 'rematch_accept':
+      case 'rematch_decline':
+        this.handleRematch(session, user, message)
+        break
+      case 'chat_message': {
+        if (session.roomId !== message.room_id || validateChatText(message.text)) break
+        const text = normalizeChatText(message.text)
+        this.broadcast(message.room_id, (seq) => ({
+          type: 'chat_message',
+          ...this.chatFields(message.room_id, user, seq),
+          text,
+        }))
+        break
+      }
+      case 'emote':
+        if (session.roomId !== message.room_id || !(message.emote in EMOTES)) break
+        this.broadcast(message.room_id, (seq) => ({
+          type: 'emote',
+          ...this.chatFields(message.room_id, user, seq),
+          emote: message.emote,
+        }))
+        break
+      case 'queue_join':
+        this.joinQueue(session, user, message)
+        break
+      case 'queue_leave':
+        this.leaveQueue(session)
+        break
+      case 'lobby_subscribe':
+        session.lobby = true
+        break
+      case 'lobby_unsubscribe':
+        session.lobby = false
+        break
+    }
+  }
+
+  private chatFields(roomId: string, user: StoredUser, seq: number) {
+    return {
+      room_id: roomId,
+      message_id: crypto.randomUUID(),
+      sender_id: user.id,
+      username: user.username,
+      sent_at: new Date().toISOString(),
+      seq,
+    }
+  }
+
+  // Rooms
+
+  private room(roomId: string): Room {
+    let room = this.rooms.get(roomId)
+    if (!room) {
+      room = { seq: 0, players: new Set(), spectators: new Set() }
+      this.rooms.set(roomId, room)
+    }
+    return room
+  }
+
+  // Distinct players, however many tabs they have open
+  private playerCount(room: Room): number {
+    return new Set([...room.players].map((session) => session.userId)).size
+  }
+
+  // Every room event goes to all of its members under one sequence number
+  private broadcast(roomId: string, build: (seq: number) => ServerMessage) {
+    const room = this.rooms.get(roomId)
+    if (!room) return
+    const message = build(++room.seq)
+    for (const session of [...room.players, ...room.spectators]) {
+      session.peer.send(message)
+    }
+  }
+
+  private enterRoom(
+    session: Session,
+    user: StoredUser,
+    type: 'create_room' | 'join_room' | 'spectate_room',
+    roomId: string,
+  ) {
+    const stored = this.games.get(roomId)
+    const refuse = (code: 'room_not_found' | 'room_full' | 'not_your_game', message: string) =>
+      session.peer.send({ type: 'error', code, message, room_id: roomId })
+    if (!stored) {
+      refuse('room_not_found', 'Game not found')
+      return
+    }
+    const symbol = this.symbolOf(stored, user.id)
+    if (type === 'create_room' && symbol !== 'X') {
+      refuse('not_your_game', 'Only the player who created this game can open its room')
+      return
+    }
+    if (type === 'join_room' && !symbol) {
+      if (stored.game.player_o_id) refuse('room_full', 'This game already has two players')
+      else refuse('not_your_game', 'Join the game before entering its room')
+      return
+    }
+
+    this.leaveRoom(session)
+    const room = this.room(roomId)
+    session.roomId = roomId
+    session.spectating = type === 'spectate_room'
+    const seq = ++room.seq
+
+    if (session.spectating) {
+      room.spectators.add(session)
+      const spectators = room.spectators.size
+      session.peer.send({
+        type: 'spectator_snapshot',
+        ...this.boardState(stored),
+        room_id: roomId,
+        game: this.publicGame(stored),
+        moves: stored.moves,
+        winner: stored.winner,
+        end_reason: stored.game.end_reason ?? null,
+        clock: this.serverClock(stored),
+        players: this.playerCount(room),
+        spectators,
+        seq,
+      })
+      this.sendToRoom(room, { type: 'spectator_joined', room_id: roomId, spectators, seq }, session)
+      return
+    }
+
+    room.players.add(session)
+    const players = this.playerCount(room)
+    session.peer.send(
+      type === 'create_room'
+        ? { type: 'room_created', room_id: roomId, players, seq }
+        : { type: 'room_joined', room_id: roomId, players, seq },
+    )
+    this.sendToRoom(room, { type: 'player_joined', room_id: roomId, players, seq }, session)
+  }
+
+  private sendToRoom(room: Room, message: ServerMessage, except: Session) {
+    for (const session of [...room.players, ...room.spectators]) {
+      if (session !== except) session.peer.send(message)
+    }
+  }
+
+  private leaveRoom(session: Session) {
+    const roomId = session.roomId
+    const room = roomId ? this.rooms.get(roomId) : undefined
+    session.roomId = null
+    if (!roomId || !room) return
+    room.players.delete(session)
+    if (room.spectators.delete(session)) {
+      this.broadcast(roomId, (seq) => ({
+        type: 'spectator_left',
+        room_id: roomId,
+        spectators: room.spectators.size,
+        seq,
+      }))
+    }
+  }
+
+  // Rematches. Accepting one starts the next game of the series with X and O swapped; the game
+  // just finished is recorded in the series at that point.
+  private handleRematch(
+    session: Session,
+    user: StoredUser,
+    message: Extract<
+      ClientMessage,
+      { type: 'rematch_offer' | 'rematch_accept' | 'rematch_decline' }
+    >,
+  ) {
+    const roomId = message.room_id
+    const stored = this.games.get(roomId)
+    if (!stored || session.roomId !== roomId || session.spectating) return
+    if (!this.symbolOf(stored, user.id) || stored.game.status !== 'finished') return
+
+    if (message.type === 'rematch_offer') {
+      stored.rematchOffer = { fromId: user.id, bestOf: message.best_of }
+      this.broadcast(roomId, (seq) => ({
+        type: 'rematch_offer',
+        room_id: roomId,
+        from_id: user.id,
+        best_of: message.best_of,
+        seq,
+      }))
+      return
+    }
+
+    const offer = stored.rematchOffer
+    if (!offer || offer.fromId === user.id) return
+    stored.rematchOffer = null
+    if (message.type === 'rematch_decline') {
+      this.broadcast(roomId, (seq) => ({
+        type: 'rematch_decline',
+        room_id: roomId,
+        from_id: user.id,
+        seq,
+      }))
+      return
+    }
+
+    const series = this.recordInSeries(stored, offer.bestOf)
+    const { game } = stored
+    const next = this.storeGame(
+      game.player_o_id!,
+      game.player_x_id,
+      game.variant,
+      game.board_size,
+      game.win_length,
+      game.time_control ?? { kind: 'none' },
+    )
+    next.seriesId = series.id
+    this.broadcast(roomId, (seq) => ({
+      type: 'rematch_accept',
+      room_id: roomId,
+      from_id: user.id,
+      game: this.publicGame(next),
+      series,
+      seq,
+    }))
+  }
+
+  // A series still running carries on; otherwise the finished game opens a new one
+  private recordInSeries(stored: StoredGame, bestOf: number): Series {
+    const current = stored.seriesId ? this.series.get(stored.seriesId) : undefined
+    const winnerId =
+      stored.winner === 'X'
+        ? stored.game.player_x_id
+        : stored.winner === 'O'
+          ? stored.game.player_o_id
+          : null
+    const result = { game_id: stored.game.id, winner_id: winnerId }
+
+    let series: Series
+    if (current && !this.seriesDecided(current)) {
+      series = { ...current, games: [...current.games, result] }
+    } else {
+      series = { id: crypto.randomUUID(), best_of: bestOf, games: [result] }
+      stored.seriesId = series.id
+    }
+    this.series.set(series.id, series)
+    return series
+  }
+
+  private seriesDecided(series: Series): boolean {
+    const wins = new Map<string, number>()
+    for (const game of series.games) {
+      if (game.winner_id) wins.set(game.winner_id, (wins.get(game.winner_id) ?? 0) + 1)
+    }
+    const needed = Math.floor(series.best_of / 2) + 1
+    return series.games.length >= series.best_of || [...wins.values()].some((n) => n >= needed)
+  }
+
+  // Matchmaking
+
+  private joinQueue(
+    session: Session,
+    user: StoredUser,
+    message: Extract<ClientMessage, { type: 'queue_join' }>,
+  ) {
+    this.queue = this.queue.filter((entry) => entry.session !== session)
+    const now = Date.now()
+    const entry: QueueEntry = {
+      session,
+      userId: user.id,
+      rating: message.rating,
+      key: JSON.stringify([
+        message.variant,
+        message.board_size,
+        message.win_length,
+        message.time_control,
+      ]),
+      joinedAt: now,
+    }
+
+    // Both players have to be within each other's window
+    const opponent = this.queue.find(
+      (waiting) =>
+        waiting.userId !== user.id &&
+        waiting.key === entry.key &&
+        Math.abs(waiting.rating - entry.rating) <= ratingWindow(now - waiting.joinedAt),
+    )
+    if (!opponent) {
+      this.queue.push(entry)
+      this.sendQueueStatus(now)
+      return
+    }
+
+    this.queue = this.queue.filter((waiting) => waiting !== opponent)
+    const opponentUser = this.users.get(opponent.userId)
+    if (!opponentUser) return
+    // Whoever waited longer gets the first move
+    const stored = this.storeGame(
+      opponent.userId,
+      user.id,
+      message.variant,
+      message.variant === 'ultimate' ? 3 : message.board_size,
+      message.variant === 'ultimate' ? 3 : message.win_length,
+      message.time_control,
+    )
+    const game = this.publicGame(stored)
+    opponent.session.peer.send({
+      type: 'match_found',
+      game,
+      symbol: 'X',
+      opponent: this.toSummary(user),
+    })
+    session.peer.send({
+      type: 'match_found',
+      game,
+      symbol: 'O',
+      opponent: this.toSummary(opponentUser),
+    })
+    this.sendQueueStatus(now)
+  }
+
+  private leaveQueue(session: Session) {
+    const before = this.queue.length
+    this.queue = this.queue.filter((entry) => entry.session !== session)
+    if (this.queue.length !== before) this.sendQueueStatus(Date.now())
+  }
+
+  private sendQueueStatus(now: number) {
+    this.queue.forEach((entry, index) => {
+      entry.session.peer.send({
+        type: 'queue_status',
+        position: index + 1,
+        players_waiting: this.queue.length,
+        rating_window: ratingWindow(now - entry.joinedAt),
+        waited_ms: now - entry.joinedAt,
+      })
+    })
+  }
+
+  private notifyLobby(message: ServerMessage) {
+    for (const session of this.sessions) {
+      if (session.lobby && session.userId) session.peer.send(message)
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { bearerToken, FakeBackend, type FakeConnection } from './backend'
+import type { ServerMessage } from '../services/websocket'
+
+// Serves a FakeBackend from the Vite dev server: REST requests through its middleware stack and
+// the game socket on `${prefix}/ws`. vite.config.ts loads this module through Vite, so the Node
+// objects handed in are described here only as far as they are used.
+
+interface IncomingRequest extends AsyncIterable<Uint8Array> {
+  method?: string
+  url?: string
+  headers: Record<string, string | string[] | undefined>
+}
+
+interface OutgoingResponse {
+  statusCode: number
+  setHeader(name: string, value: string): void
+  end(body?: string): void
+}
+
+interface RawSocket {
+  write(data: string | Uint8Array): void
+  end(): void
+  on(event: 'data', listener: (chunk: Uint8Array) => void): void
+  on(event: 'close' | 'error', listener: () => void): void
+}
+
+// RFC 6455
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+const OPCODE_TEXT = 0x1
+const OPCODE_CLOSE = 0x8
+const OPCODE_PING = 0x9
+const OPCODE_PONG = 0xa
+
+function header(request: IncomingRequest, name: string): string | null {
+  const value = request.headers[name]
+  return typeof value === 'string' ? value : null
+}
+
+async function acceptKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(key + HANDSHAKE_GUID))
+  return btoa(String.fromCharCode(...new Uint8Array(digest)))
+}
+
+// Server frames are never masked and never fragmented
+function encodeFrame(opcode: number, payload: Uint8Array): Uint8Array {
+  const length = payload.length
+  const headerLength = length < 126 ? 2 : length < 65536 ? 4 : 10
+  const frame = new Uint8Array(headerLength + length)
+  const view = new DataView(frame.buffer)
+  frame[0] = 0x80 | opcode
+  if (length < 126) {
+    frame[1] = length
+  } else if (length < 65536) {
+    frame[1] = 126
+    view.setUint16(2, length)
+  } else {
+    frame[1] = 127
+    view.setUint32(6, length)
+  }
+  frame.set(payload, headerLength)
+  return frame
+}
+
+// Splits the client's byte stream into frames, unmasking their payloads
+function createFrameReader(onFrame: (opcode: number, payload: Uint8Array) => void) {
+  let buffer = new Uint8Array(0)
+
+  return (chunk: Uint8Array) => {
+    const joined = new Uint8Array(buffer.length + chunk.length)
+    joined.set(buffer)
+    joined.set(chunk, buffer.length)
+    buffer = joined
+
+    while (buffer.length >= 2) {
+      const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.length)
+      const opcode = buffer[0]! & 0x0f
+      const masked = (buffer[1]! & 0x80) !== 0
+      let length = buffer[1]! & 0x7f
+      let offset = 2
+      if (length === 126) {
+        if (buffer.length < 4) return
+        length = view.getUint16(2)
+        offset = 4
+      } else if (length === 127) {
+        if (buffer.length < 10) return
+        // Messages here never come near 4 GB, so the high half is ignored
+        length = view.getUint32(6)
+        offset = 10
+      }
+      const mask = masked ? buffer.slice(offset, offset + 4) : null
+      if (mask) offset += 4
+      if (buffer.length < offset + length) return
+
+      const payload = buffer.slice(offset, offset + length)
+      if (mask) {
+        payload.forEach((byte, i) => {
+          payload[i] = byte ^ mask[i % 4]!
+        })
+      }
+      buffer = buffer.slice(offset + length)
+      onFrame(opcode, payload)
+    }
+  }
+}
+
+export function createDevServer(prefix: string, backend: FakeBackend = new FakeBackend()) {
+  const encoder = new TextEncoder()
+
+  async function handleRequest(request: IncomingRequest, response: OutgoingResponse) {
+    const decoder = new TextDecoder()
+    let text = ''
+    for await (const chunk of request) {
+      text += decoder.decode(chunk, { stream: true })
+    }
+    text += decoder.decode()
+
+    let body: unknown
+    try {
+      body = text ? JSON.parse(text) : undefined
+    } catch {
+      response.statusCode = 400
+      response.setHeader('Content-Type', 'application/json')
+      response.end(JSON.stringify({ detail: 'Invalid JSON body' }))
+      return
+    }
+
+    const result = backend.handle({
+      method: request.method ?? 'GET',
+      // The middleware stack strips the prefix it is mounted at
+      path: request.url ?? '/',
+      token: bearerToken(header(request, 'authorization')),
+      body,
+    })
+    response.statusCode = result.status
+    response.setHeader('Content-Type', 'application/json')
+    response.end(result.body === undefined ? '' : JSON.stringify(result.body))
+  }
+
+  // Other upgrades, such as Vite's own HMR socket, are left alone
+  async function handleUpgrade(request: IncomingRequest, socket: RawSocket, head: Uint8Array) {
+    if (request.url !== `${prefix}/ws`) return
+    const key = header(request, 'sec-websocket-key')
+    if (!key) {
+      socket.end()
+      return
+    }
+
+    socket.write(
+      [
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${await acceptKey(key)}`,
+        '',
+        '',
+      ].join('\r\n'),
+    )
+
+    let open = true
+    const hangUp = () => {
+      if (!open) return
+      open = false
+      socket.write(encodeFrame(OPCODE_CLOSE, new Uint8Array(0)))
+      socket.end()
+    }
+    const connection: FakeConnection = backend.connect({
+      send: (message: ServerMessage) => {
+        if (open) socket.write(encodeFrame(OPCODE_TEXT, encoder.encode(JSON.stringify(message))))
+      },
+      close: hangUp,
+    })
+
+    const decoder = new TextDecoder()
+    const read = createFrameReader((opcode, payload) => {
+      if (opcode === OPCODE_TEXT) {
+        connection.receive(decoder.decode(payload))
+      } else if (opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, payload))
+      } else if (opcode === OPCODE_CLOSE) {
+        connection.close()
+        hangUp()
+      }
+    })
+    socket.on('data', read)
+    socket.on('close', () => connection.close())
+    socket.on('error', () => connection.close())
+    if (head.length > 0) read(head)
+  }
+
+  return { handleRequest, handleUpgrade }
+}
@@ -0,0 +1,83 @@
+import { bearerToken, type FakeBackend, type FakeConnection } from './backend'
+import type { ServerMessage } from '../services/websocket'
+
+// Stand-ins for fetch and WebSocket that talk to a FakeBackend in the same process, e.g.
+//   vi.stubGlobal('fetch', createFakeFetch(backend))
+//   vi.stubGlobal('WebSocket', createFakeWebSocket(backend))
+// Answers arrive asynchronously, as they would over the network.
+
+export function createFakeFetch(backend: FakeBackend): typeof fetch {
+  return async (input, init = {}) => {
+    const signal = init.signal
+    await Promise.resolve()
+    if (signal?.aborted) throw signal.reason
+
+    const url = new URL(input instanceof Request ? input.url : String(input), 'http://localhost')
+    const response = backend.handle({
+      method: init.method ?? 'GET',
+      path: url.pathname + url.search,
+      token: bearerToken(new Headers(init.headers).get('Authorization')),
+      body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined,
+    })
+    return new Response(response.body === undefined ? null : JSON.stringify(response.body), {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+export function createFakeWebSocket(backend: FakeBackend) {
+  return class FakeWebSocket {
+    static readonly CONNECTING = 0
+    static readonly OPEN = 1
+    static readonly CLOSING = 2
+    static readonly CLOSED = 3
+
+    readyState = FakeWebSocket.CONNECTING
+    onopen: ((event: Event) => void) | null = null
+    onmessage: ((event: MessageEvent) => void) | null = null
+    onerror: ((event: Event) => void) | null = null
+    onclose: ((event: CloseEvent) => void) | null = null
+    private connection: FakeConnection | null = null
+
+    constructor(readonly url: string) {
+      queueMicrotask(() => {
+        if (this.readyState !== FakeWebSocket.CONNECTING) return
+        this.readyState = FakeWebSocket.OPEN
+        this.connection = backend.connect({
+          send: (message) => queueMicrotask(() => this.deliver(message)),
+          // The server hung up, e.g. through backend.disconnectAll()
+          close: () => this.finish(1006),
+        })
+        this.onopen?.(new Event('open'))
+      })
+    }
+
+    send(data: string) {
+      if (this.readyState !== FakeWebSocket.OPEN) {
+        throw new DOMException('WebSocket is not open', 'InvalidStateError')
+      }
+      const connection = this.connection
+      queueMicrotask(() => connection?.receive(data))
+    }
+
+    close() {
+      if (this.readyState === FakeWebSocket.CLOSING || this.readyState === FakeWebSocket.CLOSED) {
+        return
+      }
+      this.connection?.close()
+      this.finish(1000)
+    }
+
+    private deliver(message: ServerMessage) {
+      if (this.readyState !== FakeWebSocket.OPEN) return
+      this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(message) }))
+    }
+
+    private finish(code: number) {
+      this.readyState = FakeWebSocket.CLOSED
+      this.connection = null
+      queueMicrotask(() => this.onclose?.(new CloseEvent('close', { code })))
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { formatDate, locale, setLocale, t, tn } from '..'
+import { en } from '../messages/en'
+import { fr } from '../messages/fr'
+import { ar } from '../messages/ar'
+import type { MessageTree } from '../types'
+
+// Every leaf string by dotted key, plural forms included as key.form
+const flatten = (tree: MessageTree, prefix = ''): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(tree).flatMap(([key, value]) =>
+      typeof value === 'string'
+        ? [[`${prefix}${key}`, value]]
+        : Object.entries(flatten(value as MessageTree, `${prefix}${key}.`)),
+    ),
+  )
+
+const placeholders = (message: string) =>
+  [...message.matchAll(/\{(\w+)\}/g)].map((m) => m[1]).sort()
+
+// The plural forms a language may leave out, as long as `other` covers them
+const FORMS = /\.(zero|one|two|few|many|other)$/
+
+const keysOf = (tree: MessageTree) =>
+  [...new Set(Object.keys(flatten(tree)).map((key) => key.replace(FORMS, '')))].sort()
+
+afterEach(() => {
+  setLocale('en')
+  localStorage.clear()
+})
+
+describe('t', () => {
+  it('fills in placeholders', () => {
+    expect(t('validation.minLength', { field: 'Username', min: 3 })).toBe(
+      'Username must be at least 3 characters',
+    )
+  })
+
+  it('leaves placeholders without a value as they are', () => {
+    expect(t('home.welcome')).toBe('Welcome, {name}!')
+  })
+
+  it('follows the current language', () => {
+    setLocale('fr')
+    expect(t('common.next')).toBe('Suivant')
+  })
+})
+
+describe('tn', () => {
+  it('picks the English singular and plural', () => {
+    expect(tn('game.playersInRoom', 1)).toBe('1 player in room')
+    expect(tn('game.playersInRoom', 2)).toBe('2 players in room')
+  })
+
+  it('uses the Arabic plural categories', () => {
+    setLocale('ar')
+    const forms = new Set([0, 1, 2, 3, 11, 100].map((count) => tn('game.playersInRoom', count)))
+    expect(forms.size).toBe(6)
+  })
+
+  it('falls back to the other form when a language has no specific one', () => {
+    expect(tn('lobby.minutesAgo', 1)).toBe('1 min ago')
+  })
+})
+
+describe('setLocale', () => {
+  it('remembers the choice', () => {
+    setLocale('fr')
+    expect(localStorage.getItem('locale')).toBe('fr')
+    expect(locale.value).toBe('fr')
+  })
+
+  it('lays the page out right to left for Arabic', () => {
+    setLocale('ar')
+    expect(document.documentElement.dir).toBe('rtl')
+    expect(document.documentElement.lang).toBe('ar')
+    setLocale('en')
+    expect(document.documentElement.dir).toBe('ltr')
+  })
+})
+
+describe('formatDate', () => {
+  it('formats dates in the current language', () => {
+    const date = '2024-03-05T12:00:00Z'
+    const english = formatDate(date, { month: 'long', timeZone: 'UTC' })
+    setLocale('fr')
+    expect(english).toBe('March')
+    expect(formatDate(date, { month: 'long', timeZone: 'UTC' })).toBe('mars')
+  })
+
+  it('returns an empty string for dates that do not parse', () => {
+    expect(formatDate('not a date')).toBe('')
+  })
+})
+
+describe('translations', () => {
+  it.each([
+    ['fr', fr],
+    ['ar', ar],
+  ])('%s has the same keys as en', (_, messages) => {
+    expect(keysOf(messages)).toEqual(keysOf(en))
+  })
+
+  it.each([
+    ['fr', fr],
+    ['ar', ar],
+  ])('%s uses the same placeholders as en', (_, messages) => {
+    const reference = flatten(en)
+    for (const [key, message] of Object.entries(flatten(messages))) {
+      const english = reference[key] ?? reference[key.replace(FORMS, '.other')] ?? ''
+      // A plural form may spell the number out instead of using {count}
+      const expected = placeholders(english).filter((name) => !FORMS.test(key) || name !== 'count')
+      const actual = placeholders(message).filter((name) => !FORMS.test(key) || name !== 'count')
+      expect(actual, key).toEqual(expected)
+    }
+  })
+})
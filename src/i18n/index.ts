@@ -0,0 +1,101 @@
+import { computed, ref } from 'vue'
+import { en, type Messages } from './messages/en'
+import { fr } from './messages/fr'
+import { ar } from './messages/ar'
+import type { MessageKey, MessageParams, MessageTree, Plural, PluralKey } from './types'
+
+export type { Messages } from './messages/en'
+export type Locale = 'en' | 'fr' | 'ar'
+export type TranslationKey = MessageKey<Messages>
+export type PluralTranslationKey = PluralKey<Messages>
+
+export interface LocaleInfo {
+  // The language's own name, so it can be found in the switcher without reading the current one
+  name: string
+  dir: 'ltr' | 'rtl'
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { name: 'English', dir: 'ltr' },
+  fr: { name: 'Français', dir: 'ltr' },
+  ar: { name: 'العربية', dir: 'rtl' },
+}
+
+const MESSAGES: Record<Locale, Messages> = { en, fr, ar }
+const STORAGE_KEY = 'locale'
+
+function isLocale(value: string | null | undefined): value is Locale {
+  return !!value && value in LOCALES
+}
+
+// A language picked earlier wins over the browser's preferences; neither exists outside the
+// browser, e.g. when the fake backend runs in the dev server
+function detectLocale(): Locale {
+  const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY)
+  if (isLocale(stored)) return stored
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages
+  for (const tag of preferred) {
+    const language = tag.split('-')[0]?.toLowerCase()
+    if (isLocale(language)) return language
+  }
+  return 'en'
+}
+
+export const locale = ref<Locale>(detectLocale())
+export const direction = computed(() => LOCALES[locale.value].dir)
+
+// Keeps <html lang dir> in step, which is what lays the whole page out right to left for Arabic
+export function applyLocale(): void {
+  document.documentElement.lang = locale.value
+  document.documentElement.dir = direction.value
+}
+
+export function setLocale(next: Locale): void {
+  locale.value = next
+  localStorage.setItem(STORAGE_KEY, next)
+  applyLocale()
+}
+
+function lookup(messages: Messages, key: string): string | Plural | MessageTree | undefined {
+  let node: string | Plural | MessageTree | undefined = messages
+  for (const part of key.split('.')) {
+    if (node === undefined || typeof node === 'string') return undefined
+    node = (node as MessageTree)[part]
+  }
+  return node
+}
+
+function interpolate(message: string, params: MessageParams): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  )
+}
+
+// Reads locale.value, so templates and computeds calling these follow a language switch
+export function t(key: TranslationKey, params: MessageParams = {}): string {
+  const message = lookup(MESSAGES[locale.value], key) ?? lookup(en, key)
+  return typeof message === 'string' ? interpolate(message, params) : key
+}
+
+// `count` picks the plural form and is also available to the message as {count}
+export function tn(key: PluralTranslationKey, count: number, params: MessageParams = {}): string {
+  const forms = (lookup(MESSAGES[locale.value], key) ?? lookup(en, key)) as Plural | undefined
+  if (!forms) return key
+  const category = new Intl.PluralRules(locale.value).select(count)
+  return interpolate(forms[category] ?? forms.other, { count, ...params })
+}
+
+// Dates and times in the reader's language; '' for values that do not parse
+export function formatDate(
+  value: string | number | Date,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' },
+): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime())
+    ? ''
+    : new Intl.DateTimeFormat(locale.value, options).format(date)
+}
+
+export function formatTime(value: string | number | Date): string {
+  return formatDate(value, { hour: '2-digit', minute: '2-digit' })
+}
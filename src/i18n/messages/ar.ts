@@ -0,0 +1,507 @@
+import type { Messages } from './en'
+
+export const ar: Messages = {
+  common: {
+    backToHome: '→ العودة إلى الصفحة الرئيسية',
+    back: '→ رجوع',
+    loading: 'جارٍ التحميل...',
+    previous: 'السابق',
+    next: 'التالي',
+    pageOf: 'الصفحة {page} من {count}',
+    accept: 'قبول',
+    decline: 'رفض',
+    close: 'إغلاق',
+    cancel: 'إلغاء',
+    copied: 'تم النسخ!',
+    you: 'أنت',
+    opponent: 'الخصم',
+    computer: 'الحاسوب',
+    draws: 'تعادلات',
+    elo: 'تصنيف ELO: {rating}',
+    passAndPlay: 'اللعب بالتناوب',
+    playVsComputer: 'العب ضد الحاسوب',
+    classic: 'كلاسيكي',
+    ultimate: 'ألتيميت',
+  },
+  language: {
+    label: 'اللغة',
+  },
+  session: {
+    endsIn: 'تنتهي جلستك خلال {time}.',
+    staySignedIn: 'البقاء متصلاً',
+    logOut: 'تسجيل الخروج',
+  },
+  auth: {
+    title: '🎮 إكس أو',
+    username: 'اسم المستخدم',
+    email: 'البريد الإلكتروني',
+    password: 'كلمة المرور',
+    confirmPassword: 'تأكيد كلمة المرور',
+    login: {
+      heading: 'مرحبًا بعودتك',
+      subtitle: 'سجّل الدخول لمواصلة اللعب',
+      usernamePlaceholder: 'أدخل اسم المستخدم',
+      passwordPlaceholder: 'أدخل كلمة المرور',
+      submit: 'تسجيل الدخول',
+      submitting: 'جارٍ تسجيل الدخول...',
+      noAccount: 'ليس لديك حساب؟',
+      signUp: 'أنشئ حسابًا',
+      offline: 'لا يوجد اتصال؟',
+      or: 'أو',
+    },
+    signup: {
+      heading: 'إنشاء حساب',
+      subtitle: 'انضم إلى اللعبة وابدأ اللعب',
+      usernamePlaceholder: 'اختر اسم مستخدم',
+      emailPlaceholder: 'أدخل بريدك الإلكتروني',
+      passwordPlaceholder: 'أنشئ كلمة مرور',
+      confirmPlaceholder: 'أكّد كلمة المرور',
+      passwordHint:
+        'يجب أن تتكون كلمة المرور من 8 أحرف على الأقل، وأن تتضمن حرفًا كبيرًا وحرفًا صغيرًا ورقمًا',
+      submit: 'إنشاء الحساب',
+      submitting: 'جارٍ إنشاء الحساب...',
+      haveAccount: 'لديك حساب بالفعل؟',
+      signIn: 'سجّل الدخول',
+    },
+    showPassword: 'إظهار كلمة المرور',
+    hidePassword: 'إخفاء كلمة المرور',
+  },
+  validation: {
+    invalid: 'هذه القيمة غير صالحة',
+    required: 'حقل {field} مطلوب',
+    minLength: 'يجب أن يحتوي حقل {field} على {min} أحرف على الأقل',
+    maxLength: 'يجب ألا يتجاوز حقل {field} {max} حرفًا',
+    emailRequired: 'البريد الإلكتروني مطلوب',
+    emailInvalid: 'يرجى إدخال بريد إلكتروني صالح',
+    passwordRequired: 'كلمة المرور مطلوبة',
+    passwordTooShort: 'يجب أن تتكون كلمة المرور من 8 أحرف على الأقل',
+    passwordUppercase: 'يجب أن تحتوي كلمة المرور على حرف كبير واحد على الأقل',
+    passwordLowercase: 'يجب أن تحتوي كلمة المرور على حرف صغير واحد على الأقل',
+    passwordNumber: 'يجب أن تحتوي كلمة المرور على رقم واحد على الأقل',
+    passwordsMismatch: 'كلمتا المرور غير متطابقتين',
+    usernameRequired: 'اسم المستخدم مطلوب',
+    usernameTooShort: 'يجب أن يتكون اسم المستخدم من 3 أحرف على الأقل',
+    usernameTooLong: 'يجب ألا يتجاوز اسم المستخدم 20 حرفًا',
+    usernameCharacters: 'يمكن أن يحتوي اسم المستخدم على أحرف وأرقام وشرطات سفلية فقط',
+    usernameTaken: 'اسم المستخدم هذا مستخدم بالفعل',
+    emailTaken: 'يوجد حساب يستخدم هذا البريد الإلكتروني بالفعل',
+    checking: 'جارٍ التحقق من التوفر...',
+    chatEmpty: 'الرسالة فارغة',
+    chatTooLong: 'الحد الأقصى لطول الرسائل هو {max} حرفًا',
+    boardSize: 'يجب أن يكون حجم اللوحة بين {min} و{max}',
+    winLength: 'يجب أن يكون طول خط الفوز بين {min} و{max}',
+    winLengthOverBoard: 'لا يمكن أن يتجاوز طول خط الفوز حجم اللوحة',
+  },
+  errors: {
+    requestFailed: 'فشل الطلب',
+    timedOut: 'انتهت مهلة الطلب',
+    unreachable: '{action}: تعذّر الوصول إلى الخادم',
+    signup: 'تعذّر إنشاء الحساب',
+    login: 'تعذّر تسجيل الدخول',
+    invalidCredentials: 'بيانات الدخول غير صحيحة',
+    refreshSession: 'تعذّر تجديد الجلسة',
+    getUser: 'تعذّر جلب بيانات المستخدم',
+    noToken: 'لا يوجد رمز دخول',
+    healthCheck: 'فشل فحص حالة الخادم',
+    createGame: 'تعذّر إنشاء المباراة',
+    joinGame: 'تعذّر الانضمام إلى المباراة',
+    listGames: 'تعذّر جلب قائمة المباريات',
+    getGame: 'تعذّر جلب المباراة',
+    getBoard: 'تعذّر جلب اللوحة',
+    getMoves: 'تعذّر جلب سجل النقلات',
+    makeMove: 'تعذّر لعب النقلة',
+    resign: 'تعذّر الاستسلام',
+    offerDraw: 'تعذّر عرض التعادل',
+    acceptDraw: 'تعذّر قبول التعادل',
+    declineDraw: 'تعذّر رفض التعادل',
+    claimTimeout: 'تعذّرت المطالبة بالفوز بانتهاء الوقت',
+    getProfile: 'تعذّر جلب الملف الشخصي',
+    getStats: 'تعذّر جلب إحصائيات اللاعب',
+    getRatingHistory: 'تعذّر جلب سجل التصنيف',
+    getGameHistory: 'تعذّر جلب سجل المباريات',
+    getLeaderboard: 'تعذّر جلب لوحة الصدارة',
+    getLeaderboardEntry: 'تعذّر جلب ترتيبك في لوحة الصدارة',
+    notConnected: 'لست متصلاً بأي مباراة',
+    chatTooFast: 'أنت ترسل الرسائل بسرعة كبيرة',
+    notYourTurn: 'ليس دورك',
+    cellTaken: 'هذه الخانة غير متاحة',
+    noActiveGame: 'لا توجد مباراة أو لاعب نشط',
+    gameNotInProgress: 'المباراة ليست جارية',
+    joinQueue: 'تعذّر الانضمام إلى قائمة الانتظار',
+    loadLobby: 'تعذّر تحميل المباريات المفتوحة',
+    checkAvailability: 'تعذّر التحقق من التوفر',
+  },
+  home: {
+    welcome: 'مرحبًا، {name}!',
+    viewProfile: 'عرض الملف الشخصي',
+    leaderboard: 'لوحة الصدارة',
+    logout: 'تسجيل الخروج',
+    title: '🎮 إكس أو أونلاين',
+    subtitle: 'العب إكس أو مع أصدقائك في الوقت الفعلي!',
+    createGame: 'إنشاء مباراة',
+    joinGame: 'الانضمام إلى مباراة',
+    findMatch: 'البحث عن خصم',
+    watchGame: 'مشاهدة المباراة',
+    creating: 'جارٍ الإنشاء...',
+    joining: 'جارٍ الانضمام...',
+    gameId: 'معرّف المباراة:',
+    gameIdPlaceholder: 'أدخل معرّف المباراة للانضمام',
+    playVsComputer: '🤖 العب ضد الحاسوب',
+    passAndPlay: '👥 اللعب بالتناوب',
+    loginToCreate: 'يجب تسجيل الدخول لإنشاء مباراة',
+    loginToJoin: 'يجب تسجيل الدخول للانضمام إلى مباراة',
+    enterGameId: 'يرجى إدخال معرّف المباراة',
+    howToPlay: 'طريقة اللعب:',
+    createStep: 'انقر على «إنشاء مباراة» لبدء مباراة جديدة',
+    createHint: 'شارك معرّف المباراة مع خصمك',
+    matchStep: 'انقر على «البحث عن خصم» لمواجهة لاعب بتصنيف قريب من تصنيفك',
+    matchHint: 'تُفتح المباراة تلقائيًا بمجرد العثور على خصم',
+    joinStep: 'اختر مباراة مفتوحة من القائمة، أو أدخل المعرّف الذي شاركه اللاعب الأول',
+    joinHint: 'انقر على «الانضمام إلى مباراة» للانضمام',
+    connectStep: 'انتظر حتى يتصل اللاعبان عبر WebSocket',
+    playStep: 'ابدأ اللعب! X يبدأ أولاً',
+  },
+  settings: {
+    classicPreset: 'كلاسيكي 3×3',
+    gomokuPreset: 'غوموكو 15×15',
+    boardSize: 'حجم اللوحة',
+    winLength: 'عدد الخانات المتتالية للفوز',
+    timeControl: 'نظام الوقت',
+    untimed: 'بدون وقت',
+    perMove: '{seconds} ث لكل نقلة',
+    minutes: '{minutes} د',
+    seconds: '{seconds} ث',
+    increment: '{bank} + {seconds} ث',
+  },
+  lobby: {
+    title: 'المباريات المفتوحة',
+    waiting: {
+      zero: 'لا توجد مباريات في الانتظار',
+      one: 'مباراة واحدة في الانتظار',
+      two: 'مباراتان في الانتظار',
+      few: '{count} مباريات في الانتظار',
+      many: '{count} مباراة في الانتظار',
+      other: '{count} مباراة في الانتظار',
+    },
+    variant: 'النوع',
+    allVariants: 'جميع الأنواع',
+    nearMyRating: 'قريبة من تصنيفي',
+    empty: 'لا توجد مباريات مفتوحة حاليًا',
+    openYourGame: 'افتح مباراتك',
+    join: 'انضم إلى المباراة',
+    you: '(أنت)',
+    justNow: 'الآن',
+    minutesAgo: {
+      one: 'منذ دقيقة',
+      two: 'منذ دقيقتين',
+      few: 'منذ {count} دقائق',
+      many: 'منذ {count} دقيقة',
+      other: 'منذ {count} دقيقة',
+    },
+    hoursAgo: {
+      one: 'منذ ساعة',
+      two: 'منذ ساعتين',
+      few: 'منذ {count} ساعات',
+      many: 'منذ {count} ساعة',
+      other: 'منذ {count} ساعة',
+    },
+    daysAgo: {
+      one: 'منذ يوم',
+      two: 'منذ يومين',
+      few: 'منذ {count} أيام',
+      many: 'منذ {count} يومًا',
+      other: 'منذ {count} يوم',
+    },
+  },
+  matchmaking: {
+    yourRating: 'تصنيفك: {rating}',
+    findMatch: 'البحث عن خصم',
+    joining: 'جارٍ الانضمام إلى قائمة الانتظار...',
+    searching: 'جارٍ البحث عن خصم {time}',
+    ratings: 'التصنيفات {min}–{max} (±{window})',
+    playersWaiting: {
+      zero: '· لا أحد في الانتظار',
+      one: '· لاعب واحد في الانتظار',
+      two: '· لاعبان في الانتظار',
+      few: '· {count} لاعبين في الانتظار',
+      many: '· {count} لاعبًا في الانتظار',
+      other: '· {count} لاعب في الانتظار',
+    },
+    matchFound: 'تم العثور على خصم: {name} ({rating}). ستلعب بـ {symbol}.',
+  },
+  game: {
+    gameId: 'معرّف المباراة: {id}',
+    loading: 'جارٍ تحميل المباراة...',
+    initializeFailed: 'تعذّر بدء المباراة',
+    retryFailed: 'تعذّرت إعادة الاتصال',
+    reloadFailed: 'تعذّرت إعادة تحميل المباراة',
+    actionFailed: 'فشل الإجراء',
+    rematchFailed: 'تعذّر طلب مباراة العودة',
+    connection: {
+      idle: '○ غير متصل',
+      connecting: '○ جارٍ الاتصال...',
+      open: '● متصل',
+      reconnecting: '○ جارٍ إعادة الاتصال...',
+      failed: '○ انقطع الاتصال',
+    },
+    roomErrors: {
+      room_not_found: 'غرفة المباراة هذه لم تعد موجودة.',
+      room_full: 'هذه المباراة تضم لاعبين بالفعل.',
+      not_your_game: 'أنت لست لاعبًا في هذه المباراة.',
+      auth_expired: 'انتهت صلاحية جلستك. يرجى تسجيل الدخول مجددًا.',
+    },
+    playersInRoom: {
+      zero: 'لا يوجد لاعبون في الغرفة',
+      one: 'لاعب واحد في الغرفة',
+      two: 'لاعبان في الغرفة',
+      few: '{count} لاعبين في الغرفة',
+      many: '{count} لاعبًا في الغرفة',
+      other: '{count} لاعب في الغرفة',
+    },
+    watching: {
+      one: '👁 مشاهد واحد',
+      two: '👁 مشاهدان',
+      few: '👁 {count} مشاهدين',
+      many: '👁 {count} مشاهدًا',
+      other: '👁 {count} مشاهد',
+    },
+    unsentMove: 'لم تصل نقلتك الأخيرة إلى الخادم بعد. سيتم إرسالها فور عودة الاتصال.',
+    retry: 'إعادة الاتصال',
+    retrying: 'جارٍ إعادة المحاولة...',
+    reload: 'إعادة تحميل المباراة',
+    reloading: 'جارٍ إعادة التحميل...',
+    waitingForPlayers: 'في انتظار اللاعبين...',
+    invite: {
+      prompt: 'ادعُ صديقًا بهذا الرابط، أو دعه يمسح الرمز بهاتفه.',
+      link: 'رابط الدعوة',
+      copy: 'نسخ رابط الدعوة',
+      copyFailed: 'تعذّر نسخ رابط الدعوة',
+      qrLabel: 'رمز QR لرابط الدعوة',
+    },
+    spectating: 'مشاهدة',
+    youAre: 'أنت تلعب بـ: {symbol}',
+    series: 'الأفضل في {bestOf} · المباراة {game}:',
+    seriesDraws: {
+      one: '(تعادل واحد)',
+      two: '(تعادلان)',
+      few: '({count} تعادلات)',
+      many: '({count} تعادلًا)',
+      other: '({count} تعادل)',
+    },
+    drawOffered: 'يعرض خصمك التعادل.',
+    acceptDraw: 'قبول التعادل',
+    offerDraw: 'عرض التعادل',
+    drawPending: 'تم عرض التعادل',
+    drawDeclined: 'تم رفض عرض التعادل.',
+    resign: 'استسلام',
+    confirmResign: 'هل تريد الاستسلام في هذه المباراة؟',
+    seriesOver: 'انتهت السلسلة',
+    seriesOverSentence: 'انتهت السلسلة.',
+    rematchOffer: 'يريد خصمك مباراة عودة',
+    rematchOfferSeries: 'يريد خصمك مباراة عودة (الأفضل في {bestOf})',
+    rematchPending: 'تم طلب مباراة العودة، في انتظار خصمك...',
+    rematchDeclined: 'رفض خصمك مباراة العودة.',
+    seriesLength: 'طول السلسلة',
+    singleGame: 'مباراة واحدة',
+    bestOf: 'الأفضل في {count}',
+    nextGame: 'المباراة التالية',
+    rematch: 'مباراة العودة',
+    newGame: 'مباراة جديدة',
+    watchReplay: 'مشاهدة الإعادة',
+  },
+  board: {
+    wins: 'فاز اللاعب {symbol}!',
+    winsOnTime: 'فاز اللاعب {symbol} بانتهاء الوقت!',
+    winsByResignation: 'فاز اللاعب {symbol} بالاستسلام!',
+    draw: 'تعادل!',
+    drawAgreed: 'تعادل بالاتفاق',
+    toMove: 'دور {symbol}',
+    waiting: 'في انتظار اللاعبين...',
+    playerTurn: 'دور اللاعب {symbol}',
+    computerThinking: 'الحاسوب يفكر...',
+    yourTurn: 'دورك!',
+    opponentTurn: 'دور الخصم',
+    finished: 'انتهت المباراة',
+    rules: 'لوحة {size}×{size}، {length} متتالية للفوز',
+    zoomOut: 'تصغير',
+    zoomIn: 'تكبير',
+    spectating: 'أنت {spectating}',
+    spectatingWord: 'تشاهد',
+    youAre: 'أنت تلعب بـ: {symbol}',
+    notAssigned: 'غير محدد',
+    currentTurn: 'الدور الحالي: {symbol}',
+    clock: 'ساعة {symbol}',
+  },
+  moves: {
+    title: 'النقلات',
+    empty: 'لا توجد نقلات بعد',
+  },
+  viewer: {
+    first: 'النقلة الأولى',
+    previous: 'النقلة السابقة',
+    next: 'النقلة التالية',
+    last: 'النقلة الأخيرة',
+    play: '▶ تشغيل',
+    pause: '⏸ إيقاف مؤقت',
+    position: 'النقلة {ply} / {last}',
+  },
+  notation: {
+    copy: 'نسخ التدوين',
+    copyFailed: 'تعذّر النسخ إلى الحافظة',
+    download: 'تنزيل {extension}',
+    import: 'استيراد مباراة',
+    open: 'فتح',
+    upload: 'رفع {extension}',
+    readFailed: 'تعذّرت قراءة المباراة',
+    versus: '{x} (X) ضد {o} (O)',
+    errors: {
+      at: 'السطر {line}، العمود {column}: {message}',
+      headersFirst: 'يجب أن تأتي الترويسات قبل النقلات',
+      headerExpected: 'يُتوقَّع ترويسة مثل [Name "value"]',
+      unknownHeader: 'ترويسة غير معروفة "{name}"',
+      duplicateHeader: 'ترويسة مكرّرة "{name}"',
+      unknownVariant: 'نوع غير معروف "{variant}"، المتوقَّع classic أو ultimate',
+      numberExpected: 'يُتوقَّع رقم، ورد "{text}"',
+      ultimateSize: 'تُلعب مباريات ultimate دائمًا على ألواح 3×3',
+      unknownResult: 'نتيجة غير معروفة "{result}"، المتوقَّع X أو O أو DRAW أو *',
+      ultimateMoveExpected: 'يُتوقَّع نقلة ultimate مثل b2:a1، ورد "{text}"',
+      squareExpected: 'يُتوقَّع مربع مثل b2، ورد "{text}"',
+      offUltimateBoard: '"{move}" خارج اللوحة',
+      offBoard: '{square} خارج اللوحة {size}×{size}',
+      moveNumber: 'يُتوقَّع رقم النقلة {number}.',
+      moveNumberBeforeX: 'يُتوقَّع رقم النقلة {number}. قبل نقلة X',
+      illegalMove: 'نقلة غير مسموحة {symbol} {move}: {reason}',
+      gameOver: 'انتهت المباراة بالفعل',
+      wrongSubBoard: 'يجب لعب النقلة في اللوحة الفرعية {board}',
+      subBoardDecided: 'حُسمت اللوحة الفرعية {board} بالفعل',
+      squareTaken: 'المربع {square} مشغول بالفعل',
+      resultMismatch: 'النتيجة "{result}" لا تطابق النقلات التي تنتهي بـ {actual}',
+      unknownTermination:
+        'نهاية غير معروفة "{termination}"، المتوقَّع timeout أو resignation أو agreement',
+      terminationAfterEnd: 'النقلات تُنهي المباراة بالفعل، فلا يمكن أن تنتهي بـ {termination}',
+      terminationDraw: 'المباراة المنتهية بـ {termination} تحتاج إلى النتيجة DRAW',
+      terminationWinner: 'المباراة المنتهية بـ {termination} تحتاج إلى النتيجة X أو O',
+    },
+  },
+  chat: {
+    toggle: '💬 الدردشة',
+    filterProfanity: 'تصفية الألفاظ النابية',
+    muteOpponent: 'كتم الخصم',
+    empty: 'لا توجد رسائل بعد',
+    sendEmote: 'إرسال رمز {emote}',
+    placeholder: 'قل شيئًا...',
+    message: 'رسالة الدردشة',
+    send: 'إرسال',
+    sendFailed: 'تعذّر إرسال الرسالة',
+    emoteFailed: 'تعذّر إرسال الرمز',
+  },
+  rating: {
+    result: 'التصنيف: {change}',
+    atStake: 'على المحك:',
+    win: 'فوز {change}',
+    draw: 'تعادل {change}',
+    loss: 'خسارة {change}',
+    provisional: '(مؤقت)',
+    provisionalHint: 'يتغير التصنيف بسرعة أكبر خلال مبارياتك الأولى',
+  },
+  scoreboard: {
+    reset: 'إعادة تعيين النتيجة',
+  },
+  local: {
+    title: 'اللعب بالتناوب',
+    nextRound: 'الجولة التالية',
+    restartRound: 'إعادة الجولة',
+  },
+  computer: {
+    title: 'ضد الحاسوب',
+    difficulty: 'الصعوبة:',
+    playAs: 'العب بـ:',
+    random: 'سهل',
+    heuristic: 'متوسط',
+    perfect: 'لا يُهزم',
+    playAgain: 'العب مجددًا',
+    restart: 'إعادة البدء',
+  },
+  join: {
+    invite: 'دعوة: {id}',
+    signInToJoin: 'يجب تسجيل الدخول للانضمام إلى مباراة',
+    gameOver: 'هذه المباراة انتهت بالفعل.',
+    gameFull: 'هذه المباراة تضم لاعبين بالفعل.',
+    watchInstead: 'شاهدها بدلاً من ذلك',
+    joining: 'جارٍ الانضمام إلى المباراة...',
+  },
+  replay: {
+    backToGame: '→ العودة إلى المباراة',
+    title: 'إعادة: {id}',
+    loading: 'جارٍ تحميل الإعادة...',
+    loadFailed: 'تعذّر تحميل الإعادة',
+  },
+  profile: {
+    loading: 'جارٍ تحميل الملف الشخصي...',
+    loadFailed: 'تعذّر تحميل الملف الشخصي',
+    historyFailed: 'تعذّر تحميل سجل المباريات',
+    avatar: 'صورة {name}',
+    memberSince: 'عضو منذ {date}',
+    stats: 'الإحصائيات',
+    wins: 'انتصارات',
+    losses: 'هزائم',
+    winRate: 'نسبة الفوز',
+    asX: 'بـ X',
+    asO: 'بـ O',
+    total: 'المجموع',
+    ofGames: {
+      one: 'من مباراة واحدة',
+      two: 'من مباراتين',
+      few: 'من {count} مباريات',
+      many: 'من {count} مباراة',
+      other: 'من {count} مباراة',
+    },
+    currentStreak: 'السلسلة الحالية: {streak}',
+    rating: 'التصنيف',
+    history: 'سجل المباريات',
+    noGames: 'لا توجد مباريات منتهية بعد',
+    won: 'فوز',
+    lost: 'خسارة',
+    draw: 'تعادل',
+    versus: 'بـ {symbol} ضد {name}',
+    unknownOpponent: 'مجهول',
+    streak: {
+      none: 'لا توجد مباريات بعد',
+      win: {
+        one: 'فوز واحد',
+        two: 'فوزان',
+        few: '{count} انتصارات',
+        many: '{count} انتصارًا',
+        other: '{count} انتصار',
+      },
+      loss: {
+        one: 'خسارة واحدة',
+        two: 'خسارتان',
+        few: '{count} خسارات',
+        many: '{count} خسارة',
+        other: '{count} خسارة',
+      },
+      draw: {
+        one: 'تعادل واحد',
+        two: 'تعادلان',
+        few: '{count} تعادلات',
+        many: '{count} تعادلًا',
+        other: '{count} تعادل',
+      },
+    },
+    chartEmpty: 'لا توجد مباريات مصنفة كافية لعرض الرسم البياني بعد',
+    chartLabel: 'تطور التصنيف من {from} إلى {to}',
+  },
+  leaderboard: {
+    title: '🏆 لوحة الصدارة',
+    yourPosition: 'ترتيبك',
+    search: 'ابحث عن لاعبين...',
+    searchLabel: 'البحث عن لاعبين',
+    player: 'اللاعب',
+    elo: 'ELO',
+    games: 'المباريات',
+    empty: 'لم يُعثر على لاعبين',
+    provisional: 'تصنيف مؤقت',
+    loadFailed: 'تعذّر تحميل لوحة الصدارة',
+  },
+}
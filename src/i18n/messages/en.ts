@@ -0,0 +1,437 @@
+import type { MessageShape, MessageTree } from '../types'
+
+// The reference translation: every key starts here, and fr and ar must provide the same ones.
+// {name} placeholders are filled in by t() and tn(); tn() always provides {count}.
+export const en = {
+  common: {
+    backToHome: '← Back to Home',
+    back: '← Back',
+    loading: 'Loading...',
+    previous: 'Previous',
+    next: 'Next',
+    pageOf: 'Page {page} of {count}',
+    accept: 'Accept',
+    decline: 'Decline',
+    close: 'Close',
+    cancel: 'Cancel',
+    copied: 'Copied!',
+    you: 'You',
+    opponent: 'Opponent',
+    computer: 'Computer',
+    draws: 'Draws',
+    elo: 'ELO: {rating}',
+    passAndPlay: 'Pass & Play',
+    playVsComputer: 'Play vs Computer',
+    classic: 'Classic',
+    ultimate: 'Ultimate',
+  },
+  language: {
+    label: 'Language',
+  },
+  session: {
+    endsIn: 'Your session ends in {time}.',
+    staySignedIn: 'Stay signed in',
+    logOut: 'Log out',
+  },
+  auth: {
+    title: '🎮 TicTacToe',
+    username: 'Username',
+    email: 'Email',
+    password: 'Password',
+    confirmPassword: 'Confirm Password',
+    login: {
+      heading: 'Welcome Back',
+      subtitle: 'Sign in to continue playing',
+      usernamePlaceholder: 'Enter your username',
+      passwordPlaceholder: 'Enter your password',
+      submit: 'Sign In',
+      submitting: 'Signing in...',
+      noAccount: "Don't have an account?",
+      signUp: 'Sign up',
+      offline: 'No connection?',
+      or: 'or',
+    },
+    signup: {
+      heading: 'Create Account',
+      subtitle: 'Join the game and start playing',
+      usernamePlaceholder: 'Choose a username',
+      emailPlaceholder: 'Enter your email',
+      passwordPlaceholder: 'Create a password',
+      confirmPlaceholder: 'Confirm your password',
+      passwordHint:
+        'Password must be at least 8 characters with uppercase, lowercase, and a number',
+      submit: 'Sign Up',
+      submitting: 'Creating account...',
+      haveAccount: 'Already have an account?',
+      signIn: 'Sign in',
+    },
+    showPassword: 'Show password',
+    hidePassword: 'Hide password',
+  },
+  validation: {
+    invalid: 'This value is not valid',
+    required: '{field} is required',
+    minLength: '{field} must be at least {min} characters',
+    maxLength: '{field} must be at most {max} characters',
+    emailRequired: 'Email is required',
+    emailInvalid: 'Please enter a valid email address',
+    passwordRequired: 'Password is required',
+    passwordTooShort: 'Password must be at least 8 characters',
+    passwordUppercase: 'Password must contain at least one uppercase letter',
+    passwordLowercase: 'Password must contain at least one lowercase letter',
+    passwordNumber: 'Password must contain at least one number',
+    passwordsMismatch: 'Passwords do not match',
+    usernameRequired: 'Username is required',
+    usernameTooShort: 'Username must be at least 3 characters',
+    usernameTooLong: 'Username must be at most 20 characters',
+    usernameCharacters: 'Username can only contain letters, numbers, and underscores',
+    usernameTaken: 'This username is already taken',
+    emailTaken: 'An account already uses this email',
+    checking: 'Checking availability...',
+    chatEmpty: 'Message is empty',
+    chatTooLong: 'Messages are limited to {max} characters',
+    boardSize: 'Board size must be between {min} and {max}',
+    winLength: 'Win length must be between {min} and {max}',
+    winLengthOverBoard: 'Win length cannot exceed the board size',
+  },
+  errors: {
+    requestFailed: 'Request failed',
+    timedOut: 'Request timed out',
+    unreachable: '{action}: server unreachable',
+    signup: 'Failed to sign up',
+    login: 'Failed to log in',
+    invalidCredentials: 'Invalid credentials',
+    refreshSession: 'Failed to refresh session',
+    getUser: 'Failed to get user',
+    noToken: 'No token available',
+    healthCheck: 'API health check failed',
+    createGame: 'Failed to create game',
+    joinGame: 'Failed to join game',
+    listGames: 'Failed to list games',
+    getGame: 'Failed to get game',
+    getBoard: 'Failed to get board',
+    getMoves: 'Failed to get move history',
+    makeMove: 'Failed to make move',
+    resign: 'Failed to resign',
+    offerDraw: 'Failed to offer a draw',
+    acceptDraw: 'Failed to accept the draw',
+    declineDraw: 'Failed to decline the draw',
+    claimTimeout: 'Failed to claim the timeout',
+    getProfile: 'Failed to get profile',
+    getStats: 'Failed to get player stats',
+    getRatingHistory: 'Failed to get rating history',
+    getGameHistory: 'Failed to get game history',
+    getLeaderboard: 'Failed to get leaderboard',
+    getLeaderboardEntry: 'Failed to get leaderboard position',
+    notConnected: 'Not connected to a game',
+    chatTooFast: 'You are sending messages too quickly',
+    notYourTurn: 'It is not your turn',
+    cellTaken: 'That cell is not available',
+    noActiveGame: 'No active game or player ID',
+    gameNotInProgress: 'The game is not in progress',
+    joinQueue: 'Failed to join the queue',
+    loadLobby: 'Failed to load open games',
+    checkAvailability: 'Failed to check availability',
+  },
+  home: {
+    welcome: 'Welcome, {name}!',
+    viewProfile: 'View profile',
+    leaderboard: 'Leaderboard',
+    logout: 'Logout',
+    title: '🎮 TicTacToe Online',
+    subtitle: 'Play TicTacToe with friends in real-time!',
+    createGame: 'Create Game',
+    joinGame: 'Join Game',
+    findMatch: 'Find Match',
+    watchGame: 'Watch Game',
+    creating: 'Creating...',
+    joining: 'Joining...',
+    gameId: 'Game ID:',
+    gameIdPlaceholder: 'Enter game ID to join',
+    playVsComputer: '🤖 Play vs Computer',
+    passAndPlay: '👥 Pass & Play',
+    loginToCreate: 'You must be logged in to create a game',
+    loginToJoin: 'You must be logged in to join a game',
+    enterGameId: 'Please enter a game ID',
+    howToPlay: 'How to Play:',
+    createStep: 'Click "Create Game" to start a new game',
+    createHint: 'Share the Game ID with your opponent',
+    matchStep: 'Click "Find Match" to be paired with a player of similar rating',
+    matchHint: 'The game opens by itself once an opponent is found',
+    joinStep: 'Pick an open game from the list, or enter the Game ID shared by the first player',
+    joinHint: 'Click "Join Game" to join',
+    connectStep: 'Wait for both players to connect via WebSocket',
+    playStep: 'Start playing! X goes first',
+  },
+  settings: {
+    classicPreset: 'Classic 3×3',
+    gomokuPreset: 'Gomoku 15×15',
+    boardSize: 'Board size',
+    winLength: 'In a row to win',
+    timeControl: 'Time control',
+    untimed: 'Untimed',
+    perMove: '{seconds} s per move',
+    minutes: '{minutes} min',
+    seconds: '{seconds} s',
+    increment: '{bank} + {seconds} s',
+  },
+  lobby: {
+    title: 'Open Games',
+    waiting: { other: '{count} waiting' },
+    variant: 'Variant',
+    allVariants: 'All variants',
+    nearMyRating: 'Near my rating',
+    empty: 'No open games right now',
+    openYourGame: 'Open your game',
+    join: 'Join game',
+    you: '(you)',
+    justNow: 'just now',
+    minutesAgo: { other: '{count} min ago' },
+    hoursAgo: { other: '{count} h ago' },
+    daysAgo: { other: '{count} d ago' },
+  },
+  matchmaking: {
+    yourRating: 'Your rating: {rating}',
+    findMatch: 'Find Match',
+    joining: 'Joining the queue...',
+    searching: 'Searching for an opponent {time}',
+    ratings: 'Ratings {min}–{max} (±{window})',
+    playersWaiting: { other: '· {count} waiting' },
+    matchFound: 'Match found against {name} ({rating}). You play {symbol}.',
+  },
+  game: {
+    gameId: 'Game ID: {id}',
+    loading: 'Loading game...',
+    initializeFailed: 'Failed to initialize game',
+    retryFailed: 'Failed to retry connection',
+    reloadFailed: 'Failed to reload game',
+    actionFailed: 'Action failed',
+    rematchFailed: 'Rematch failed',
+    connection: {
+      idle: '○ Disconnected',
+      connecting: '○ Connecting...',
+      open: '● Connected',
+      reconnecting: '○ Reconnecting...',
+      failed: '○ Connection lost',
+    },
+    roomErrors: {
+      room_not_found: 'This game room does not exist anymore.',
+      room_full: 'This game already has two players.',
+      not_your_game: 'You are not a player in this game.',
+      auth_expired: 'Your session has expired. Please log in again.',
+    },
+    playersInRoom: { one: '{count} player in room', other: '{count} players in room' },
+    watching: { other: '👁 {count} watching' },
+    unsentMove:
+      'Your last move has not reached the server yet. It will be sent once you are back online.',
+    retry: 'Retry Connection',
+    retrying: 'Retrying...',
+    reload: 'Reload Game',
+    reloading: 'Reloading...',
+    waitingForPlayers: 'Waiting for players...',
+    invite: {
+      prompt: 'Invite a friend with this link, or let them scan the code from their phone.',
+      link: 'Invite link',
+      copy: 'Copy invite link',
+      copyFailed: 'Failed to copy invite link',
+      qrLabel: 'QR code for the invite link',
+    },
+    spectating: 'Spectating',
+    youAre: 'You are: {symbol}',
+    series: 'Best of {bestOf} · Game {game}:',
+    seriesDraws: { other: '({count} drawn)' },
+    drawOffered: 'Your opponent offers a draw.',
+    acceptDraw: 'Accept Draw',
+    offerDraw: 'Offer Draw',
+    drawPending: 'Draw Offered',
+    drawDeclined: 'Draw offer declined.',
+    resign: 'Resign',
+    confirmResign: 'Resign this game?',
+    seriesOver: 'Series over',
+    seriesOverSentence: 'Series over.',
+    rematchOffer: 'Opponent wants a rematch',
+    rematchOfferSeries: 'Opponent wants a rematch (best of {bestOf})',
+    rematchPending: 'Rematch offered, waiting for your opponent...',
+    rematchDeclined: 'Your opponent declined the rematch.',
+    seriesLength: 'Series length',
+    singleGame: 'Single game',
+    bestOf: 'Best of {count}',
+    nextGame: 'Next Game',
+    rematch: 'Rematch',
+    newGame: 'New Game',
+    watchReplay: 'Watch Replay',
+  },
+  board: {
+    wins: 'Player {symbol} Wins!',
+    winsOnTime: 'Player {symbol} Wins on Time!',
+    winsByResignation: 'Player {symbol} Wins by Resignation!',
+    draw: "It's a Draw!",
+    drawAgreed: 'Draw Agreed',
+    toMove: '{symbol} to move',
+    waiting: 'Waiting for players...',
+    playerTurn: "Player {symbol}'s turn",
+    computerThinking: 'Computer is thinking...',
+    yourTurn: 'Your turn!',
+    opponentTurn: "Opponent's turn",
+    finished: 'Game finished',
+    rules: '{size}×{size} board, {length} in a row wins',
+    zoomOut: 'Zoom out',
+    zoomIn: 'Zoom in',
+    spectating: 'You are {spectating}',
+    spectatingWord: 'spectating',
+    youAre: 'You are: {symbol}',
+    notAssigned: 'Not assigned',
+    currentTurn: 'Current turn: {symbol}',
+    clock: '{symbol} clock',
+  },
+  moves: {
+    title: 'Moves',
+    empty: 'No moves yet',
+  },
+  viewer: {
+    first: 'First move',
+    previous: 'Previous move',
+    next: 'Next move',
+    last: 'Last move',
+    play: '▶ Play',
+    pause: '⏸ Pause',
+    position: 'Move {ply} / {last}',
+  },
+  notation: {
+    copy: 'Copy Notation',
+    copyFailed: 'Failed to copy to clipboard',
+    download: 'Download {extension}',
+    import: 'Import a game',
+    open: 'Open',
+    upload: 'Upload {extension}',
+    readFailed: 'Failed to read game',
+    versus: '{x} (X) vs {o} (O)',
+    errors: {
+      at: 'Line {line}, column {column}: {message}',
+      headersFirst: 'Headers must come before the moves',
+      headerExpected: 'Expected a header like [Name "value"]',
+      unknownHeader: 'Unknown header "{name}"',
+      duplicateHeader: 'Duplicate header "{name}"',
+      unknownVariant: 'Unknown variant "{variant}", expected classic or ultimate',
+      numberExpected: 'Expected a number, got "{text}"',
+      ultimateSize: 'Ultimate games are always played on 3×3 boards',
+      unknownResult: 'Unknown result "{result}", expected X, O, DRAW or *',
+      ultimateMoveExpected: 'Expected an ultimate move like b2:a1, got "{text}"',
+      squareExpected: 'Expected a square like b2, got "{text}"',
+      offUltimateBoard: '"{move}" is off the board',
+      offBoard: '{square} is off the {size}×{size} board',
+      moveNumber: 'Expected move number {number}.',
+      moveNumberBeforeX: 'Expected move number {number}. before an X move',
+      illegalMove: 'Illegal move {symbol} {move}: {reason}',
+      gameOver: 'the game is already over',
+      wrongSubBoard: 'the move must be played in sub-board {board}',
+      subBoardDecided: 'sub-board {board} is already decided',
+      squareTaken: '{square} is already taken',
+      resultMismatch: 'Result "{result}" does not match the moves, which end in {actual}',
+      unknownTermination:
+        'Unknown termination "{termination}", expected timeout, resignation or agreement',
+      terminationAfterEnd: 'The moves already end the game, so it cannot end by {termination}',
+      terminationDraw: 'A game ended by {termination} needs the Result DRAW',
+      terminationWinner: 'A game ended by {termination} needs the Result X or O',
+    },
+  },
+  chat: {
+    toggle: '💬 Chat',
+    filterProfanity: 'Filter profanity',
+    muteOpponent: 'Mute opponent',
+    empty: 'No messages yet',
+    sendEmote: 'Send {emote} emote',
+    placeholder: 'Say something...',
+    message: 'Chat message',
+    send: 'Send',
+    sendFailed: 'Failed to send message',
+    emoteFailed: 'Failed to send emote',
+  },
+  rating: {
+    result: 'Rating: {change}',
+    atStake: 'At stake:',
+    win: 'win {change}',
+    draw: 'draw {change}',
+    loss: 'loss {change}',
+    provisional: '(provisional)',
+    provisionalHint: 'Ratings move faster over your first games',
+  },
+  scoreboard: {
+    reset: 'Reset score',
+  },
+  local: {
+    title: 'Pass & Play',
+    nextRound: 'Next Round',
+    restartRound: 'Restart Round',
+  },
+  computer: {
+    title: 'vs Computer',
+    difficulty: 'Difficulty:',
+    playAs: 'Play as:',
+    random: 'Easy',
+    heuristic: 'Medium',
+    perfect: 'Unbeatable',
+    playAgain: 'Play Again',
+    restart: 'Restart',
+  },
+  join: {
+    invite: 'Invite: {id}',
+    signInToJoin: 'You must be signed in to join a game',
+    gameOver: 'This game is already over.',
+    gameFull: 'This game already has two players.',
+    watchInstead: 'Watch instead',
+    joining: 'Joining game...',
+  },
+  replay: {
+    backToGame: '← Back to Game',
+    title: 'Replay: {id}',
+    loading: 'Loading replay...',
+    loadFailed: 'Failed to load replay',
+  },
+  profile: {
+    loading: 'Loading profile...',
+    loadFailed: 'Failed to load profile',
+    historyFailed: 'Failed to load game history',
+    avatar: "{name}'s avatar",
+    memberSince: 'Member since {date}',
+    stats: 'Stats',
+    wins: 'Wins',
+    losses: 'Losses',
+    winRate: 'Win rate',
+    asX: 'As X',
+    asO: 'As O',
+    total: 'Total',
+    ofGames: { other: 'of {count}' },
+    currentStreak: 'Current streak: {streak}',
+    rating: 'Rating',
+    history: 'Game History',
+    noGames: 'No finished games yet',
+    won: 'Won',
+    lost: 'Lost',
+    draw: 'Draw',
+    versus: 'as {symbol} vs {name}',
+    unknownOpponent: 'unknown',
+    streak: {
+      none: 'No games yet',
+      win: { one: '{count} win', other: '{count} wins' },
+      loss: { one: '{count} loss', other: '{count} losses' },
+      draw: { one: '{count} draw', other: '{count} draws' },
+    },
+    chartEmpty: 'Not enough rated games for a chart yet',
+    chartLabel: 'Rating over time, from {from} to {to}',
+  },
+  leaderboard: {
+    title: '🏆 Leaderboard',
+    yourPosition: 'Your position',
+    search: 'Search players...',
+    searchLabel: 'Search players',
+    player: 'Player',
+    elo: 'ELO',
+    games: 'Games',
+    empty: 'No players found',
+    provisional: 'Provisional rating',
+    loadFailed: 'Failed to load leaderboard',
+  },
+} satisfies MessageTree
+
+export type Messages = MessageShape<typeof en>
@@ -0,0 +1,437 @@
+import type { Messages } from './en'
+
+export const fr: Messages = {
+  common: {
+    backToHome: '← Retour à l’accueil',
+    back: '← Retour',
+    loading: 'Chargement...',
+    previous: 'Précédent',
+    next: 'Suivant',
+    pageOf: 'Page {page} sur {count}',
+    accept: 'Accepter',
+    decline: 'Refuser',
+    close: 'Fermer',
+    cancel: 'Annuler',
+    copied: 'Copié !',
+    you: 'Vous',
+    opponent: 'Adversaire',
+    computer: 'Ordinateur',
+    draws: 'Nuls',
+    elo: 'ELO : {rating}',
+    passAndPlay: 'Jeu à deux',
+    playVsComputer: 'Jouer contre l’ordinateur',
+    classic: 'Classique',
+    ultimate: 'Ultimate',
+  },
+  language: {
+    label: 'Langue',
+  },
+  session: {
+    endsIn: 'Votre session se termine dans {time}.',
+    staySignedIn: 'Rester connecté',
+    logOut: 'Se déconnecter',
+  },
+  auth: {
+    title: '🎮 Morpion',
+    username: 'Nom d’utilisateur',
+    email: 'E-mail',
+    password: 'Mot de passe',
+    confirmPassword: 'Confirmer le mot de passe',
+    login: {
+      heading: 'Bon retour',
+      subtitle: 'Connectez-vous pour continuer à jouer',
+      usernamePlaceholder: 'Saisissez votre nom d’utilisateur',
+      passwordPlaceholder: 'Saisissez votre mot de passe',
+      submit: 'Se connecter',
+      submitting: 'Connexion...',
+      noAccount: 'Pas encore de compte ?',
+      signUp: 'Inscrivez-vous',
+      offline: 'Pas de connexion ?',
+      or: 'ou',
+    },
+    signup: {
+      heading: 'Créer un compte',
+      subtitle: 'Rejoignez la partie et commencez à jouer',
+      usernamePlaceholder: 'Choisissez un nom d’utilisateur',
+      emailPlaceholder: 'Saisissez votre e-mail',
+      passwordPlaceholder: 'Créez un mot de passe',
+      confirmPlaceholder: 'Confirmez votre mot de passe',
+      passwordHint:
+        'Le mot de passe doit contenir au moins 8 caractères, dont une majuscule, une minuscule et un chiffre',
+      submit: 'S’inscrire',
+      submitting: 'Création du compte...',
+      haveAccount: 'Vous avez déjà un compte ?',
+      signIn: 'Connectez-vous',
+    },
+    showPassword: 'Afficher le mot de passe',
+    hidePassword: 'Masquer le mot de passe',
+  },
+  validation: {
+    invalid: 'Cette valeur n’est pas valide',
+    required: 'Le champ {field} est obligatoire',
+    minLength: 'Le champ {field} doit contenir au moins {min} caractères',
+    maxLength: 'Le champ {field} doit contenir au plus {max} caractères',
+    emailRequired: 'L’e-mail est obligatoire',
+    emailInvalid: 'Veuillez saisir une adresse e-mail valide',
+    passwordRequired: 'Le mot de passe est obligatoire',
+    passwordTooShort: 'Le mot de passe doit contenir au moins 8 caractères',
+    passwordUppercase: 'Le mot de passe doit contenir au moins une majuscule',
+    passwordLowercase: 'Le mot de passe doit contenir au moins une minuscule',
+    passwordNumber: 'Le mot de passe doit contenir au moins un chiffre',
+    passwordsMismatch: 'Les mots de passe ne correspondent pas',
+    usernameRequired: 'Le nom d’utilisateur est obligatoire',
+    usernameTooShort: 'Le nom d’utilisateur doit contenir au moins 3 caractères',
+    usernameTooLong: 'Le nom d’utilisateur doit contenir au plus 20 caractères',
+    usernameCharacters:
+      'Le nom d’utilisateur ne peut contenir que des lettres, des chiffres et des tirets bas',
+    usernameTaken: 'Ce nom d’utilisateur est déjà pris',
+    emailTaken: 'Un compte utilise déjà cet e-mail',
+    checking: 'Vérification de la disponibilité...',
+    chatEmpty: 'Le message est vide',
+    chatTooLong: 'Les messages sont limités à {max} caractères',
+    boardSize: 'La taille du plateau doit être comprise entre {min} et {max}',
+    winLength: 'L’alignement gagnant doit être compris entre {min} et {max}',
+    winLengthOverBoard: 'L’alignement gagnant ne peut pas dépasser la taille du plateau',
+  },
+  errors: {
+    requestFailed: 'La requête a échoué',
+    timedOut: 'La requête a expiré',
+    unreachable: '{action} : serveur injoignable',
+    signup: 'Échec de l’inscription',
+    login: 'Échec de la connexion',
+    invalidCredentials: 'Identifiants invalides',
+    refreshSession: 'Impossible de prolonger la session',
+    getUser: 'Impossible de récupérer l’utilisateur',
+    noToken: 'Aucun jeton disponible',
+    healthCheck: 'Échec de la vérification de l’API',
+    createGame: 'Impossible de créer la partie',
+    joinGame: 'Impossible de rejoindre la partie',
+    listGames: 'Impossible de lister les parties',
+    getGame: 'Impossible de récupérer la partie',
+    getBoard: 'Impossible de récupérer le plateau',
+    getMoves: 'Impossible de récupérer l’historique des coups',
+    makeMove: 'Impossible de jouer le coup',
+    resign: 'Impossible d’abandonner',
+    offerDraw: 'Impossible de proposer la nulle',
+    acceptDraw: 'Impossible d’accepter la nulle',
+    declineDraw: 'Impossible de refuser la nulle',
+    claimTimeout: 'Impossible de réclamer la victoire au temps',
+    getProfile: 'Impossible de récupérer le profil',
+    getStats: 'Impossible de récupérer les statistiques du joueur',
+    getRatingHistory: 'Impossible de récupérer l’historique du classement',
+    getGameHistory: 'Impossible de récupérer l’historique des parties',
+    getLeaderboard: 'Impossible de récupérer le classement',
+    getLeaderboardEntry: 'Impossible de récupérer la position au classement',
+    notConnected: 'Vous n’êtes connecté à aucune partie',
+    chatTooFast: 'Vous envoyez des messages trop rapidement',
+    notYourTurn: 'Ce n’est pas votre tour',
+    cellTaken: 'Cette case n’est pas disponible',
+    noActiveGame: 'Aucune partie ou aucun joueur actif',
+    gameNotInProgress: 'La partie n’est pas en cours',
+    joinQueue: 'Impossible de rejoindre la file d’attente',
+    loadLobby: 'Impossible de charger les parties ouvertes',
+    checkAvailability: 'Impossible de vérifier la disponibilité',
+  },
+  home: {
+    welcome: 'Bienvenue, {name} !',
+    viewProfile: 'Voir le profil',
+    leaderboard: 'Classement',
+    logout: 'Déconnexion',
+    title: '🎮 Morpion en ligne',
+    subtitle: 'Jouez au morpion avec vos amis en temps réel !',
+    createGame: 'Créer une partie',
+    joinGame: 'Rejoindre une partie',
+    findMatch: 'Trouver un adversaire',
+    watchGame: 'Regarder la partie',
+    creating: 'Création...',
+    joining: 'Connexion à la partie...',
+    gameId: 'ID de la partie :',
+    gameIdPlaceholder: 'Saisissez l’ID de la partie à rejoindre',
+    playVsComputer: '🤖 Jouer contre l’ordinateur',
+    passAndPlay: '👥 Jeu à deux',
+    loginToCreate: 'Vous devez être connecté pour créer une partie',
+    loginToJoin: 'Vous devez être connecté pour rejoindre une partie',
+    enterGameId: 'Veuillez saisir un ID de partie',
+    howToPlay: 'Comment jouer :',
+    createStep: 'Cliquez sur « Créer une partie » pour lancer une nouvelle partie',
+    createHint: 'Partagez l’ID de la partie avec votre adversaire',
+    matchStep: 'Cliquez sur « Trouver un adversaire » pour affronter un joueur de niveau similaire',
+    matchHint: 'La partie s’ouvre d’elle-même dès qu’un adversaire est trouvé',
+    joinStep:
+      'Choisissez une partie ouverte dans la liste, ou saisissez l’ID partagé par le premier joueur',
+    joinHint: 'Cliquez sur « Rejoindre une partie » pour la rejoindre',
+    connectStep: 'Attendez que les deux joueurs soient connectés via WebSocket',
+    playStep: 'À vous de jouer ! X commence',
+  },
+  settings: {
+    classicPreset: 'Classique 3×3',
+    gomokuPreset: 'Gomoku 15×15',
+    boardSize: 'Taille du plateau',
+    winLength: 'Alignement gagnant',
+    timeControl: 'Cadence',
+    untimed: 'Sans limite',
+    perMove: '{seconds} s par coup',
+    minutes: '{minutes} min',
+    seconds: '{seconds} s',
+    increment: '{bank} + {seconds} s',
+  },
+  lobby: {
+    title: 'Parties ouvertes',
+    waiting: { one: '{count} en attente', other: '{count} en attente' },
+    variant: 'Variante',
+    allVariants: 'Toutes les variantes',
+    nearMyRating: 'Proche de mon classement',
+    empty: 'Aucune partie ouverte pour le moment',
+    openYourGame: 'Ouvrir votre partie',
+    join: 'Rejoindre la partie',
+    you: '(vous)',
+    justNow: 'à l’instant',
+    minutesAgo: { other: 'il y a {count} min' },
+    hoursAgo: { other: 'il y a {count} h' },
+    daysAgo: { one: 'il y a {count} jour', other: 'il y a {count} jours' },
+  },
+  matchmaking: {
+    yourRating: 'Votre classement : {rating}',
+    findMatch: 'Trouver un adversaire',
+    joining: 'Entrée dans la file d’attente...',
+    searching: 'Recherche d’un adversaire {time}',
+    ratings: 'Classements {min}–{max} (±{window})',
+    playersWaiting: { other: '· {count} en attente' },
+    matchFound: 'Adversaire trouvé : {name} ({rating}). Vous jouez les {symbol}.',
+  },
+  game: {
+    gameId: 'ID de la partie : {id}',
+    loading: 'Chargement de la partie...',
+    initializeFailed: 'Impossible de lancer la partie',
+    retryFailed: 'Impossible de rétablir la connexion',
+    reloadFailed: 'Impossible de recharger la partie',
+    actionFailed: 'L’action a échoué',
+    rematchFailed: 'La revanche a échoué',
+    connection: {
+      idle: '○ Déconnecté',
+      connecting: '○ Connexion...',
+      open: '● Connecté',
+      reconnecting: '○ Reconnexion...',
+      failed: '○ Connexion perdue',
+    },
+    roomErrors: {
+      room_not_found: 'Ce salon de jeu n’existe plus.',
+      room_full: 'Cette partie a déjà deux joueurs.',
+      not_your_game: 'Vous ne jouez pas dans cette partie.',
+      auth_expired: 'Votre session a expiré. Veuillez vous reconnecter.',
+    },
+    playersInRoom: { one: '{count} joueur dans le salon', other: '{count} joueurs dans le salon' },
+    watching: { one: '👁 {count} spectateur', other: '👁 {count} spectateurs' },
+    unsentMove:
+      'Votre dernier coup n’a pas encore atteint le serveur. Il sera envoyé dès votre retour en ligne.',
+    retry: 'Réessayer la connexion',
+    retrying: 'Nouvelle tentative...',
+    reload: 'Recharger la partie',
+    reloading: 'Rechargement...',
+    waitingForPlayers: 'En attente des joueurs...',
+    invite: {
+      prompt: 'Invitez un ami avec ce lien, ou laissez-le scanner le code depuis son téléphone.',
+      link: 'Lien d’invitation',
+      copy: 'Copier le lien d’invitation',
+      copyFailed: 'Impossible de copier le lien d’invitation',
+      qrLabel: 'QR code du lien d’invitation',
+    },
+    spectating: 'Spectateur',
+    youAre: 'Vous jouez : {symbol}',
+    series: 'Au meilleur des {bestOf} · Partie {game} :',
+    seriesDraws: { one: '({count} nulle)', other: '({count} nulles)' },
+    drawOffered: 'Votre adversaire propose la nulle.',
+    acceptDraw: 'Accepter la nulle',
+    offerDraw: 'Proposer la nulle',
+    drawPending: 'Nulle proposée',
+    drawDeclined: 'Proposition de nulle refusée.',
+    resign: 'Abandonner',
+    confirmResign: 'Abandonner cette partie ?',
+    seriesOver: 'Série terminée',
+    seriesOverSentence: 'Série terminée.',
+    rematchOffer: 'Votre adversaire veut une revanche',
+    rematchOfferSeries: 'Votre adversaire veut une revanche (au meilleur des {bestOf})',
+    rematchPending: 'Revanche proposée, en attente de votre adversaire...',
+    rematchDeclined: 'Votre adversaire a refusé la revanche.',
+    seriesLength: 'Longueur de la série',
+    singleGame: 'Partie unique',
+    bestOf: 'Au meilleur des {count}',
+    nextGame: 'Partie suivante',
+    rematch: 'Revanche',
+    newGame: 'Nouvelle partie',
+    watchReplay: 'Revoir la partie',
+  },
+  board: {
+    wins: 'Le joueur {symbol} gagne !',
+    winsOnTime: 'Le joueur {symbol} gagne au temps !',
+    winsByResignation: 'Le joueur {symbol} gagne par abandon !',
+    draw: 'Match nul !',
+    drawAgreed: 'Nulle acceptée',
+    toMove: 'Au tour de {symbol}',
+    waiting: 'En attente des joueurs...',
+    playerTurn: 'Au tour du joueur {symbol}',
+    computerThinking: 'L’ordinateur réfléchit...',
+    yourTurn: 'À vous de jouer !',
+    opponentTurn: 'Au tour de l’adversaire',
+    finished: 'Partie terminée',
+    rules: 'Plateau {size}×{size}, {length} alignés pour gagner',
+    zoomOut: 'Dézoomer',
+    zoomIn: 'Zoomer',
+    spectating: 'Vous êtes {spectating}',
+    spectatingWord: 'spectateur',
+    youAre: 'Vous jouez : {symbol}',
+    notAssigned: 'Non attribué',
+    currentTurn: 'Tour actuel : {symbol}',
+    clock: 'Pendule de {symbol}',
+  },
+  moves: {
+    title: 'Coups',
+    empty: 'Aucun coup pour l’instant',
+  },
+  viewer: {
+    first: 'Premier coup',
+    previous: 'Coup précédent',
+    next: 'Coup suivant',
+    last: 'Dernier coup',
+    play: '▶ Lecture',
+    pause: '⏸ Pause',
+    position: 'Coup {ply} / {last}',
+  },
+  notation: {
+    copy: 'Copier la notation',
+    copyFailed: 'Impossible de copier dans le presse-papiers',
+    download: 'Télécharger le {extension}',
+    import: 'Importer une partie',
+    open: 'Ouvrir',
+    upload: 'Importer un {extension}',
+    readFailed: 'Impossible de lire la partie',
+    versus: '{x} (X) contre {o} (O)',
+    errors: {
+      at: 'Ligne {line}, colonne {column} : {message}',
+      headersFirst: 'Les en-têtes doivent précéder les coups',
+      headerExpected: 'En-tête attendu, par exemple [Nom "valeur"]',
+      unknownHeader: 'En-tête inconnu « {name} »',
+      duplicateHeader: 'En-tête en double « {name} »',
+      unknownVariant: 'Variante inconnue « {variant} », classic ou ultimate attendu',
+      numberExpected: 'Nombre attendu, « {text} » trouvé',
+      ultimateSize: 'Les parties ultimate se jouent toujours sur des grilles 3×3',
+      unknownResult: 'Résultat inconnu « {result} », X, O, DRAW ou * attendu',
+      ultimateMoveExpected: 'Coup ultimate attendu, par exemple b2:a1, « {text} » trouvé',
+      squareExpected: 'Case attendue, par exemple b2, « {text} » trouvé',
+      offUltimateBoard: '« {move} » est hors de la grille',
+      offBoard: '{square} est hors de la grille {size}×{size}',
+      moveNumber: 'Numéro de coup {number}. attendu',
+      moveNumberBeforeX: 'Numéro de coup {number}. attendu avant un coup de X',
+      illegalMove: 'Coup illégal {symbol} {move} : {reason}',
+      gameOver: 'la partie est déjà terminée',
+      wrongSubBoard: 'le coup doit être joué dans la sous-grille {board}',
+      subBoardDecided: 'la sous-grille {board} est déjà jouée',
+      squareTaken: '{square} est déjà prise',
+      resultMismatch:
+        'Le résultat « {result} » ne correspond pas aux coups, qui se terminent par {actual}',
+      unknownTermination:
+        'Fin de partie inconnue « {termination} », timeout, resignation ou agreement attendu',
+      terminationAfterEnd:
+        'Les coups terminent déjà la partie, elle ne peut pas finir par {termination}',
+      terminationDraw: 'Une partie finie par {termination} demande le résultat DRAW',
+      terminationWinner: 'Une partie finie par {termination} demande le résultat X ou O',
+    },
+  },
+  chat: {
+    toggle: '💬 Discussion',
+    filterProfanity: 'Filtrer les grossièretés',
+    muteOpponent: 'Masquer l’adversaire',
+    empty: 'Aucun message pour l’instant',
+    sendEmote: 'Envoyer l’émoticône {emote}',
+    placeholder: 'Dites quelque chose...',
+    message: 'Message de discussion',
+    send: 'Envoyer',
+    sendFailed: 'Impossible d’envoyer le message',
+    emoteFailed: 'Impossible d’envoyer l’émoticône',
+  },
+  rating: {
+    result: 'Classement : {change}',
+    atStake: 'En jeu :',
+    win: 'victoire {change}',
+    draw: 'nulle {change}',
+    loss: 'défaite {change}',
+    provisional: '(provisoire)',
+    provisionalHint: 'Le classement évolue plus vite pendant vos premières parties',
+  },
+  scoreboard: {
+    reset: 'Remettre le score à zéro',
+  },
+  local: {
+    title: 'Jeu à deux',
+    nextRound: 'Manche suivante',
+    restartRound: 'Recommencer la manche',
+  },
+  computer: {
+    title: 'Contre l’ordinateur',
+    difficulty: 'Difficulté :',
+    playAs: 'Jouer les :',
+    random: 'Facile',
+    heuristic: 'Moyen',
+    perfect: 'Imbattable',
+    playAgain: 'Rejouer',
+    restart: 'Recommencer',
+  },
+  join: {
+    invite: 'Invitation : {id}',
+    signInToJoin: 'Vous devez être connecté pour rejoindre une partie',
+    gameOver: 'Cette partie est déjà terminée.',
+    gameFull: 'Cette partie a déjà deux joueurs.',
+    watchInstead: 'Regarder plutôt',
+    joining: 'Connexion à la partie...',
+  },
+  replay: {
+    backToGame: '← Retour à la partie',
+    title: 'Rediffusion : {id}',
+    loading: 'Chargement de la rediffusion...',
+    loadFailed: 'Impossible de charger la rediffusion',
+  },
+  profile: {
+    loading: 'Chargement du profil...',
+    loadFailed: 'Impossible de charger le profil',
+    historyFailed: 'Impossible de charger l’historique des parties',
+    avatar: 'Avatar de {name}',
+    memberSince: 'Membre depuis le {date}',
+    stats: 'Statistiques',
+    wins: 'Victoires',
+    losses: 'Défaites',
+    winRate: 'Taux de victoire',
+    asX: 'Avec X',
+    asO: 'Avec O',
+    total: 'Total',
+    ofGames: { one: 'sur {count} partie', other: 'sur {count} parties' },
+    currentStreak: 'Série en cours : {streak}',
+    rating: 'Classement',
+    history: 'Historique des parties',
+    noGames: 'Aucune partie terminée pour l’instant',
+    won: 'Gagnée',
+    lost: 'Perdue',
+    draw: 'Nulle',
+    versus: 'avec {symbol} contre {name}',
+    unknownOpponent: 'inconnu',
+    streak: {
+      none: 'Aucune partie pour l’instant',
+      win: { one: '{count} victoire', other: '{count} victoires' },
+      loss: { one: '{count} défaite', other: '{count} défaites' },
+      draw: { one: '{count} nulle', other: '{count} nulles' },
+    },
+    chartEmpty: 'Pas encore assez de parties classées pour un graphique',
+    chartLabel: 'Évolution du classement, de {from} à {to}',
+  },
+  leaderboard: {
+    title: '🏆 Classement',
+    yourPosition: 'Votre position',
+    search: 'Rechercher des joueurs...',
+    searchLabel: 'Rechercher des joueurs',
+    player: 'Joueur',
+    elo: 'ELO',
+    games: 'Parties',
+    empty: 'Aucun joueur trouvé',
+    provisional: 'Classement provisoire',
+    loadFailed: 'Impossible de charger le classement',
+  },
+}
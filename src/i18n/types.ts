@@ -0,0 +1,39 @@
+// A message that depends on a count, one form per plural category of the language
+// (Intl.PluralRules). English only needs `one` and `other`; Arabic uses all six.
+export interface Plural {
+  zero?: string
+  one?: string
+  two?: string
+  few?: string
+  many?: string
+  other: string
+}
+
+export interface MessageTree {
+  [key: string]: string | Plural | MessageTree
+}
+
+// The shape every translation must match, taken from the English messages with the text left open
+export type MessageShape<T> = {
+  [K in keyof T]: T[K] extends string ? string : T[K] extends Plural ? Plural : MessageShape<T[K]>
+}
+
+// Dotted paths to the plain messages of a tree, e.g. 'game.resign'
+export type MessageKey<T> = {
+  [K in keyof T & string]: T[K] extends string
+    ? K
+    : T[K] extends Plural
+      ? never
+      : `${K}.${MessageKey<T[K]>}`
+}[keyof T & string]
+
+// Dotted paths to the counted messages of a tree, e.g. 'game.playersInRoom'
+export type PluralKey<T> = {
+  [K in keyof T & string]: T[K] extends string
+    ? never
+    : T[K] extends Plural
+      ? K
+      : `${K}.${PluralKey<T[K]>}`
+}[keyof T & string]
+
+export type MessageParams = Record<string, string | number>
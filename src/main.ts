@@ -6,6 +6,9 @@ import { createPinia } from 'pinia'
 import App from './App.vue'
 import router from './router'
 import { useAuthStore } from './stores/auth'
+import { onUnauthorized } from './services/http'
+import { registerServiceWorker } from './services/serviceWorker'
+import { applyLocale } from './i18n'
 
 const app = createApp(App)
 const pinia = createPinia()
@@ -15,6 +18,12 @@ app.use(router)
 
 // Initialize auth store on app start
 const authStore = useAuthStore()
+// Any authenticated request rejected with 401 means the session is gone
+onUnauthorized(() => authStore.logout())
 authStore.initialize()
 
+// Sets <html lang dir> for the detected language before anything is drawn
+applyLocale()
 app.mount('#app')
+
+registerServiceWorker()
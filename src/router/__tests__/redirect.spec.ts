@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest'
+import { redirectTarget } from '../redirect'
+
+describe('redirectTarget', () => {
+  it('follows a path inside the app', () => {
+    expect(redirectTarget({ redirect: '/join/abc' })).toBe('/join/abc')
+    expect(redirectTarget({ redirect: '/game/abc/watch?x=1' })).toBe('/game/abc/watch?x=1')
+  })
+
+  it('falls back to home without a redirect', () => {
+    expect(redirectTarget({})).toBe('/')
+    expect(redirectTarget({ redirect: null })).toBe('/')
+    expect(redirectTarget({ redirect: ['/join/abc'] })).toBe('/')
+  })
+
+  it('ignores redirects that leave the app', () => {
+    expect(redirectTarget({ redirect: 'https://evil.example' })).toBe('/')
+    expect(redirectTarget({ redirect: '//evil.example/path' })).toBe('/')
+    expect(redirectTarget({ redirect: 'join/abc' })).toBe('/')
+  })
+})
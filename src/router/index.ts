@@ -1,6 +1,7 @@
 import { createRouter, createWebHistory } from 'vue-router'
 import { useAuthStore } from '../stores/auth'
 import HomeView from '../views/HomeView.vue'
+import { redirectTarget } from './redirect'
 
 const router = createRouter({
   history: createWebHistory(import.meta.env.BASE_URL),
@@ -29,16 +30,56 @@ const router = createRouter({
       component: () => import('../views/GameView.vue'),
       meta: { requiresAuth: true },
     },
+    {
+      // Invite link: joins the game, after signing in first if need be
+      path: '/join/:id',
+      name: 'join',
+      component: () => import('../views/JoinView.vue'),
+      meta: { requiresAuth: true },
+    },
+    {
+      path: '/game/:id/watch',
+      name: 'watch',
+      component: () => import('../views/GameView.vue'),
+      meta: { requiresAuth: true },
+    },
+    {
+      path: '/game/:id/replay',
+      name: 'replay',
+      component: () => import('../views/ReplayView.vue'),
+      meta: { requiresAuth: true },
+    },
+    {
+      path: '/profile/:id',
+      name: 'profile',
+      component: () => import('../views/ProfileView.vue'),
+      meta: { requiresAuth: true },
+    },
+    {
+      path: '/leaderboard',
+      name: 'leaderboard',
+      component: () => import('../views/LeaderboardView.vue'),
+      meta: { requiresAuth: true },
+    },
+    {
+      path: '/play/ai',
+      name: 'play-ai',
+      component: () => import('../views/ComputerGameView.vue'),
+    },
+    {
+      path: '/play/local',
+      name: 'play-local',
+      component: () => import('../views/LocalGameView.vue'),
+    },
   ],
 })
 
-router.beforeEach((to, from, next) => {
+router.beforeEach(async (to, from, next) => {
   const authStore = useAuthStore()
 
-  // Initialize auth store if not already done
-  if (!authStore.isAuthenticated && authStore.token === null) {
-    authStore.initialize()
-  }
+  // A stored session is restored before deciding, so reloading a page or opening an invite does
+  // not bounce a signed-in player to the login. After the first navigation this resolves at once.
+  await authStore.initialize()
 
   const requiresAuth = to.matched.some((record) => record.meta.requiresAuth)
   const requiresGuest = to.matched.some((record) => record.meta.requiresGuest)
@@ -46,7 +87,7 @@ router.beforeEach((to, from, next) => {
   if (requiresAuth && !authStore.isAuthenticated) {
     next({ name: 'login', query: { redirect: to.fullPath } })
   } else if (requiresGuest && authStore.isAuthenticated) {
-    next({ name: 'home' })
+    next(redirectTarget(to.query))
   } else {
     next()
   }
@@ -0,0 +1,11 @@
+import type { LocationQuery } from 'vue-router'
+
+// Where to go after signing in. Only paths inside the app are followed, so a crafted link
+// cannot send someone off to another site.
+export function redirectTarget(query: LocationQuery): string {
+  const redirect = query.redirect
+  if (typeof redirect !== 'string' || !redirect.startsWith('/') || redirect.startsWith('//')) {
+    return '/'
+  }
+  return redirect
+}
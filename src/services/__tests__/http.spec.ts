@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { ApiError, http, onUnauthorized } from '../http'
+import { tokenStorage } from '../token'
+import { object, string, unknown } from '../../utils/decoder'
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+const fetchMock = vi.fn<typeof fetch>()
+
+describe('http client', () => {
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+    localStorage.clear()
+    onUnauthorized(null)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  it('sends the stored token and parses the response', async () => {
+    tokenStorage.set('abc')
+    fetchMock.mockResolvedValue(jsonResponse(200, { id: 'g1' }))
+
+    await expect(http.get('/games/g1', unknown)).resolves.toEqual({ id: 'g1' })
+    const init = fetchMock.mock.calls[0]![1]!
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer abc' })
+  })
+
+  it('rejects a response that does not match its schema', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    fetchMock.mockResolvedValue(jsonResponse(200, { id: 7 }))
+
+    await expect(http.get('/games/g1', object({ id: string }))).rejects.toMatchObject({
+      name: 'DecodeError',
+      path: '$.id',
+      message: 'Expected a string at $.id, got 7',
+    })
+  })
+
+  it('raises an ApiError carrying status and detail', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(400, { detail: 'Cell already taken' }))
+
+    const error = await http.post('/games/g1/move', {}, unknown).catch((err: unknown) => err)
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({ status: 400, detail: 'Cell already taken' })
+    expect((error as ApiError).message).toBe('Cell already taken')
+  })
+
+  it('maps validation errors to fields', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse(422, {
+        detail: [
+          { loc: ['body', 'email'], msg: 'Email already registered' },
+          { loc: ['body', 'username'], msg: 'Username is too short' },
+        ],
+      }),
+    )
+
+    const error = (await http
+      .post('/auth/signup', {}, unknown)
+      .catch((err: unknown) => err)) as ApiError
+    expect(error.fieldErrors).toEqual({
+      email: 'Email already registered',
+      username: 'Username is too short',
+    })
+  })
+
+  it('falls back to the given message when the body has no detail', async () => {
+    fetchMock.mockResolvedValue(new Response('oops', { status: 500 }))
+
+    await expect(
+      http.post('/games', {}, unknown, { errorMessage: 'Failed to create game' }),
+    ).rejects.toMatchObject({ status: 500, detail: 'Failed to create game' })
+  })
+
+  it('reports a 401 on an authenticated request to the unauthorized handler', async () => {
+    const handler = vi.fn()
+    onUnauthorized(handler)
+    tokenStorage.set('expired')
+    fetchMock.mockResolvedValue(jsonResponse(401, { detail: 'Token expired' }))
+
+    await expect(http.get('/auth/me', unknown, { retries: 0 })).rejects.toMatchObject({
+      status: 401,
+    })
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('leaves a 401 from an unauthenticated request to the caller', async () => {
+    const handler = vi.fn()
+    onUnauthorized(handler)
+    fetchMock.mockResolvedValue(jsonResponse(401, { detail: 'Invalid credentials' }))
+
+    await expect(http.post('/auth/login', {}, unknown, { auth: false })).rejects.toMatchObject({
+      detail: 'Invalid credentials',
+    })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('retries GETs with backoff after a retryable failure', async () => {
+    vi.useFakeTimers()
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(jsonResponse(503, {}))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }))
+
+    const pending = http.get('/games/g1/board', unknown)
+    await vi.runAllTimersAsync()
+
+    await expect(pending).resolves.toEqual({ ok: true })
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('does not retry POSTs or client errors', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(503, {}))
+    await expect(http.post('/games', {}, unknown)).rejects.toMatchObject({ status: 503 })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    fetchMock.mockClear()
+    fetchMock.mockResolvedValue(jsonResponse(404, { detail: 'Game not found' }))
+    await expect(http.get('/games/nope', unknown)).rejects.toMatchObject({ status: 404 })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('times out with a status 0 error', async () => {
+    vi.useFakeTimers()
+    fetchMock.mockImplementation(
+      (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init!.signal!.addEventListener('abort', () =>
+            reject(new DOMException('Aborted', 'AbortError')),
+          )
+        }),
+    )
+
+    const pending = http.post('/games', {}, unknown, { timeout: 1000 })
+    const assertion = expect(pending).rejects.toMatchObject({
+      status: 0,
+      detail: 'Request timed out',
+    })
+    await vi.advanceTimersByTimeAsync(1000)
+    await assertion
+  })
+
+  it('passes through a caller abort without retrying', async () => {
+    const controller = new AbortController()
+    fetchMock.mockImplementation(
+      (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init!.signal!.addEventListener('abort', () =>
+            reject(new DOMException('Aborted', 'AbortError')),
+          )
+        }),
+    )
+
+    const pending = http.get('/games/g1', unknown, { signal: controller.signal })
+    controller.abort()
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+
+import { decode, DecodeError } from '../../utils/decoder'
+import { boardResponseSchema, gameSchema, serverMessageSchema } from '../schemas'
+
+const emptyBoard = () => Array.from({ length: 3 }, () => Array<null>(3).fill(null))
+
+const moveMade = {
+  type: 'move_made',
+  game_id: 'g1',
+  player_id: 'u1',
+  position: '1,1',
+  symbol: 'X',
+  winner: null,
+  game_status: 'ongoing',
+  variant: 'classic',
+  board: [
+    [null, null, null],
+    [null, 'X', null],
+    [null, null, null],
+  ],
+  seq: 4,
+}
+
+const decodeError = (run: () => unknown): DecodeError => {
+  try {
+    run()
+  } catch (error) {
+    if (error instanceof DecodeError) return error
+    throw error
+  }
+  throw new Error('Expected a DecodeError')
+}
+
+describe('schemas', () => {
+  it('parses a valid move_made message', () => {
+    expect(decode(serverMessageSchema, moveMade)).toEqual(moveMade)
+  })
+
+  it('parses a spectator snapshot with the game, history and players', () => {
+    const snapshot = {
+      type: 'spectator_snapshot',
+      room_id: 'g1',
+      game: {
+        id: 'g1',
+        player_x_id: 'u1',
+        player_o_id: 'u2',
+        status: 'ongoing',
+        variant: 'classic',
+        board_size: 3,
+        win_length: 3,
+        created_at: '2024-01-01T00:00:00Z',
+      },
+      variant: 'classic',
+      board: moveMade.board,
+      moves: [{ move_id: 'm1', player_id: 'u1', position: '1,1', symbol: 'X', created_at: null }],
+      winner: null,
+      players: 2,
+      spectators: 1,
+      seq: 4,
+    }
+    expect(decode(serverMessageSchema, snapshot)).toEqual(snapshot)
+  })
+
+  it('rejects an unknown message type', () => {
+    const error = decodeError(() => decode(serverMessageSchema, { type: 'tournament_update' }))
+    expect(error.path).toBe('$.type')
+    expect(error.received).toBe('"tournament_update"')
+  })
+
+  it('rejects a corrupted game status', () => {
+    const error = decodeError(() =>
+      decode(serverMessageSchema, { ...moveMade, game_status: 'in_progress' }),
+    )
+    expect(error.path).toBe('$.game_status')
+  })
+
+  it('rejects a board cell that is not a symbol', () => {
+    const board = emptyBoard()
+    board[2]![0] = 'x' as never
+    const error = decodeError(() =>
+      decode(boardResponseSchema, { variant: 'classic', board, winner: null }),
+    )
+    expect(error.path).toBe('$.board[2][0]')
+  })
+
+  it('rejects a board that is not square', () => {
+    const board = [...emptyBoard(), [null, null]]
+    const error = decodeError(() =>
+      decode(boardResponseSchema, { variant: 'classic', board, winner: null }),
+    )
+    expect(error.path).toBe('$.board')
+    expect(error.message).toContain('a square board')
+  })
+
+  it('checks ultimate boards are a 3×3 grid of 3×3 boards', () => {
+    const board = Array.from({ length: 3 }, () => Array.from({ length: 3 }, emptyBoard))
+    const state = { variant: 'ultimate', board, active_board: { row: 1, col: 2 }, winner: null }
+    expect(decode(boardResponseSchema, state)).toEqual(state)
+
+    board[0]![1] = [[null]]
+    expect(decodeError(() => decode(boardResponseSchema, state)).path).toBe('$.board[0][1]')
+  })
+
+  it('strips fields a game payload does not declare', () => {
+    const game = {
+      id: 'g1',
+      player_x_id: 'u1',
+      player_o_id: null,
+      status: 'waiting',
+      variant: 'classic',
+      board_size: 3,
+      win_length: 3,
+      created_at: '2024-01-01T00:00:00Z',
+      internal_flag: true,
+    }
+    const { internal_flag: _ignored, ...expected } = game
+    expect(decode(gameSchema, game)).toEqual(expected)
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+
+import { getTokenExpiry, tokenStorage } from '../token'
+
+const jwt = (payload: object) =>
+  `header.${btoa(JSON.stringify(payload)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_')}.signature`
+
+describe('getTokenExpiry', () => {
+  it('reads exp as epoch milliseconds', () => {
+    expect(getTokenExpiry(jwt({ sub: 'u1', exp: 1_700_000_000 }))).toBe(1_700_000_000_000)
+  })
+
+  it('returns null for tokens without a readable exp', () => {
+    expect(getTokenExpiry(jwt({ sub: 'u1' }))).toBeNull()
+    expect(getTokenExpiry('not-a-jwt')).toBeNull()
+    expect(getTokenExpiry('a.%%%.c')).toBeNull()
+  })
+})
+
+describe('tokenStorage.subscribe', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('reports token changes made by other tabs', () => {
+    const listener = vi.fn()
+    const unsubscribe = tokenStorage.subscribe(listener)
+
+    localStorage.setItem('auth_token', 'from-other-tab')
+    window.dispatchEvent(new StorageEvent('storage', { key: 'auth_token' }))
+    window.dispatchEvent(new StorageEvent('storage', { key: 'theme' }))
+    unsubscribe()
+    window.dispatchEvent(new StorageEvent('storage', { key: 'auth_token' }))
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith('from-other-tab')
+  })
+})
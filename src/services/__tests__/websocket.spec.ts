@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { onUnauthorized } from '../http'
+import { GameWebSocket, type ConnectionState } from '../websocket'
+
+class FakeWebSocket {
+  static readonly OPEN = 1
+  static instances: FakeWebSocket[] = []
+
+  readyState = 0
+  sent: unknown[] = []
+  onopen: (() => void) | null = null
+  onmessage: ((event: { data: string }) => void) | null = null
+  onerror: ((error: unknown) => void) | null = null
+  onclose: (() => void) | null = null
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this)
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data))
+  }
+
+  close() {
+    this.readyState = 3
+    this.onclose?.()
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN
+    this.onopen?.()
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) })
+  }
+
+  // The server or network went away without a clean close handshake from us
+  drop() {
+    this.readyState = 3
+    this.onclose?.()
+  }
+}
+
+const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1]!
+
+// Opens the latest socket and answers its authentication handshake
+const accept = () => {
+  latestSocket().open()
+  latestSocket().receive({ type: 'authenticated', user_id: 'u1' })
+}
+
+const connect = async (socket: GameWebSocket) => {
+  const connected = socket.connect()
+  accept()
+  await connected
+}
+
+const createSocket = () => new GameWebSocket('ws://test', () => 'token')
+
+describe('GameWebSocket', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = []
+    vi.stubGlobal('WebSocket', FakeWebSocket)
+    vi.useFakeTimers()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+    onUnauthorized(null)
+  })
+
+  it('only counts as open once the server accepts the token', async () => {
+    const socket = createSocket()
+    const connected = socket.connect()
+    latestSocket().open()
+
+    expect(latestSocket().sent).toEqual([{ type: 'authenticate', token: 'token' }])
+    expect(socket.getState()).toBe('connecting')
+
+    latestSocket().receive({ type: 'authenticated', user_id: 'u1' })
+    await connected
+    expect(socket.getState()).toBe('open')
+    expect(socket.getUserId()).toBe('u1')
+  })
+
+  it('stops and reports a rejected token instead of reconnecting', async () => {
+    const unauthorized = vi.fn()
+    onUnauthorized(unauthorized)
+    const socket = createSocket()
+    const errors = vi.fn()
+    socket.on('error', errors)
+
+    const connected = socket.connect()
+    latestSocket().open()
+    latestSocket().receive({ type: 'error', code: 'auth_expired', message: 'Token expired' })
+
+    await expect(connected).rejects.toThrow('Token expired')
+    await vi.advanceTimersByTimeAsync(60000)
+    expect(socket.getState()).toBe('failed')
+    expect(FakeWebSocket.instances).toHaveLength(1)
+    expect(errors).toHaveBeenCalledWith(expect.objectContaining({ code: 'auth_expired' }))
+    expect(unauthorized).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries when the handshake goes unanswered', async () => {
+    const socket = createSocket()
+    socket.connect().catch(() => {})
+    latestSocket().open()
+
+    await vi.advanceTimersByTimeAsync(10000)
+    expect(socket.getState()).toBe('reconnecting')
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(FakeWebSocket.instances).toHaveLength(2)
+  })
+
+  it('forgets a room the server refused', async () => {
+    const socket = createSocket()
+    const errors = vi.fn()
+    socket.on('error', errors)
+    await connect(socket)
+    socket.subscribe({ type: 'join_room', room_id: 'g1' })
+
+    latestSocket().receive({
+      type: 'error',
+      code: 'room_full',
+      message: 'Room is full',
+      room_id: 'g1',
+    })
+    latestSocket().drop()
+    await vi.advanceTimersByTimeAsync(1000)
+    accept()
+
+    expect(errors).toHaveBeenCalledWith(expect.objectContaining({ code: 'room_full' }))
+    expect(latestSocket().sent).toEqual([{ type: 'authenticate', token: 'token' }])
+  })
+
+  it('reports connection state changes', async () => {
+    const socket = createSocket()
+    const states: ConnectionState[] = []
+    socket.onStateChange((state) => states.push(state))
+
+    await connect(socket)
+    latestSocket().drop()
+    await vi.advanceTimersByTimeAsync(1000)
+    accept()
+
+    expect(states).toEqual(['connecting', 'open', 'reconnecting', 'open'])
+  })
+
+  it('gives up after the last reconnect attempt', async () => {
+    const socket = createSocket()
+    await connect(socket)
+
+    latestSocket().drop()
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await vi.advanceTimersByTimeAsync(30000)
+      latestSocket().drop()
+    }
+
+    expect(socket.getState()).toBe('failed')
+    expect(FakeWebSocket.instances).toHaveLength(6)
+  })
+
+  it('queues messages while down and rejoins the room before flushing them', async () => {
+    const socket = createSocket()
+    await connect(socket)
+    socket.subscribe({ type: 'join_room', room_id: 'g1' })
+
+    latestSocket().drop()
+    socket.send({ type: 'create_room', room_id: 'g2' })
+    await vi.advanceTimersByTimeAsync(1000)
+    accept()
+
+    expect(latestSocket().sent).toEqual([
+      { type: 'authenticate', token: 'token' },
+      { type: 'join_room', room_id: 'g1' },
+      { type: 'create_room', room_id: 'g2' },
+    ])
+  })
+
+  it('asks for a resync after reconnecting and after a sequence gap', async () => {
+    const socket = createSocket()
+    const resync = vi.fn()
+    const moves = vi.fn()
+    socket.onResync(resync)
+    socket.on('player_joined', moves)
+    await connect(socket)
+    expect(resync).not.toHaveBeenCalled()
+
+    latestSocket().receive({ type: 'player_joined', room_id: 'g1', players: 1, seq: 1 })
+    latestSocket().receive({ type: 'player_joined', room_id: 'g1', players: 2, seq: 2 })
+    expect(resync).not.toHaveBeenCalled()
+
+    latestSocket().receive({ type: 'player_joined', room_id: 'g1', players: 2, seq: 5 })
+    expect(resync).toHaveBeenCalledTimes(1)
+
+    latestSocket().drop()
+    await vi.advanceTimersByTimeAsync(1000)
+    accept()
+    expect(resync).toHaveBeenCalledTimes(2)
+  })
+
+  it('drops messages it has already seen', async () => {
+    const socket = createSocket()
+    const listener = vi.fn()
+    socket.on('player_joined', listener)
+    await connect(socket)
+
+    latestSocket().receive({ type: 'player_joined', room_id: 'g1', players: 2, seq: 3 })
+    latestSocket().receive({ type: 'player_joined', room_id: 'g1', players: 2, seq: 3 })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('drops messages that do not match a known schema', async () => {
+    const socket = createSocket()
+    const moves = vi.fn()
+    socket.on('move_made', moves)
+    await connect(socket)
+
+    latestSocket().receive({
+      type: 'move_made',
+      game_id: 'g1',
+      player_id: 'u2',
+      position: '0,0',
+      symbol: 'X',
+      winner: null,
+      game_status: 'in_progress',
+      variant: 'classic',
+      board: [
+        ['X', null, null],
+        [null, null, null],
+        [null, null, null],
+      ],
+    })
+    latestSocket().receive({ type: 'chat', text: 'hi' })
+
+    expect(moves).not.toHaveBeenCalled()
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('at $.game_status'),
+      expect.any(String),
+    )
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('at $.type'),
+      expect.any(String),
+    )
+    expect(socket.getState()).toBe('open')
+  })
+
+  it('treats a socket that stops answering pings as closed', async () => {
+    const socket = createSocket()
+    await connect(socket)
+    const first = latestSocket()
+
+    await vi.advanceTimersByTimeAsync(15000)
+    expect(first.sent).toContainEqual({ type: 'ping' })
+    first.receive({ type: 'pong' })
+    await vi.advanceTimersByTimeAsync(10000)
+    expect(socket.getState()).toBe('open')
+
+    // Next ping goes unanswered
+    await vi.advanceTimersByTimeAsync(5000 + 10000)
+    expect(socket.getState()).toBe('reconnecting')
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(FakeWebSocket.instances).toHaveLength(2)
+  })
+
+  it('stays idle after a deliberate disconnect', async () => {
+    const socket = createSocket()
+    await connect(socket)
+
+    socket.disconnect()
+    await vi.advanceTimersByTimeAsync(60000)
+
+    expect(socket.getState()).toBe('idle')
+    expect(FakeWebSocket.instances).toHaveLength(1)
+  })
+})
@@ -1,90 +1,261 @@
-import { authService } from './auth'
+import { http, type RequestOptions } from './http'
+import {
+  boardResponseSchema,
+  drawOfferResponseSchema,
+  gameResultSchema,
+  gameSchema,
+  leaderboardEntrySchema,
+  leaderboardPageSchema,
+  lobbyPageSchema,
+  moveHistorySchema,
+  moveResponseSchema,
+  playerGamesPageSchema,
+  playerStatsSchema,
+  profileSchema,
+  ratingHistorySchema,
+  type BoardResponse,
+  type Game,
+  type GameResult,
+  type LeaderboardEntry,
+  type LeaderboardPage,
+  type LobbyPage,
+  type MoveRecord,
+  type MoveResponse,
+  type PlayerGamesPage,
+  type PlayerStats,
+  type Profile,
+  type RatingPoint,
+  type TimeControl,
+} from './schemas'
+import type { GameSettings, GameVariant } from '../utils/gameRules'
+import { t } from '../i18n'
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000'
+export type {
+  BoardResponse,
+  BoardState,
+  Game,
+  GameResult,
+  LeaderboardEntry,
+  LeaderboardPage,
+  LobbyEntry,
+  LobbyPage,
+  MoveRecord,
+  PlayerGame,
+  PlayerGamesPage,
+  PlayerRecord,
+  PlayerResult,
+  PlayerStats,
+  PlayerSummary,
+  Profile,
+  RatingPoint,
+  MoveResponse,
+  Series,
+  ServerClock,
+  TimeControl,
+} from './schemas'
 
-function getAuthHeaders(): HeadersInit {
-  const headers: HeadersInit = { 'Content-Type': 'application/json' }
-  const token = authService.getToken()
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`
-  }
-  return headers
+export const NO_TIME_CONTROL: TimeControl = { kind: 'none' }
+
+export interface ListGamesQuery extends PageQuery {
+  variant?: GameVariant
+  // Limits on the creator's rating
+  minRating?: number
+  maxRating?: number
 }
 
-export interface Game {
-  id: string
-  player_x_id: string | null
-  player_o_id: string | null
-  status: 'waiting' | 'ongoing' | 'finished'
-  created_at: string
+export interface PageQuery {
+  // 1-based
+  page?: number
+  pageSize?: number
 }
 
-export interface MoveResponse {
-  message: string
-  move_id: string
-  position: string
-  symbol: 'X' | 'O'
-  board: (('X' | 'O' | null)[])[]
-  winner: 'X' | 'O' | 'DRAW' | null
-  game_status: 'waiting' | 'ongoing' | 'finished'
-  next_turn: 'X' | 'O' | null
+export interface LeaderboardQuery extends PageQuery {
+  // Matches anywhere in the username, ignoring case
+  search?: string
 }
 
+// Per-call knobs callers may pass through to the HTTP client
+export type CallOptions = Pick<RequestOptions, 'signal' | 'timeout'>
+
 export const api = {
-  async createGame(playerXId: string): Promise<Game> {
-    const response = await fetch(`${API_BASE_URL}/games`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({ player_x_id: playerXId }),
+  createGame(
+    playerXId: string,
+    settings: GameSettings,
+    variant: GameVariant = 'classic',
+    timeControl: TimeControl = NO_TIME_CONTROL,
+    options: CallOptions = {}
+  ): Promise<Game> {
+    return http.post(
+      '/games',
+      {
+        player_x_id: playerXId,
+        variant,
+        board_size: settings.boardSize,
+        win_length: settings.winLength,
+        time_control: timeControl,
+      },
+      gameSchema,
+      { ...options, errorMessage: t('errors.createGame') }
+    )
+  },
+
+  joinGame(gameId: string, playerOId: string, options: CallOptions = {}): Promise<Game> {
+    return http.post(
+      `/games/${gameId}/join`,
+      { player_o_id: playerOId },
+      gameSchema,
+      { ...options, errorMessage: t('errors.joinGame') }
+    )
+  },
+
+  // Open games only, newest first
+  listGames(query: ListGamesQuery = {}, options: CallOptions = {}): Promise<LobbyPage> {
+    const params = pageParams(query)
+    params.set('status', 'waiting')
+    if (query.variant) params.set('variant', query.variant)
+    if (query.minRating !== undefined) params.set('min_rating', String(query.minRating))
+    if (query.maxRating !== undefined) params.set('max_rating', String(query.maxRating))
+    return http.get(`/games?${params}`, lobbyPageSchema, {
+      ...options,
+      errorMessage: t('errors.listGames'),
     })
-    if (!response.ok) {
-      throw new Error('Failed to create game')
-    }
-    return response.json()
   },
 
-  async joinGame(gameId: string, playerOId: string): Promise<Game> {
-    const response = await fetch(`${API_BASE_URL}/games/${gameId}/join`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({ player_o_id: playerOId }),
+  getGame(gameId: string, options: CallOptions = {}): Promise<Game> {
+    return http.get(`/games/${gameId}`, gameSchema, {
+      ...options,
+      errorMessage: t('errors.getGame'),
     })
-    if (!response.ok) {
-      throw new Error('Failed to join game')
-    }
-    return response.json()
   },
 
-  async getGame(gameId: string): Promise<Game> {
-    const response = await fetch(`${API_BASE_URL}/games/${gameId}`, {
-      headers: getAuthHeaders(),
+  getBoard(gameId: string, options: CallOptions = {}): Promise<BoardResponse> {
+    return http.get(`/games/${gameId}/board`, boardResponseSchema, {
+      ...options,
+      errorMessage: t('errors.getBoard'),
     })
-    if (!response.ok) {
-      throw new Error('Failed to get game')
-    }
-    return response.json()
   },
 
-  async getBoard(gameId: string): Promise<{ board: (('X' | 'O' | null)[])[], winner: 'X' | 'O' | 'DRAW' | null }> {
-    const response = await fetch(`${API_BASE_URL}/games/${gameId}/board`, {
-      headers: getAuthHeaders(),
+  getMoves(gameId: string, options: CallOptions = {}): Promise<MoveRecord[]> {
+    return http.get(`/games/${gameId}/moves`, moveHistorySchema, {
+      ...options,
+      errorMessage: t('errors.getMoves'),
     })
-    if (!response.ok) {
-      throw new Error('Failed to get board')
-    }
-    return response.json()
   },
 
-  async makeMove(gameId: string, playerId: string, position: string): Promise<MoveResponse> {
-    const response = await fetch(`${API_BASE_URL}/games/${gameId}/move`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({ player_id: playerId, position }),
+  makeMove(
+    gameId: string,
+    playerId: string,
+    position: string,
+    options: CallOptions = {}
+  ): Promise<MoveResponse> {
+    return http.post(
+      `/games/${gameId}/move`,
+      { player_id: playerId, position },
+      moveResponseSchema,
+      { ...options, errorMessage: t('errors.makeMove') }
+    )
+  },
+
+  resign(gameId: string, playerId: string, options: CallOptions = {}): Promise<GameResult> {
+    return http.post(
+      `/games/${gameId}/resign`,
+      { player_id: playerId },
+      gameResultSchema,
+      { ...options, errorMessage: t('errors.resign') }
+    )
+  },
+
+  async offerDraw(gameId: string, playerId: string, options: CallOptions = {}): Promise<void> {
+    await http.post(
+      `/games/${gameId}/draw/offer`,
+      { player_id: playerId },
+      drawOfferResponseSchema,
+      { ...options, errorMessage: t('errors.offerDraw') }
+    )
+  },
+
+  acceptDraw(gameId: string, playerId: string, options: CallOptions = {}): Promise<GameResult> {
+    return http.post(
+      `/games/${gameId}/draw/accept`,
+      { player_id: playerId },
+      gameResultSchema,
+      { ...options, errorMessage: t('errors.acceptDraw') }
+    )
+  },
+
+  async declineDraw(gameId: string, playerId: string, options: CallOptions = {}): Promise<void> {
+    await http.post(
+      `/games/${gameId}/draw/decline`,
+      { player_id: playerId },
+      drawOfferResponseSchema,
+      { ...options, errorMessage: t('errors.declineDraw') }
+    )
+  },
+
+  // The server checks its own clock before awarding the game, so an early claim just fails
+  claimTimeout(gameId: string, playerId: string, options: CallOptions = {}): Promise<GameResult> {
+    return http.post(
+      `/games/${gameId}/timeout`,
+      { player_id: playerId },
+      gameResultSchema,
+      { ...options, errorMessage: t('errors.claimTimeout') }
+    )
+  },
+
+  getProfile(userId: string, options: CallOptions = {}): Promise<Profile> {
+    return http.get(`/users/${userId}`, profileSchema, {
+      ...options,
+      errorMessage: t('errors.getProfile'),
     })
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to make move' }))
-      throw new Error(error.detail || 'Failed to make move')
-    }
-    return response.json()
   },
+
+  getPlayerStats(userId: string, options: CallOptions = {}): Promise<PlayerStats> {
+    return http.get(`/users/${userId}/stats`, playerStatsSchema, {
+      ...options,
+      errorMessage: t('errors.getStats'),
+    })
+  },
+
+  getRatingHistory(userId: string, options: CallOptions = {}): Promise<RatingPoint[]> {
+    return http.get(`/users/${userId}/rating-history`, ratingHistorySchema, {
+      ...options,
+      errorMessage: t('errors.getRatingHistory'),
+    })
+  },
+
+  // Finished games only, newest first
+  listPlayerGames(
+    userId: string,
+    query: PageQuery = {},
+    options: CallOptions = {}
+  ): Promise<PlayerGamesPage> {
+    return http.get(`/users/${userId}/games?${pageParams(query)}`, playerGamesPageSchema, {
+      ...options,
+      errorMessage: t('errors.getGameHistory'),
+    })
+  },
+
+  getLeaderboard(query: LeaderboardQuery = {}, options: CallOptions = {}): Promise<LeaderboardPage> {
+    const params = pageParams(query)
+    if (query.search) params.set('search', query.search)
+    return http.get(`/leaderboard?${params}`, leaderboardPageSchema, {
+      ...options,
+      errorMessage: t('errors.getLeaderboard'),
+    })
+  },
+
+  // Where one player stands, whichever page that falls on
+  getLeaderboardEntry(userId: string, options: CallOptions = {}): Promise<LeaderboardEntry> {
+    return http.get(`/leaderboard/users/${userId}`, leaderboardEntrySchema, {
+      ...options,
+      errorMessage: t('errors.getLeaderboardEntry'),
+    })
+  },
+}
+
+function pageParams(query: PageQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.page !== undefined) params.set('page', String(query.page))
+  if (query.pageSize !== undefined) params.set('page_size', String(query.pageSize))
+  return params
 }
@@ -1,4 +1,20 @@
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000'
+import { http, type RequestOptions } from './http'
+import {
+  availabilitySchema,
+  loginResponseSchema,
+  refreshResponseSchema,
+  signupResponseSchema,
+  userSchema,
+  type LoginResponse,
+  type RefreshResponse,
+  type SignupResponse,
+  type User,
+} from './schemas'
+import { tokenStorage } from './token'
+import { decode } from '../utils/decoder'
+import { t } from '../i18n'
+
+export type { LoginResponse, RefreshResponse, SignupResponse, User } from './schemas'
 
 export interface SignupRequest {
   username: string
@@ -6,107 +22,90 @@ export interface SignupRequest {
   password: string
 }
 
-export interface SignupResponse {
-  id: string
-  username: string
-  email: string
-  elo_rating: number
-  avatar_url: string | null
-  created_at: string
-}
-
 export interface LoginRequest {
   username: string
   password: string
 }
 
-export interface LoginResponse {
-  access_token: string
-  token_type: string
-  user_id: string
-  username: string
-}
-
-export interface User {
-  id: string
-  username: string
-  email: string
-  elo_rating: number
-  avatar_url: string | null
-  created_at: string
-}
+// Signup fields that must not belong to an existing account
+export type AvailabilityField = 'username' | 'email'
 
-const TOKEN_KEY = 'auth_token'
+// The signed-in user as last fetched, so a reload without network still knows who is playing
+const USER_KEY = 'auth_user'
 
 export const authService = {
   getToken(): string | null {
-    return localStorage.getItem(TOKEN_KEY)
+    return tokenStorage.get()
   },
 
   setToken(token: string): void {
-    localStorage.setItem(TOKEN_KEY, token)
+    tokenStorage.set(token)
   },
 
   removeToken(): void {
-    localStorage.removeItem(TOKEN_KEY)
+    tokenStorage.remove()
+    localStorage.removeItem(USER_KEY)
   },
 
-  async signup(data: SignupRequest): Promise<SignupResponse> {
-    const response = await fetch(`${API_BASE_URL}/auth/signup`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Failed to sign up' }))
-      throw new Error(error.detail || 'Failed to sign up')
+  getCachedUser(): User | null {
+    try {
+      return decode(userSchema, JSON.parse(localStorage.getItem(USER_KEY) ?? 'null'))
+    } catch {
+      return null
     }
+  },
 
-    return response.json()
+  setCachedUser(user: User): void {
+    localStorage.setItem(USER_KEY, JSON.stringify(user))
   },
 
-  async login(data: LoginRequest): Promise<LoginResponse> {
-    const response = await fetch(`${API_BASE_URL}/auth/login`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data),
+  signup(data: SignupRequest): Promise<SignupResponse> {
+    return http.post('/auth/signup', data, signupResponseSchema, {
+      auth: false,
+      errorMessage: t('errors.signup'),
     })
+  },
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Invalid credentials' }))
-      throw new Error(error.detail || 'Invalid credentials')
-    }
+  // Asked while the signup form is filled in; signup itself still rejects a taken name
+  async isAvailable(
+    field: AvailabilityField,
+    value: string,
+    options: Pick<RequestOptions, 'signal'> = {},
+  ): Promise<boolean> {
+    const query = new URLSearchParams({ [field]: value })
+    const result = await http.get(`/auth/available?${query}`, availabilitySchema, {
+      ...options,
+      auth: false,
+      retries: 0,
+      errorMessage: t('errors.checkAvailability'),
+    })
+    return result.available
+  },
 
-    const result = await response.json()
+  async login(data: LoginRequest): Promise<LoginResponse> {
+    const result = await http.post('/auth/login', data, loginResponseSchema, {
+      auth: false,
+      errorMessage: t('errors.invalidCredentials'),
+    })
     this.setToken(result.access_token)
     return result
   },
 
-  async getCurrentUser(): Promise<User> {
-    const token = this.getToken()
-    if (!token) {
-      throw new Error('No token available')
-    }
-
-    const response = await fetch(`${API_BASE_URL}/auth/me`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
+  // Trades the current, still valid token for a fresh one
+  async refresh(): Promise<RefreshResponse> {
+    const result = await http.post('/auth/refresh', undefined, refreshResponseSchema, {
+      errorMessage: t('errors.refreshSession'),
     })
+    this.setToken(result.access_token)
+    return result
+  },
 
-    if (!response.ok) {
-      if (response.status === 401) {
-        this.removeToken()
-        throw new Error('Token expired or invalid')
-      }
-      const error = await response.json().catch(() => ({ detail: 'Failed to get user' }))
-      throw new Error(error.detail || 'Failed to get user')
+  // A 401 here reaches the global unauthorized handler, which logs out
+  async getCurrentUser(): Promise<User> {
+    if (!this.getToken()) {
+      throw new Error(t('errors.noToken'))
     }
-
-    return response.json()
+    return http.get('/auth/me', userSchema, { errorMessage: t('errors.getUser') })
   },
 
   logout(): void {
@@ -0,0 +1,88 @@
+import type { Game, MoveRecord } from './api'
+import type { Board, GameStatus, PlayerSymbol, Position, Winner } from '../utils/gameRules'
+import type { UltimatePosition, UltimateState } from '../utils/ultimateRules'
+
+const DB_NAME = 'zizou_games'
+const DB_VERSION = 1
+const STORE_NAME = 'games'
+// Bumped whenever GameSnapshot changes shape; older snapshots are ignored
+const SNAPSHOT_VERSION = 1
+// A game left this long is better loaded fresh than resumed
+const MAX_SNAPSHOT_AGE = 24 * 60 * 60 * 1000
+
+// An online game as this player last saw it, kept so a reload can show it straight away
+export interface GameSnapshot {
+  version: number
+  savedAt: number
+  game: Game
+  myPlayerId: string
+  mySymbol: PlayerSymbol | null
+  board: Board
+  ultimate: UltimateState
+  moves: MoveRecord[]
+  currentPlayer: PlayerSymbol | null
+  winner: Winner
+  gameStatus: GameStatus
+  // Played while the server was unreachable and not delivered yet
+  unsentMove: Position | UltimatePosition | null
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'game.id' })
+    }
+    database = promisify(request).catch((error: unknown) => {
+      database = null
+      throw error
+    })
+  }
+  return database
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  return promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)))
+}
+
+// Private browsing and some test environments have no IndexedDB; the cache then does nothing
+const isAvailable = () => typeof indexedDB !== 'undefined'
+
+export const gameCache = {
+  async load(gameId: string): Promise<GameSnapshot | null> {
+    if (!isAvailable()) return null
+    const snapshot = (await withStore('readonly', (store) => store.get(gameId))) as
+      | GameSnapshot
+      | undefined
+    if (!snapshot || snapshot.version !== SNAPSHOT_VERSION) return null
+    if (Date.now() - snapshot.savedAt > MAX_SNAPSHOT_AGE) return null
+    return snapshot
+  },
+
+  async save(snapshot: Omit<GameSnapshot, 'version' | 'savedAt'>): Promise<void> {
+    if (!isAvailable()) return
+    // Stored as plain data; reactive proxies cannot be cloned into IndexedDB
+    const record: GameSnapshot = JSON.parse(
+      JSON.stringify({ ...snapshot, version: SNAPSHOT_VERSION, savedAt: Date.now() }),
+    )
+    await withStore('readwrite', (store) => store.put(record))
+  },
+
+  async remove(gameId: string): Promise<void> {
+    if (!isAvailable()) return
+    await withStore('readwrite', (store) => store.delete(gameId))
+  },
+}
@@ -0,0 +1,208 @@
+import { tokenStorage } from './token'
+import { decode, DecodeError, type Decoder } from '../utils/decoder'
+import { t } from '../i18n'
+
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000'
+
+const DEFAULT_TIMEOUT = 10_000
+const DEFAULT_GET_RETRIES = 2
+const RETRY_BASE_DELAY = 300
+
+// Statuses worth retrying an idempotent request for; anything else will fail the same way again
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504])
+
+// A failed request. `status` is 0 when no response arrived (network failure or timeout).
+export class ApiError extends Error {
+  readonly status: number
+  readonly detail: string
+  // Validation messages keyed by the request field they refer to
+  readonly fieldErrors: Record<string, string>
+
+  constructor(status: number, detail: string, fieldErrors: Record<string, string> = {}) {
+    super(detail)
+    this.name = 'ApiError'
+    this.status = status
+    this.detail = detail
+    this.fieldErrors = fieldErrors
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0
+  }
+}
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  body?: unknown
+  signal?: AbortSignal
+  // Milliseconds before the request is abandoned with a status 0 ApiError
+  timeout?: number
+  // Extra attempts after a network failure or retryable status; defaults to 2 for GET, 0 otherwise
+  retries?: number
+  // Send the stored token and report a 401 to the unauthorized handler; off for login and signup
+  auth?: boolean
+  // Detail used when the server gives none
+  errorMessage?: string
+}
+
+let unauthorizedHandler: (() => void) | null = null
+
+// Called whenever an authenticated request comes back 401 or the game socket rejects the token
+export function onUnauthorized(handler: (() => void) | null): void {
+  unauthorizedHandler = handler
+}
+
+export function notifyUnauthorized(): void {
+  unauthorizedHandler?.()
+}
+
+interface ValidationIssue {
+  loc?: (string | number)[]
+  msg?: string
+}
+
+// FastAPI answers with { detail: string } or, for validation errors, { detail: ValidationIssue[] }
+async function toApiError(response: Response, fallback: string): Promise<ApiError> {
+  const body: unknown = await response.json().catch(() => null)
+  const detail = body && typeof body === 'object' && 'detail' in body ? body.detail : null
+
+  if (typeof detail === 'string' && detail) {
+    return new ApiError(response.status, detail)
+  }
+  if (Array.isArray(detail)) {
+    const fieldErrors: Record<string, string> = {}
+    const messages: string[] = []
+    for (const issue of detail as ValidationIssue[]) {
+      if (!issue.msg) continue
+      messages.push(issue.msg)
+      const field = issue.loc?.[issue.loc.length - 1]
+      if (field !== undefined && field !== 'body' && !(field in fieldErrors)) {
+        fieldErrors[String(field)] = issue.msg
+      }
+    }
+    return new ApiError(response.status, messages.join('; ') || fallback, fieldErrors)
+  }
+  return new ApiError(response.status, fallback)
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+async function send(path: string, options: RequestOptions, fallback: string): Promise<Response> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  const token = options.auth === false ? null : tokenStorage.get()
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`
+  }
+
+  // One controller carries both the caller's signal and our timeout
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, options.timeout ?? DEFAULT_TIMEOUT)
+  const forwardAbort = () => controller.abort(options.signal!.reason)
+  if (options.signal?.aborted) forwardAbort()
+  options.signal?.addEventListener('abort', forwardAbort, { once: true })
+
+  try {
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      method: options.method ?? 'GET',
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+      signal: controller.signal,
+    })
+    if (response.status === 401 && token) {
+      notifyUnauthorized()
+    }
+    return response
+  } catch (error: unknown) {
+    if (timedOut) throw new ApiError(0, t('errors.timedOut'))
+    if (isAbortError(error) || options.signal?.aborted) throw error
+    throw new ApiError(0, t('errors.unreachable', { action: fallback }))
+  } finally {
+    clearTimeout(timer)
+    options.signal?.removeEventListener('abort', forwardAbort)
+  }
+}
+
+// Every response body goes through `decoder`, so a payload that does not match its schema
+// fails here with a DecodeError instead of corrupting state further in
+export async function request<T>(
+  path: string,
+  decoder: Decoder<T>,
+  options: RequestOptions = {},
+): Promise<T> {
+  const fallback = options.errorMessage ?? t('errors.requestFailed')
+  const method = options.method ?? 'GET'
+  const retries = options.retries ?? (method === 'GET' ? DEFAULT_GET_RETRIES : 0)
+
+  for (let attempt = 0; ; attempt++) {
+    let error: ApiError
+    try {
+      const response = await send(path, options, fallback)
+      if (response.ok) {
+        const body: unknown = response.status === 204 ? undefined : await response.json()
+        try {
+          return decode(decoder, body)
+        } catch (err: unknown) {
+          if (err instanceof DecodeError) {
+            console.error(`Invalid response from ${method} ${path}: ${err.message}`)
+          }
+          throw err
+        }
+      }
+      error = await toApiError(response, fallback)
+    } catch (err: unknown) {
+      if (!(err instanceof ApiError)) throw err
+      error = err
+    }
+
+    const retryable = error.isNetworkError || RETRYABLE_STATUSES.has(error.status)
+    if (!retryable || attempt >= retries) throw error
+    await delay(RETRY_BASE_DELAY * 2 ** attempt, options.signal)
+  }
+}
+
+export const http = {
+  get<T>(
+    path: string,
+    decoder: Decoder<T>,
+    options: Omit<RequestOptions, 'method' | 'body'> = {},
+  ): Promise<T> {
+    return request(path, decoder, { ...options, method: 'GET' })
+  },
+
+  post<T>(
+    path: string,
+    body: unknown,
+    decoder: Decoder<T>,
+    options: Omit<RequestOptions, 'method' | 'body'> = {},
+  ): Promise<T> {
+    return request(path, decoder, { ...options, method: 'POST', body })
+  },
+}
@@ -0,0 +1,384 @@
+import {
+  array,
+  boolean,
+  integer,
+  intersect,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  refine,
+  string,
+  taggedUnion,
+  type Decoder,
+  type Infer,
+} from '../utils/decoder'
+import {
+  BOARD_SIZE,
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  type Board,
+  type EndReason,
+  type GameStatus,
+  type GameVariant,
+  type PlayerSymbol,
+  type Position,
+  type Winner,
+} from '../utils/gameRules'
+import type { UltimateBoard } from '../utils/ultimateRules'
+import type { Emote } from '../utils/chat'
+
+// Schemas for everything the backend sends us. The payload types used across the app are
+// inferred from these, and the rules types they must agree with are pinned by annotation.
+
+const playerSymbol: Decoder<PlayerSymbol> = literal('X', 'O')
+const winner: Decoder<Winner> = nullable(literal('X', 'O', 'DRAW'))
+const gameStatus: Decoder<GameStatus> = literal('waiting', 'ongoing', 'finished')
+const gameVariant: Decoder<GameVariant> = literal('classic', 'ultimate')
+const endReason: Decoder<EndReason> = literal(
+  'line',
+  'board_full',
+  'timeout',
+  'resignation',
+  'agreement',
+)
+const cells = array(array(nullable(playerSymbol)))
+
+const isSquare = (rows: unknown[][], size: number) =>
+  rows.length === size && rows.every((row) => row.length === size)
+
+const board: Decoder<Board> = refine(
+  cells,
+  (rows) =>
+    rows.length >= MIN_BOARD_SIZE && rows.length <= MAX_BOARD_SIZE && isSquare(rows, rows.length),
+  `a square board from ${MIN_BOARD_SIZE}×${MIN_BOARD_SIZE} to ${MAX_BOARD_SIZE}×${MAX_BOARD_SIZE}`,
+)
+
+const subBoard = refine(cells, (rows) => isSquare(rows, BOARD_SIZE), 'a 3×3 board')
+
+const ultimateBoard: Decoder<UltimateBoard> = refine(
+  array(array(subBoard)),
+  (rows) => isSquare(rows, BOARD_SIZE),
+  'a 3×3 grid of sub-boards',
+)
+
+const position: Decoder<Position> = object({ row: integer, col: integer })
+
+// Games linked by rematches. `games` lists the finished ones, oldest first; a null winner_id
+// is a draw.
+export const seriesSchema = object({
+  id: string,
+  best_of: integer,
+  games: array(object({ game_id: string, winner_id: nullable(string) })),
+})
+
+// per_move: a fresh allowance every turn; bank: one pool per player, topped up after each move
+export const timeControlSchema = taggedUnion('kind', {
+  none: object({}),
+  per_move: object({ move_seconds: integer }),
+  bank: object({ initial_seconds: integer, increment_seconds: integer }),
+})
+
+// Clocks as the server saw them at server_time. The side in `turn` has been thinking since
+// running_since; both are null while the clocks are stopped.
+export const clockSchema = object({
+  x_remaining_ms: integer,
+  o_remaining_ms: integer,
+  turn: nullable(playerSymbol),
+  running_since: nullable(string),
+  server_time: string,
+})
+
+// REST
+
+export const gameSchema = object({
+  id: string,
+  player_x_id: nullable(string),
+  player_o_id: nullable(string),
+  status: gameStatus,
+  variant: gameVariant,
+  board_size: integer,
+  win_length: integer,
+  created_at: string,
+  series: optional(seriesSchema),
+  time_control: optional(timeControlSchema),
+  end_reason: optional(nullable(endReason)),
+  // Points each side's rating moved by, once a rated game has finished
+  rating_changes: optional(nullable(object({ x: integer, o: integer }))),
+})
+
+// Board payload shared by REST and WebSocket messages. Ultimate boards are nested
+// [boardRow][boardCol][row][col] and name the sub-board the next move must be played in.
+export const boardStateSchema = taggedUnion('variant', {
+  classic: object({ board }),
+  ultimate: object({ board: ultimateBoard, active_board: nullable(position) }),
+})
+
+export const boardResponseSchema = intersect(
+  boardStateSchema,
+  object({ winner, end_reason: optional(nullable(endReason)), clock: optional(clockSchema) }),
+)
+
+// `position` is "row,col" for classic games and "boardRow,boardCol,row,col" for ultimate ones
+export const moveResponseSchema = intersect(
+  boardStateSchema,
+  object({
+    message: string,
+    move_id: string,
+    position: string,
+    symbol: playerSymbol,
+    winner,
+    game_status: gameStatus,
+    next_turn: nullable(playerSymbol),
+    end_reason: optional(nullable(endReason)),
+    clock: optional(clockSchema),
+  }),
+)
+
+// Answer to resigning, agreeing a draw or claiming a timeout
+export const gameResultSchema = object({
+  game_id: string,
+  winner,
+  end_reason: endReason,
+  clock: optional(clockSchema),
+})
+
+export const drawOfferResponseSchema = object({ message: string })
+
+// One entry of a game's move history, oldest first. move_id and created_at are null for moves
+// only seen through a live `move_made` message or played in a local game.
+export const moveRecordSchema = object({
+  move_id: nullable(string),
+  player_id: nullable(string),
+  position: string,
+  symbol: playerSymbol,
+  created_at: nullable(string),
+})
+
+export const moveHistorySchema = array(moveRecordSchema)
+
+// Someone else's public profile, as shown next to a game
+export const playerSummarySchema = object({ id: string, username: string, elo_rating: number })
+
+// An open game waiting for an opponent, with who is waiting
+export const lobbyEntrySchema = object({ game: gameSchema, creator: playerSummarySchema })
+
+// One page of a paginated listing; `page` is 1-based
+const paged = <T>(item: Decoder<T>) =>
+  object({ items: array(item), total: integer, page: integer, page_size: integer })
+
+export const lobbyPageSchema = paged(lobbyEntrySchema)
+
+export const userSchema = object({
+  id: string,
+  username: string,
+  email: string,
+  elo_rating: number,
+  avatar_url: nullable(string),
+  created_at: string,
+})
+
+// Anyone's public profile: the user without their email, plus how many rated games they played
+export const profileSchema = object({
+  id: string,
+  username: string,
+  elo_rating: number,
+  avatar_url: nullable(string),
+  created_at: string,
+  games_played: integer,
+})
+
+// Rankings are by elo_rating; players with equal ratings share a rank
+export const leaderboardEntrySchema = object({ rank: integer, player: profileSchema })
+
+export const leaderboardPageSchema = paged(leaderboardEntrySchema)
+
+const playerResult = literal('win', 'loss', 'draw')
+
+const recordSchema = object({ wins: integer, losses: integer, draws: integer })
+
+// Totals over the player's finished games. The streak is the run of identical results ending
+// with the latest game; its result is null before the first one.
+export const playerStatsSchema = object({
+  as_x: recordSchema,
+  as_o: recordSchema,
+  streak: object({ result: nullable(playerResult), length: integer }),
+})
+
+// Rating after each rated game, oldest first. The first point is the starting rating and has no
+// game.
+export const ratingHistorySchema = array(
+  object({ rating: number, recorded_at: string, game_id: nullable(string) }),
+)
+
+// A finished game from one player's side, newest first
+export const playerGameSchema = object({
+  game: gameSchema,
+  symbol: playerSymbol,
+  result: playerResult,
+  opponent: nullable(playerSummarySchema),
+  rating_change: nullable(number),
+  finished_at: string,
+})
+
+export const playerGamesPageSchema = paged(playerGameSchema)
+
+export const signupResponseSchema = userSchema
+
+export const loginResponseSchema = object({
+  access_token: string,
+  token_type: string,
+  user_id: string,
+  username: string,
+})
+
+export const refreshResponseSchema = object({
+  access_token: string,
+  token_type: string,
+})
+
+export const availabilitySchema = object({ available: boolean })
+
+export type Series = Infer<typeof seriesSchema>
+export type TimeControl = Infer<typeof timeControlSchema>
+export type ServerClock = Infer<typeof clockSchema>
+export type GameResult = Infer<typeof gameResultSchema>
+export type Game = Infer<typeof gameSchema>
+export type BoardState = Infer<typeof boardStateSchema>
+export type BoardResponse = Infer<typeof boardResponseSchema>
+export type MoveResponse = Infer<typeof moveResponseSchema>
+export type MoveRecord = Infer<typeof moveRecordSchema>
+export type PlayerSummary = Infer<typeof playerSummarySchema>
+export type LobbyEntry = Infer<typeof lobbyEntrySchema>
+export type LobbyPage = Infer<typeof lobbyPageSchema>
+export type User = Infer<typeof userSchema>
+export type Profile = Infer<typeof profileSchema>
+export type LeaderboardEntry = Infer<typeof leaderboardEntrySchema>
+export type LeaderboardPage = Infer<typeof leaderboardPageSchema>
+export type PlayerResult = Infer<typeof playerResult>
+export type PlayerRecord = Infer<typeof recordSchema>
+export type PlayerStats = Infer<typeof playerStatsSchema>
+export type RatingPoint = Infer<typeof ratingHistorySchema>[number]
+export type PlayerGame = Infer<typeof playerGameSchema>
+export type PlayerGamesPage = Infer<typeof playerGamesPageSchema>
+export type SignupResponse = Infer<typeof signupResponseSchema>
+export type LoginResponse = Infer<typeof loginResponseSchema>
+export type RefreshResponse = Infer<typeof refreshResponseSchema>
+export type Availability = Infer<typeof availabilitySchema>
+
+// WebSocket
+
+// Per-room counter the server stamps on room events, used to spot missed messages
+const seq = optional(integer)
+
+const emote: Decoder<Emote> = literal('gg', 'wave', 'think', 'laugh', 'wow', 'oops')
+
+// Chat is broadcast to everyone in the room, including the sender
+const chatFields = {
+  room_id: string,
+  message_id: string,
+  sender_id: string,
+  username: string,
+  sent_at: string,
+  seq,
+}
+
+export const serverMessageSchema = taggedUnion('type', {
+  authenticated: object({ user_id: string }),
+  error: object({
+    code: literal('room_not_found', 'room_full', 'not_your_game', 'auth_expired'),
+    message: string,
+    room_id: optional(string),
+  }),
+  pong: object({}),
+  room_created: object({ room_id: string, players: integer, seq }),
+  room_joined: object({ room_id: string, players: integer, seq }),
+  player_joined: object({ room_id: string, players: integer, seq }),
+  spectator_joined: object({ room_id: string, spectators: integer, seq }),
+  spectator_left: object({ room_id: string, spectators: integer, seq }),
+  // Sent to a spectator on joining so they can render a game already in progress
+  spectator_snapshot: intersect(
+    boardStateSchema,
+    object({
+      room_id: string,
+      game: gameSchema,
+      moves: moveHistorySchema,
+      winner,
+      end_reason: optional(nullable(endReason)),
+      clock: optional(clockSchema),
+      players: integer,
+      spectators: integer,
+      seq,
+    }),
+  ),
+  game_started: object({
+    game_id: string,
+    status: gameStatus,
+    clock: optional(clockSchema),
+    seq,
+  }),
+  // Sent when a game ends off the board: timeout, resignation or an agreed draw
+  game_over: object({
+    game_id: string,
+    winner,
+    end_reason: endReason,
+    clock: optional(clockSchema),
+    seq,
+  }),
+  draw_offer: object({ game_id: string, from_id: string, seq }),
+  draw_decline: object({ game_id: string, from_id: string, seq }),
+  rematch_offer: object({ room_id: string, from_id: string, best_of: integer, seq }),
+  rematch_decline: object({ room_id: string, from_id: string, seq }),
+  // The server has created the next game of the series, with X and O swapped
+  rematch_accept: object({
+    room_id: string,
+    from_id: string,
+    game: gameSchema,
+    series: seriesSchema,
+    seq,
+  }),
+  // Matchmaking. rating_window is how far from our rating an opponent may currently be; the
+  // server widens it the longer we wait.
+  queue_status: object({
+    position: integer,
+    players_waiting: integer,
+    rating_window: integer,
+    waited_ms: integer,
+  }),
+  match_found: object({
+    game: gameSchema,
+    symbol: playerSymbol,
+    opponent: playerSummarySchema,
+  }),
+  // Open games appearing in and leaving the lobby, e.g. because someone joined them
+  lobby_game_added: object({ entry: lobbyEntrySchema }),
+  lobby_game_removed: object({ game_id: string }),
+  chat_message: object({ ...chatFields, text: string }),
+  emote: object({ ...chatFields, emote }),
+  move_made: intersect(
+    boardStateSchema,
+    object({
+      game_id: string,
+      player_id: string,
+      position: string,
+      symbol: playerSymbol,
+      winner,
+      game_status: gameStatus,
+      end_reason: optional(nullable(endReason)),
+      clock: optional(clockSchema),
+      seq,
+    }),
+  ),
+})
+
+export type ServerMessage = Infer<typeof serverMessageSchema>
+export type SpectatorSnapshot = Extract<ServerMessage, { type: 'spectator_snapshot' }>
+export type RematchEvent = Extract<
+  ServerMessage,
+  { type: 'rematch_offer' | 'rematch_decline' | 'rematch_accept' }
+>
+export type QueueStatus = Extract<ServerMessage, { type: 'queue_status' }>
+export type MatchFound = Extract<ServerMessage, { type: 'match_found' }>
+export type GameOverEvent = Extract<ServerMessage, { type: 'game_over' }>
+export type ChatEvent = Extract<ServerMessage, { type: 'chat_message' | 'emote' }>
@@ -0,0 +1,9 @@
+// Production builds only: the dev server's modules change constantly and have no manifest
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch((error: unknown) => {
+      console.error('Service worker registration failed:', error)
+    })
+  })
+}
@@ -0,0 +1,42 @@
+const TOKEN_KEY = 'auth_token'
+
+// Access token persistence, shared by the auth service and the HTTP client
+export const tokenStorage = {
+  get(): string | null {
+    return localStorage.getItem(TOKEN_KEY)
+  },
+
+  set(token: string): void {
+    localStorage.setItem(TOKEN_KEY, token)
+  },
+
+  remove(): void {
+    localStorage.removeItem(TOKEN_KEY)
+  },
+
+  // Called when another tab stores or removes the token; the tab that changed it is not told
+  subscribe(listener: (token: string | null) => void): () => void {
+    const onStorage = (event: StorageEvent) => {
+      // A null key means the whole storage was cleared
+      if (event.key === TOKEN_KEY || event.key === null) {
+        listener(localStorage.getItem(TOKEN_KEY))
+      }
+    }
+    window.addEventListener('storage', onStorage)
+    return () => window.removeEventListener('storage', onStorage)
+  },
+}
+
+// Expiry of a JWT in epoch milliseconds, or null when the token carries no readable `exp`
+export function getTokenExpiry(token: string): number | null {
+  const payload = token.split('.')[1]
+  if (!payload) return null
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/')
+    const json = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+    const { exp } = JSON.parse(json) as { exp?: unknown }
+    return typeof exp === 'number' ? exp * 1000 : null
+  } catch {
+    return null
+  }
+}
@@ -1,116 +1,427 @@
-export type WebSocketMessage =
+import { authService } from './auth'
+import { notifyUnauthorized } from './http'
+import { serverMessageSchema, type ServerMessage, type TimeControl } from './schemas'
+
+export type {
+  ChatEvent,
+  MatchFound,
+  QueueStatus,
+  RematchEvent,
+  ServerMessage,
+  SpectatorSnapshot,
+} from './schemas'
+import { decode, DecodeError } from '../utils/decoder'
+import type { Emote } from '../utils/chat'
+import type { GameVariant } from '../utils/gameRules'
+
+export type RoomSubscription =
   | { type: 'create_room'; room_id: string }
   | { type: 'join_room'; room_id: string }
-  | { type: 'room_created'; room_id: string; players: number }
-  | { type: 'room_joined'; room_id: string; players: number }
-  | { type: 'player_joined'; room_id: string; players: number }
-  | { type: 'game_started'; game_id: string; status: string }
+  | { type: 'spectate_room'; room_id: string }
+
+export type ClientMessage =
+  | RoomSubscription
+  | { type: 'rematch_offer'; room_id: string; best_of: number }
+  | { type: 'rematch_accept'; room_id: string }
+  | { type: 'rematch_decline'; room_id: string }
+  | { type: 'chat_message'; room_id: string; text: string }
+  | { type: 'emote'; room_id: string; emote: Emote }
   | {
-    type: 'move_made'
-    game_id: string
-    player_id: string
-    position: string
-    symbol: 'X' | 'O'
-    board: (('X' | 'O' | null)[])[]
-    winner: 'X' | 'O' | 'DRAW' | null
-    game_status: string
-  }
+      type: 'queue_join'
+      rating: number
+      variant: GameVariant
+      board_size: number
+      win_length: number
+      time_control: TimeControl
+    }
+  | { type: 'queue_leave' }
+  | { type: 'lobby_subscribe' }
+  | { type: 'lobby_unsubscribe' }
+  | { type: 'authenticate'; token: string }
+  | { type: 'ping' }
+
+export type WebSocketError = Extract<ServerMessage, { type: 'error' }>
+export type WebSocketErrorCode = WebSocketError['code']
+
+export type WebSocketMessage = ClientMessage | ServerMessage
+
+// idle: not started or closed by us; reconnecting: retrying after a drop; failed: gave up until reconnect().
+// A socket only counts as open once the server has accepted our token.
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'failed'
+
+// The server must acknowledge our token within this long after the socket opens
+const HANDSHAKE_TIMEOUT = 10000
+const HEARTBEAT_INTERVAL = 15000
+// A socket that stays silent this long after a ping is treated as half-open
+const HEARTBEAT_TIMEOUT = 10000
+const MAX_RECONNECT_DELAY = 30000
+const MAX_QUEUE_LENGTH = 50
 
 export class GameWebSocket {
   private ws: WebSocket | null = null
+  private state: ConnectionState = 'idle'
+  private hasConnected = false
   private reconnectAttempts = 0
   private maxReconnectAttempts = 5
   private reconnectDelay = 1000
-  private listeners: Map<string, Set<(data: WebSocketMessage) => void>> = new Map()
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private handshakeTimer: ReturnType<typeof setTimeout> | null = null
+  private pendingConnect: { resolve: () => void; reject: (error: unknown) => void } | null = null
+  private userId: string | null = null
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  private pongTimer: ReturnType<typeof setTimeout> | null = null
+  private subscription: RoomSubscription | null = null
+  private lastSeq: number | null = null
+  private queue: ClientMessage[] = []
+  private listeners: Map<string, Set<(data: ServerMessage) => void>> = new Map()
+  private stateListeners: Set<(state: ConnectionState) => void> = new Set()
+  private resyncListeners: Set<() => void> = new Set()
 
-  constructor(private url: string = import.meta.env.VITE_WS_URL || 'ws://localhost:8000/ws') { }
+  constructor(
+    private url: string = import.meta.env.VITE_WS_URL || 'ws://localhost:8000/ws',
+    private getToken: () => string | null = () => authService.getToken()
+  ) { }
 
+  // Resolves once the server has acknowledged our token
   connect(): Promise<void> {
+    this.clearReconnectTimer()
+    this.setState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting')
+
     return new Promise((resolve, reject) => {
+      this.pendingConnect = { resolve, reject }
       try {
-        this.ws = new WebSocket(this.url)
+        const ws = new WebSocket(this.url)
+        this.ws = ws
 
-        this.ws.onopen = () => {
-          console.log('WebSocket connected')
-          this.reconnectAttempts = 0
-          resolve()
+        ws.onopen = () => {
+          this.authenticate(ws)
         }
 
-        this.ws.onmessage = (event) => {
-          try {
-            const message: WebSocketMessage = JSON.parse(event.data)
-            this.handleMessage(message)
-          } catch (error) {
-            console.error('Error parsing WebSocket message:', error)
-          }
+        ws.onmessage = (event) => {
+          this.handleRawMessage(event.data)
         }
 
-        this.ws.onerror = (error) => {
+        ws.onerror = (error) => {
           console.error('WebSocket error:', error)
-          reject(error)
+          this.settleConnect(error)
         }
 
-        this.ws.onclose = () => {
-          console.log('WebSocket disconnected')
-          this.ws = null
-          this.attemptReconnect()
+        ws.onclose = () => {
+          this.handleClose(ws)
         }
       } catch (error) {
-        reject(error)
+        this.settleConnect(error)
       }
     })
   }
 
+  private settleConnect(error?: unknown) {
+    const pending = this.pendingConnect
+    this.pendingConnect = null
+    if (!pending) return
+    if (error === undefined) {
+      pending.resolve()
+    } else {
+      pending.reject(error)
+    }
+  }
+
+  private authenticate(ws: WebSocket) {
+    const token = this.getToken()
+    if (!token) {
+      this.handleAuthFailure({ type: 'error', code: 'auth_expired', message: 'Not logged in' })
+      return
+    }
+    this.transmit({ type: 'authenticate', token })
+    this.handshakeTimer = setTimeout(() => {
+      this.handshakeTimer = null
+      console.warn('WebSocket authentication timed out')
+      this.handleClose(ws)
+      ws.close()
+    }, HANDSHAKE_TIMEOUT)
+  }
+
+  private handleAuthenticated(userId: string) {
+    this.clearHandshakeTimer()
+    console.log('WebSocket connected')
+    this.userId = userId
+    const recovering = this.hasConnected
+    this.hasConnected = true
+    this.reconnectAttempts = 0
+    this.setState('open')
+    this.startHeartbeat()
+    if (this.subscription) {
+      this.transmit(this.subscription)
+    }
+    this.flushQueue()
+    // Whatever happened in the room while we were away has to be fetched
+    if (recovering) {
+      this.requestResync()
+    }
+    this.settleConnect()
+  }
+
+  // Retrying with a token the server rejected cannot succeed, so stop until reconnect()
+  private handleAuthFailure(error: WebSocketError) {
+    this.clearHandshakeTimer()
+    this.stopHeartbeat()
+    const ws = this.ws
+    this.ws = null
+    ws?.close()
+    this.userId = null
+    this.setState('failed')
+    this.handleMessage(error)
+    this.settleConnect(new Error(error.message))
+    notifyUnauthorized()
+  }
+
+  // Starts over after the client gave up, e.g. from a "Retry" button
+  reconnect(): Promise<void> {
+    this.reconnectAttempts = 0
+    this.clearHandshakeTimer()
+    this.stopHeartbeat()
+    this.settleConnect(new Error('WebSocket reconnect requested'))
+    if (this.ws) {
+      const ws = this.ws
+      this.ws = null
+      ws.close()
+    }
+    return this.connect()
+  }
+
+  private handleClose(ws: WebSocket) {
+    // Ignore sockets we already replaced or dropped
+    if (this.ws !== ws) return
+    console.log('WebSocket disconnected')
+    this.ws = null
+    this.userId = null
+    this.clearHandshakeTimer()
+    this.stopHeartbeat()
+    this.settleConnect(new Error('WebSocket closed before it was ready'))
+    this.attemptReconnect()
+  }
+
   private attemptReconnect() {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++
-      setTimeout(() => {
-        console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`)
-        this.connect().catch(() => {
-          // Reconnection will be attempted again
-        })
-      }, this.reconnectDelay * this.reconnectAttempts)
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.setState('failed')
+      return
     }
+    this.reconnectAttempts++
+    this.setState('reconnecting')
+    const delay = Math.min(MAX_RECONNECT_DELAY, this.reconnectDelay * 2 ** (this.reconnectAttempts - 1))
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`)
+      this.connect().catch(() => {
+        // Reconnection will be attempted again
+      })
+    }, delay)
   }
 
-  private handleMessage(message: WebSocketMessage) {
+  private clearHandshakeTimer() {
+    if (this.handshakeTimer) {
+      clearTimeout(this.handshakeTimer)
+      this.handshakeTimer = null
+    }
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat()
+    this.heartbeatTimer = setInterval(() => {
+      this.transmit({ type: 'ping' })
+      if (!this.pongTimer) {
+        this.pongTimer = setTimeout(() => {
+          this.pongTimer = null
+          console.warn('WebSocket heartbeat timed out')
+          // A half-open socket may never fire close, so drop it ourselves
+          const ws = this.ws
+          if (ws) {
+            this.handleClose(ws)
+            ws.close()
+          }
+        }, HEARTBEAT_TIMEOUT)
+      }
+    }, HEARTBEAT_INTERVAL)
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer)
+      this.pongTimer = null
+    }
+  }
+
+  private handleRawMessage(data: string) {
+    // Any traffic proves the socket is alive, even a message we go on to reject
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer)
+      this.pongTimer = null
+    }
+
+    let message: ServerMessage
+    try {
+      message = decode(serverMessageSchema, JSON.parse(data))
+    } catch (error) {
+      if (error instanceof DecodeError) {
+        console.error(`Rejected WebSocket message: ${error.message}`, data)
+      } else {
+        console.error('Error parsing WebSocket message:', error)
+      }
+      return
+    }
+
+    if (message.type === 'pong') return
+    if (message.type === 'authenticated') {
+      this.handleAuthenticated(message.user_id)
+      return
+    }
+    if (message.type === 'error') {
+      this.handleError(message)
+      return
+    }
+
+    let missedMessages = false
+    if ('seq' in message && message.seq !== undefined) {
+      if (this.lastSeq !== null && message.seq <= this.lastSeq) {
+        // Already seen, e.g. replayed by the server after a reconnect
+        return
+      }
+      missedMessages = this.lastSeq !== null && message.seq > this.lastSeq + 1
+      this.lastSeq = message.seq
+    }
+
+    this.handleMessage(message)
+    if (missedMessages) {
+      this.requestResync()
+    }
+  }
+
+  private handleError(error: WebSocketError) {
+    if (error.code === 'auth_expired') {
+      this.handleAuthFailure(error)
+      return
+    }
+    // The room refused us; re-sending the same subscription after a reconnect would fail again
+    if (this.subscription && (!error.room_id || error.room_id === this.subscription.room_id)) {
+      this.subscription = null
+    }
+    this.handleMessage(error)
+  }
+
+  private handleMessage(message: ServerMessage) {
     const listeners = this.listeners.get(message.type)
     if (listeners) {
       listeners.forEach((listener) => listener(message))
     }
   }
 
-  send(message: WebSocketMessage) {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message))
-    } else {
-      console.error('WebSocket is not connected')
+  private setState(state: ConnectionState) {
+    if (this.state === state) return
+    this.state = state
+    this.stateListeners.forEach((listener) => listener(state))
+  }
+
+  private requestResync() {
+    this.resyncListeners.forEach((listener) => listener())
+  }
+
+  private transmit(message: ClientMessage) {
+    this.ws?.send(JSON.stringify(message))
+  }
+
+  private flushQueue() {
+    const pending = this.queue
+    this.queue = []
+    pending.forEach((message) => this.transmit(message))
+  }
+
+  // Messages sent while the socket is down are queued and delivered once it reopens
+  send(message: ClientMessage) {
+    if (this.state === 'open') {
+      this.transmit(message)
+      return
+    }
+    if (this.queue.length >= MAX_QUEUE_LENGTH) {
+      this.queue.shift()
     }
+    this.queue.push(message)
   }
 
-  on(messageType: string, callback: (data: WebSocketMessage) => void) {
+  // The room is joined now if connected, and again after every reconnect
+  subscribe(message: RoomSubscription) {
+    if (this.subscription?.room_id !== message.room_id) {
+      this.lastSeq = null
+    }
+    this.subscription = message
+    if (this.state === 'open') {
+      this.transmit(message)
+    }
+  }
+
+  on(messageType: string, callback: (data: ServerMessage) => void) {
     if (!this.listeners.has(messageType)) {
       this.listeners.set(messageType, new Set())
     }
     this.listeners.get(messageType)!.add(callback)
   }
 
-  off(messageType: string, callback: (data: WebSocketMessage) => void) {
+  off(messageType: string, callback: (data: ServerMessage) => void) {
     const listeners = this.listeners.get(messageType)
     if (listeners) {
       listeners.delete(callback)
     }
   }
 
+  onStateChange(callback: (state: ConnectionState) => void) {
+    this.stateListeners.add(callback)
+  }
+
+  // Called when the client may have missed room events and should refetch the game
+  onResync(callback: () => void) {
+    this.resyncListeners.add(callback)
+  }
+
   disconnect() {
+    this.clearReconnectTimer()
+    this.clearHandshakeTimer()
+    this.stopHeartbeat()
+    this.settleConnect(new Error('WebSocket disconnected'))
+    this.userId = null
+    this.subscription = null
+    this.lastSeq = null
+    this.queue = []
     if (this.ws) {
-      this.ws.close()
+      const ws = this.ws
       this.ws = null
+      ws.close()
     }
+    this.setState('idle')
     this.listeners.clear()
+    this.stateListeners.clear()
+    this.resyncListeners.clear()
+  }
+
+  getState(): ConnectionState {
+    return this.state
+  }
+
+  // User the server authenticated this socket as, while open
+  getUserId(): string | null {
+    return this.userId
   }
 
   isConnected(): boolean {
-    return this.ws !== null && this.ws.readyState === WebSocket.OPEN
+    return this.state === 'open'
   }
 }
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+
+import { authService } from '../../services/auth'
+import { ApiError } from '../../services/http'
+import router from '../../router'
+import { useAuthStore } from '../auth'
+import { useGameStore } from '../game'
+
+vi.mock('../../router', () => ({
+  default: {
+    push: vi.fn(),
+    currentRoute: { value: { meta: {} } },
+  },
+}))
+
+vi.mock('../../services/auth', async (importOriginal) => {
+  const { authService } = await importOriginal<typeof import('../../services/auth')>()
+  return {
+    authService: {
+      ...authService,
+      login: vi.fn(),
+      refresh: vi.fn(),
+      getCurrentUser: vi.fn(),
+    },
+  }
+})
+
+const MINUTE = 60 * 1000
+
+const jwt = (expiresInMs: number) =>
+  `header.${btoa(JSON.stringify({ exp: Math.floor((Date.now() + expiresInMs) / 1000) }))}.sig`
+
+const user = {
+  id: 'u1',
+  username: 'alice',
+  email: 'alice@example.com',
+  elo_rating: 1200,
+  avatar_url: null,
+  created_at: '',
+}
+
+describe('useAuthStore sessions', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.useFakeTimers()
+    localStorage.clear()
+    vi.mocked(authService.refresh).mockReset()
+    vi.mocked(authService.getCurrentUser).mockReset().mockResolvedValue(user)
+    vi.mocked(router.push).mockClear()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('refreshes the token shortly before it expires', async () => {
+    const next = jwt(30 * MINUTE)
+    vi.mocked(authService.refresh).mockResolvedValue({ access_token: next, token_type: 'bearer' })
+    localStorage.setItem('auth_token', jwt(10 * MINUTE))
+    const store = useAuthStore()
+    await store.initialize()
+
+    await vi.advanceTimersByTimeAsync(7 * MINUTE)
+    expect(authService.refresh).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1 * MINUTE)
+    expect(authService.refresh).toHaveBeenCalledTimes(1)
+    expect(store.token).toBe(next)
+    expect(store.sessionExpiring).toBe(false)
+  })
+
+  it('warns when the refresh fails and logs out once the token expires', async () => {
+    vi.mocked(authService.refresh).mockRejectedValue(new Error('server unreachable'))
+    localStorage.setItem('auth_token', jwt(10 * MINUTE))
+    const store = useAuthStore()
+    await store.initialize()
+
+    await vi.advanceTimersByTimeAsync(8 * MINUTE)
+    expect(store.sessionExpiring).toBe(true)
+    expect(store.isAuthenticated).toBe(true)
+
+    await vi.advanceTimersByTimeAsync(2 * MINUTE)
+    expect(store.isAuthenticated).toBe(false)
+    expect(router.push).toHaveBeenCalledWith('/login')
+  })
+
+  it('drops an already expired token without calling the API', async () => {
+    localStorage.setItem('auth_token', jwt(-MINUTE))
+    const store = useAuthStore()
+    await store.initialize()
+
+    expect(store.token).toBeNull()
+    expect(localStorage.getItem('auth_token')).toBeNull()
+    expect(authService.getCurrentUser).not.toHaveBeenCalled()
+  })
+
+  it('restores a stored session once, however many callers wait for it', async () => {
+    localStorage.setItem('auth_token', jwt(30 * MINUTE))
+    const store = useAuthStore()
+    store.initialize()
+    expect(store.token).not.toBeNull()
+    expect(store.isAuthenticated).toBe(false)
+
+    await store.initialize()
+    expect(store.isAuthenticated).toBe(true)
+    expect(authService.getCurrentUser).toHaveBeenCalledTimes(1)
+  })
+
+  it('stays signed in as the last known user while the API is unreachable', async () => {
+    localStorage.setItem('auth_token', jwt(30 * MINUTE))
+    await useAuthStore().initialize()
+    setActivePinia(createPinia())
+
+    vi.mocked(authService.getCurrentUser).mockRejectedValue(new ApiError(0, 'unreachable'))
+    const store = useAuthStore()
+    await store.initialize()
+    expect(store.isAuthenticated).toBe(true)
+    expect(store.username).toBe('alice')
+
+    vi.mocked(authService.getCurrentUser).mockResolvedValue({ ...user, elo_rating: 1250 })
+    window.dispatchEvent(new Event('online'))
+    await vi.waitFor(() => expect(store.user?.elo_rating).toBe(1250))
+  })
+
+  it('logs out and closes the game socket when another tab logs out', async () => {
+    localStorage.setItem('auth_token', jwt(30 * MINUTE))
+    const store = useAuthStore()
+    await store.initialize()
+    const disconnect = vi.spyOn(useGameStore(), 'disconnectWebSocket')
+
+    localStorage.removeItem('auth_token')
+    window.dispatchEvent(new StorageEvent('storage', { key: 'auth_token' }))
+
+    expect(store.isAuthenticated).toBe(false)
+    expect(disconnect).toHaveBeenCalled()
+    expect(router.push).toHaveBeenCalledWith('/login')
+  })
+
+  it('picks up a login from another tab', async () => {
+    const store = useAuthStore()
+    await store.initialize()
+    expect(store.isAuthenticated).toBe(false)
+
+    localStorage.setItem('auth_token', jwt(30 * MINUTE))
+    window.dispatchEvent(new StorageEvent('storage', { key: 'auth_token' }))
+    await vi.waitFor(() => expect(store.isAuthenticated).toBe(true))
+
+    expect(store.username).toBe('alice')
+  })
+})
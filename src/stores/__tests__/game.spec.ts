@@ -0,0 +1,804 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+
+import { api, type MoveResponse } from '../../services/api'
+import { gameCache, type GameSnapshot } from '../../services/gameCache'
+import { ApiError } from '../../services/http'
+import { useGameStore } from '../game'
+
+vi.mock('../../services/api', () => ({
+  api: {
+    makeMove: vi.fn(),
+    createGame: vi.fn(),
+    getMoves: vi.fn(),
+    getGame: vi.fn(),
+    getBoard: vi.fn(),
+    resign: vi.fn(),
+    offerDraw: vi.fn(),
+    claimTimeout: vi.fn(),
+  },
+  NO_TIME_CONTROL: { kind: 'none' },
+}))
+
+const startGame = () => {
+  const store = useGameStore()
+  store.currentGame = {
+    id: 'g1',
+    player_x_id: 'p1',
+    player_o_id: 'p2',
+    status: 'ongoing',
+    variant: 'classic',
+    board_size: 3,
+    win_length: 3,
+    created_at: '',
+  }
+  store.myPlayerId = 'p1'
+  store.mySymbol = 'X'
+  store.gameStatus = 'ongoing'
+  store.currentPlayer = 'X'
+  return store
+}
+
+describe('useGameStore.makeMove', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.mocked(api.makeMove).mockReset()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('applies the move before the server answers', async () => {
+    let resolve!: (response: MoveResponse) => void
+    vi.mocked(api.makeMove).mockReturnValue(new Promise((r) => (resolve = r)))
+    const store = startGame()
+
+    const pending = store.makeMove(1, 1)
+    expect(store.board[1]![1]).toBe('X')
+    expect(store.currentPlayer).toBe('O')
+    expect(store.canMakeMove).toBe(false)
+    expect(api.makeMove).toHaveBeenCalledWith('g1', 'p1', '1,1')
+
+    resolve({
+      message: 'ok',
+      move_id: 'm1',
+      position: '1,1',
+      symbol: 'X',
+      variant: 'classic',
+      board: [
+        [null, null, null],
+        [null, 'X', null],
+        [null, null, null],
+      ],
+      winner: null,
+      game_status: 'ongoing',
+      next_turn: 'O',
+    })
+    await pending
+    expect(store.pendingMove).toBeNull()
+    expect(store.currentPlayer).toBe('O')
+    expect(store.moves).toHaveLength(1)
+    expect(store.moves[0]).toMatchObject({ move_id: 'm1', position: '1,1', symbol: 'X' })
+  })
+
+  it('rolls back when the server rejects the move', async () => {
+    vi.mocked(api.makeMove).mockRejectedValue(new Error('Not your turn'))
+    const store = startGame()
+
+    await expect(store.makeMove(0, 2)).rejects.toThrow('Not your turn')
+    expect(store.board[0]![2]).toBeNull()
+    expect(store.moves).toEqual([])
+    expect(store.currentPlayer).toBe('X')
+    expect(store.gameStatus).toBe('ongoing')
+    expect(store.pendingMove).toBeNull()
+  })
+
+  it('rejects an occupied cell without calling the server', async () => {
+    const store = startGame()
+    store.board[0]![0] = 'O'
+
+    await expect(store.makeMove(0, 0)).rejects.toThrow('That cell is not available')
+    expect(api.makeMove).not.toHaveBeenCalled()
+  })
+
+  it('marks the game finished when the local move wins', () => {
+    vi.mocked(api.makeMove).mockReturnValue(new Promise(() => {}))
+    const store = startGame()
+    store.board = [
+      ['X', 'X', null],
+      ['O', 'O', null],
+      [null, null, null],
+    ]
+
+    store.makeMove(0, 2)
+    expect(store.winner).toBe('X')
+    expect(store.gameStatus).toBe('finished')
+    expect(store.winningLine).toHaveLength(3)
+  })
+})
+
+describe('useGameStore computer games', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.mocked(api.makeMove).mockReset()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('answers the player move without calling the server', async () => {
+    const store = useGameStore()
+    store.startComputerGame('perfect', 'X')
+
+    await store.makeMove(0, 0)
+    expect(store.currentPlayer).toBe('O')
+    expect(store.computerThinking).toBe(true)
+
+    vi.runAllTimers()
+    expect(store.board[1]![1]).toBe('O')
+    expect(store.currentPlayer).toBe('X')
+    expect(api.makeMove).not.toHaveBeenCalled()
+  })
+
+  it('lets the computer open when the player picks O', () => {
+    const store = useGameStore()
+    store.startComputerGame('random', 'O')
+    expect(store.canMakeMove).toBe(false)
+
+    vi.runAllTimers()
+    expect(store.board.flat().filter((cell) => cell === 'X')).toHaveLength(1)
+    expect(store.canMakeMove).toBe(true)
+  })
+
+  it('cancels a scheduled computer move on reset', () => {
+    const store = useGameStore()
+    store.startComputerGame('random', 'O')
+    store.reset()
+
+    vi.runAllTimers()
+    expect(store.board.flat().every((cell) => cell === null)).toBe(true)
+    expect(store.source).toBe('remote')
+  })
+})
+
+describe('useGameStore local games', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.mocked(api.makeMove).mockReset()
+  })
+
+  it('alternates X and O on the same device', async () => {
+    const store = useGameStore()
+    store.startLocalGame()
+
+    expect(store.canMakeMove).toBe(true)
+    await store.makeMove(0, 0)
+    expect(store.board[0]![0]).toBe('X')
+    expect(store.currentPlayer).toBe('O')
+    expect(store.canMakeMove).toBe(true)
+    await store.makeMove(1, 1)
+    expect(store.board[1]![1]).toBe('O')
+    expect(api.makeMove).not.toHaveBeenCalled()
+  })
+
+  it('keeps the score across rounds until reset', async () => {
+    const store = useGameStore()
+    store.startLocalGame()
+    for (const [row, col] of [
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1],
+      [0, 2],
+    ] as const) {
+      await store.makeMove(row, col)
+    }
+    expect(store.winner).toBe('X')
+    expect(store.score).toEqual({ X: 1, O: 0, draws: 0 })
+
+    store.startLocalGame()
+    expect(store.board.flat().every((cell) => cell === null)).toBe(true)
+    expect(store.score.X).toBe(1)
+
+    store.resetScore()
+    expect(store.score).toEqual({ X: 0, O: 0, draws: 0 })
+  })
+})
+
+describe('useGameStore board settings', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.mocked(api.createGame).mockReset()
+  })
+
+  it('sends the settings and sizes the board from the created game', async () => {
+    vi.mocked(api.createGame).mockResolvedValue({
+      id: 'g2',
+      player_x_id: 'p1',
+      player_o_id: null,
+      status: 'waiting',
+      variant: 'classic',
+      board_size: 15,
+      win_length: 5,
+      created_at: '',
+    })
+    const store = useGameStore()
+
+    await store.createGame('p1', { boardSize: 15, winLength: 5 })
+    expect(api.createGame).toHaveBeenCalledWith(
+      'p1',
+      { boardSize: 15, winLength: 5 },
+      'classic',
+      { kind: 'none' },
+    )
+    expect(store.board).toHaveLength(15)
+    expect(store.settings).toEqual({ boardSize: 15, winLength: 5 })
+  })
+
+  it('rejects out-of-range settings before calling the server', async () => {
+    const store = useGameStore()
+    await expect(store.createGame('p1', { boardSize: 20, winLength: 5 })).rejects.toThrow(
+      'Board size must be between 3 and 15',
+    )
+    expect(api.createGame).not.toHaveBeenCalled()
+  })
+
+  it('uses the win length in local games', async () => {
+    const store = useGameStore()
+    store.startLocalGame({ boardSize: 5, winLength: 4 })
+    for (const [row, col] of [
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1],
+      [0, 2],
+      [1, 2],
+    ] as const) {
+      await store.makeMove(row, col)
+    }
+    expect(store.winner).toBeNull()
+    await store.makeMove(0, 3)
+    expect(store.winner).toBe('X')
+    expect(store.winningLine).toHaveLength(4)
+  })
+})
+
+describe('useGameStore ultimate games', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.mocked(api.makeMove).mockReset()
+  })
+
+  it('plays nested moves in a local game', async () => {
+    const store = useGameStore()
+    store.startLocalGame(undefined, 'ultimate')
+    expect(store.variant).toBe('ultimate')
+
+    await store.makeUltimateMove({ boardRow: 0, boardCol: 0, row: 1, col: 2 })
+    expect(store.ultimate.boards[0]![0]![1]![2]).toBe('X')
+    expect(store.playableBoards).toEqual([{ row: 1, col: 2 }])
+    expect(store.currentPlayer).toBe('O')
+
+    await expect(
+      store.makeUltimateMove({ boardRow: 0, boardCol: 0, row: 0, col: 0 }),
+    ).rejects.toThrow('That cell is not available')
+  })
+
+  it('posts nested positions and rolls back a rejected remote move', async () => {
+    vi.mocked(api.makeMove).mockRejectedValue(new Error('Wrong sub-board'))
+    const store = startGame()
+    store.variant = 'ultimate'
+
+    await expect(
+      store.makeUltimateMove({ boardRow: 2, boardCol: 1, row: 0, col: 0 }),
+    ).rejects.toThrow('Wrong sub-board')
+    expect(api.makeMove).toHaveBeenCalledWith('g1', 'p1', '2,1,0,0')
+    expect(store.ultimate.boards[2]![1]![0]![0]).toBeNull()
+    expect(store.ultimate.activeBoard).toBeNull()
+  })
+})
+
+describe('useGameStore move history', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('appends new moves in order', () => {
+    const store = useGameStore()
+    store.recordMove({
+      move_id: null,
+      player_id: null,
+      position: '0,0',
+      symbol: 'X',
+      created_at: null,
+    })
+    store.recordMove({
+      move_id: null,
+      player_id: null,
+      position: '1,1',
+      symbol: 'O',
+      created_at: null,
+    })
+
+    expect(store.moves.map((move) => move.position)).toEqual(['0,0', '1,1'])
+  })
+
+  it('merges a broadcast of a move that is already recorded', () => {
+    const store = useGameStore()
+    store.recordMove({
+      move_id: 'm1',
+      player_id: 'p1',
+      position: '0,0',
+      symbol: 'X',
+      created_at: '2024-01-01T00:00:00Z',
+    })
+    store.recordMove({
+      move_id: null,
+      player_id: 'p1',
+      position: '0,0',
+      symbol: 'X',
+      created_at: null,
+    })
+
+    expect(store.moves).toHaveLength(1)
+    expect(store.moves[0]).toMatchObject({ move_id: 'm1', created_at: '2024-01-01T00:00:00Z' })
+  })
+
+  it('clears the history when a new local game starts', () => {
+    const store = useGameStore()
+    store.startLocalGame()
+    store.makeMove(0, 0)
+    expect(store.moves).toHaveLength(1)
+
+    store.startLocalGame()
+    expect(store.moves).toEqual([])
+  })
+})
+
+describe('useGameStore resync', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('replaces board, history and turn with the server copy', async () => {
+    const store = startGame()
+    vi.mocked(api.getGame).mockResolvedValue({ ...store.currentGame!, status: 'ongoing' })
+    vi.mocked(api.getBoard).mockResolvedValue({
+      variant: 'classic',
+      board: [
+        ['X', null, null],
+        [null, 'O', null],
+        [null, null, 'X'],
+      ],
+      winner: null,
+    })
+    vi.mocked(api.getMoves).mockResolvedValue([
+      { move_id: 'm1', player_id: 'p1', position: '0,0', symbol: 'X', created_at: null },
+      { move_id: 'm2', player_id: 'p2', position: '1,1', symbol: 'O', created_at: null },
+      { move_id: 'm3', player_id: 'p1', position: '2,2', symbol: 'X', created_at: null },
+    ])
+
+    await store.resyncGame()
+
+    expect(store.board[2]![2]).toBe('X')
+    expect(store.moves).toHaveLength(3)
+    expect(store.currentPlayer).toBe('O')
+    expect(store.isMyTurn).toBe(false)
+  })
+
+  it('shares one fetch between overlapping resyncs', async () => {
+    const store = startGame()
+    vi.mocked(api.getGame).mockClear().mockResolvedValue(store.currentGame!)
+    vi.mocked(api.getBoard).mockResolvedValue({
+      variant: 'classic',
+      board: [
+        [null, null, null],
+        [null, null, null],
+        [null, null, null],
+      ],
+      winner: null,
+    })
+    vi.mocked(api.getMoves).mockResolvedValue([])
+
+    await Promise.all([store.resyncGame(), store.resyncGame()])
+
+    expect(api.getGame).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('useGameStore offline play', () => {
+  const emptyBoard = () => ({
+    variant: 'classic' as const,
+    board: [
+      [null, null, null],
+      [null, null, null],
+      [null, null, null],
+    ],
+    winner: null,
+  })
+
+  const moveResponse: MoveResponse = {
+    message: 'ok',
+    move_id: 'm1',
+    position: '1,1',
+    symbol: 'X',
+    variant: 'classic',
+    board: [
+      [null, null, null],
+      [null, 'X', null],
+      [null, null, null],
+    ],
+    winner: null,
+    game_status: 'ongoing',
+    next_turn: 'O',
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.mocked(api.makeMove).mockReset()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    // Stops any retry still scheduled
+    useGameStore().reset()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('keeps a move the network dropped and delivers it after a reconnect', async () => {
+    vi.mocked(api.makeMove).mockRejectedValueOnce(new ApiError(0, 'Network error'))
+    const store = startGame()
+
+    await expect(store.makeMove(1, 1)).resolves.toBeNull()
+    expect(store.board[1]![1]).toBe('X')
+    expect(store.unsentMove).toEqual({ row: 1, col: 1 })
+    expect(store.canMakeMove).toBe(false)
+
+    vi.mocked(api.getGame).mockResolvedValue(store.currentGame!)
+    vi.mocked(api.getBoard).mockResolvedValue(emptyBoard())
+    vi.mocked(api.getMoves).mockResolvedValue([])
+    vi.mocked(api.makeMove).mockResolvedValueOnce(moveResponse)
+    await store.resyncGame()
+
+    expect(api.makeMove).toHaveBeenCalledTimes(2)
+    expect(store.unsentMove).toBeNull()
+    expect(store.board[1]![1]).toBe('X')
+    expect(store.moves[0]).toMatchObject({ move_id: 'm1' })
+  })
+
+  it('drops the unsent move when the server received it after all', async () => {
+    vi.mocked(api.makeMove).mockRejectedValueOnce(new ApiError(0, 'Network error'))
+    const store = startGame()
+    await store.makeMove(1, 1)
+
+    vi.mocked(api.getGame).mockResolvedValue(store.currentGame!)
+    vi.mocked(api.getBoard).mockResolvedValue({ ...emptyBoard(), board: moveResponse.board })
+    vi.mocked(api.getMoves).mockResolvedValue([
+      { move_id: 'm1', player_id: 'p1', position: '1,1', symbol: 'X', created_at: null },
+    ])
+    await store.resyncGame()
+
+    expect(api.makeMove).toHaveBeenCalledTimes(1)
+    expect(store.unsentMove).toBeNull()
+    expect(store.currentPlayer).toBe('O')
+  })
+
+  it('keeps retrying a dropped move, waiting longer each time', async () => {
+    vi.useFakeTimers()
+    vi.mocked(api.getGame).mockReset()
+    vi.mocked(api.makeMove).mockRejectedValue(new ApiError(0, 'Network error'))
+    vi.mocked(api.getGame).mockRejectedValueOnce(new ApiError(0, 'Network error'))
+    const store = startGame()
+    await store.makeMove(1, 1)
+
+    // The first retry cannot reach the server at all, the second still cannot send the move
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(api.getGame).toHaveBeenCalledTimes(1)
+    vi.mocked(api.getGame).mockResolvedValue(store.currentGame!)
+    vi.mocked(api.getBoard).mockResolvedValue(emptyBoard())
+    vi.mocked(api.getMoves).mockResolvedValue([])
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(api.getGame).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(api.makeMove).toHaveBeenCalledTimes(2)
+    expect(store.unsentMove).toEqual({ row: 1, col: 1 })
+
+    vi.mocked(api.makeMove).mockResolvedValueOnce(moveResponse)
+    await vi.advanceTimersByTimeAsync(4000)
+    expect(api.makeMove).toHaveBeenCalledTimes(3)
+    expect(store.unsentMove).toBeNull()
+    expect(store.moves[0]).toMatchObject({ move_id: 'm1' })
+  })
+
+  it('restores a game saved on this device', async () => {
+    const store = useGameStore()
+    const snapshot: GameSnapshot = {
+      version: 1,
+      savedAt: Date.now(),
+      game: {
+        id: 'g1',
+        player_x_id: 'p1',
+        player_o_id: 'p2',
+        status: 'ongoing',
+        variant: 'classic',
+        board_size: 3,
+        win_length: 3,
+        created_at: '',
+      },
+      myPlayerId: 'p1',
+      mySymbol: 'X',
+      board: moveResponse.board,
+      ultimate: store.ultimate,
+      moves: [{ move_id: null, player_id: 'p1', position: '1,1', symbol: 'X', created_at: null }],
+      currentPlayer: 'O',
+      winner: null,
+      gameStatus: 'ongoing',
+      unsentMove: { row: 1, col: 1 },
+    }
+    vi.spyOn(gameCache, 'load').mockResolvedValue(snapshot)
+
+    expect(await store.restoreGame('g1', 'p2')).toBe(false)
+    expect(await store.restoreGame('g1', 'p1')).toBe(true)
+    expect(store.board[1]![1]).toBe('X')
+    expect(store.mySymbol).toBe('X')
+    expect(store.playerOId).toBe('p2')
+    expect(store.unsentMove).toEqual({ row: 1, col: 1 })
+  })
+})
+
+describe('useGameStore spectating', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('loads a game in progress from the spectator snapshot', () => {
+    const store = useGameStore()
+    store.spectateRoom('g1')
+
+    store.applySnapshot({
+      type: 'spectator_snapshot',
+      room_id: 'g1',
+      game: {
+        id: 'g1',
+        player_x_id: 'p1',
+        player_o_id: 'p2',
+        status: 'ongoing',
+        variant: 'classic',
+        board_size: 3,
+        win_length: 3,
+        created_at: '',
+      },
+      variant: 'classic',
+      board: [
+        ['X', null, null],
+        [null, 'O', null],
+        [null, null, null],
+      ],
+      moves: [
+        { move_id: 'm1', player_id: 'p1', position: '0,0', symbol: 'X', created_at: null },
+        { move_id: 'm2', player_id: 'p2', position: '1,1', symbol: 'O', created_at: null },
+      ],
+      winner: null,
+      players: 2,
+      spectators: 3,
+    })
+
+    expect(store.playerXId).toBe('p1')
+    expect(store.board[1]![1]).toBe('O')
+    expect(store.moves).toHaveLength(2)
+    expect(store.currentPlayer).toBe('X')
+    expect(store.spectatorCount).toBe(3)
+    expect(store.mySymbol).toBeNull()
+    expect(store.canMakeMove).toBe(false)
+  })
+
+  it('forgets the spectator role on reset', () => {
+    const store = useGameStore()
+    store.spectateRoom('g1')
+    store.reset()
+    expect(store.spectating).toBe(false)
+  })
+})
+
+describe('useGameStore chat', () => {
+  const chatFrom = (sender: string, text: string, id = text) => ({
+    type: 'chat_message' as const,
+    room_id: 'g1',
+    message_id: id,
+    sender_id: sender,
+    username: sender,
+    sent_at: '2024-01-01T10:00:00Z',
+    text,
+  })
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('counts unread messages from others while the chat is closed', () => {
+    const store = startGame()
+    store.receiveChat(chatFrom('p2', 'hi'))
+    store.receiveChat(chatFrom('p1', 'hello'))
+    store.receiveChat(chatFrom('p2', 'hi', 'hi'))
+
+    expect(store.chatHistory).toHaveLength(2)
+    expect(store.unreadChat).toBe(1)
+    store.setChatOpen(true)
+    expect(store.unreadChat).toBe(0)
+  })
+
+  it('hides a muted opponent and filters profanity when enabled', () => {
+    const store = startGame()
+    store.playerXId = 'p1'
+    store.playerOId = 'p2'
+    store.receiveChat(chatFrom('p2', 'oh crap'))
+    expect(store.visibleChat[0]).toMatchObject({ text: 'oh ****' })
+
+    store.profanityFilter = false
+    expect(store.visibleChat[0]).toMatchObject({ text: 'oh crap' })
+
+    store.opponentMuted = true
+    expect(store.visibleChat).toHaveLength(0)
+  })
+
+  it('rejects over-long messages before touching the socket', () => {
+    const store = startGame()
+    expect(() => store.sendChat('x'.repeat(500))).toThrow(/limited to 200/)
+  })
+})
+
+describe('useGameStore rematch', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  const nextGame = {
+    id: 'g2',
+    player_x_id: 'p2',
+    player_o_id: 'p1',
+    status: 'waiting' as const,
+    variant: 'classic' as const,
+    board_size: 3,
+    win_length: 3,
+    created_at: '',
+  }
+
+  it('tracks an offer from the opponent and ignores the echo of our own', () => {
+    const store = startGame()
+    store.handleRematch({ type: 'rematch_offer', room_id: 'g1', from_id: 'p1', best_of: 3 })
+    expect(store.rematch.status).toBe('none')
+
+    store.handleRematch({ type: 'rematch_offer', room_id: 'g1', from_id: 'p2', best_of: 5 })
+    expect(store.rematch).toEqual({ status: 'received', bestOf: 5 })
+
+    store.handleRematch({ type: 'rematch_decline', room_id: 'g1', from_id: 'p1' })
+    expect(store.rematch.status).toBe('none')
+  })
+
+  it('moves on to the accepted game and keeps the series score', () => {
+    const store = startGame()
+    const series = { id: 's1', best_of: 3, games: [{ game_id: 'g1', winner_id: 'p1' }] }
+    store.handleRematch({
+      type: 'rematch_accept',
+      room_id: 'g1',
+      from_id: 'p2',
+      game: nextGame,
+      series,
+    })
+
+    expect(store.nextGame?.id).toBe('g2')
+    expect(store.beginNextGame()).toBe('g2')
+    expect(store.currentGame).toBeNull()
+    expect(store.nextGame).toBeNull()
+    expect(store.series).toEqual(series)
+    expect(store.seriesTally?.wins).toEqual({ p1: 1 })
+  })
+
+  it('counts the finished game before the server records it', () => {
+    const store = startGame()
+    store.playerXId = 'p1'
+    store.playerOId = 'p2'
+    store.series = { id: 's1', best_of: 1, games: [] }
+    store.winner = 'O'
+
+    expect(store.seriesTally?.wins).toEqual({ p2: 1 })
+    expect(store.seriesOver).toBe(true)
+  })
+})
+
+describe('useGameStore clocks and endings', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T10:00:00Z'))
+    vi.mocked(api.claimTimeout).mockReset()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const boardWithClock = (turn: 'X' | 'O') => ({
+    variant: 'classic' as const,
+    board: [
+      ['X', null, null],
+      [null, null, null],
+      [null, null, null],
+    ] as ('X' | 'O' | null)[][],
+    winner: null,
+    clock: {
+      x_remaining_ms: 60000,
+      o_remaining_ms: 5000,
+      turn,
+      running_since: '2024-01-01T10:00:00Z',
+      server_time: '2024-01-01T10:00:00Z',
+    },
+  })
+
+  it('claims the game once the opponent runs out of time', async () => {
+    const store = startGame()
+    vi.mocked(api.getGame).mockResolvedValue(store.currentGame!)
+    vi.mocked(api.getBoard).mockResolvedValue(boardWithClock('O'))
+    vi.mocked(api.getMoves).mockResolvedValue([])
+    vi.mocked(api.claimTimeout).mockResolvedValue({
+      game_id: 'g1',
+      winner: 'X',
+      end_reason: 'timeout',
+    })
+
+    await store.resyncGame()
+    expect(store.clock?.turn).toBe('O')
+
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(api.claimTimeout).not.toHaveBeenCalled()
+    await vi.advanceTimersByTimeAsync(500)
+    expect(api.claimTimeout).toHaveBeenCalledWith('g1', 'p1')
+    expect(store.winner).toBe('X')
+    expect(store.endReason).toBe('timeout')
+    expect(store.gameStatus).toBe('finished')
+  })
+
+  it('does not claim against its own clock', async () => {
+    const store = startGame()
+    vi.mocked(api.getGame).mockResolvedValue(store.currentGame!)
+    vi.mocked(api.getBoard).mockResolvedValue(boardWithClock('X'))
+    vi.mocked(api.getMoves).mockResolvedValue([])
+
+    await store.resyncGame()
+    await vi.advanceTimersByTimeAsync(120000)
+
+    expect(api.claimTimeout).not.toHaveBeenCalled()
+  })
+
+  it('records a resignation as the opponent winning', async () => {
+    const store = startGame()
+    vi.mocked(api.resign).mockResolvedValue({
+      game_id: 'g1',
+      winner: 'O',
+      end_reason: 'resignation',
+    })
+
+    await store.resign()
+
+    expect(api.resign).toHaveBeenCalledWith('g1', 'p1')
+    expect(store.winner).toBe('O')
+    expect(store.endReason).toBe('resignation')
+    expect(store.canMakeMove).toBe(false)
+  })
+
+  it('marks a draw offer as pending until it is answered', async () => {
+    const store = startGame()
+    vi.mocked(api.offerDraw).mockResolvedValue(undefined)
+
+    await store.offerDraw()
+
+    expect(store.drawOffer).toBe('offered')
+  })
+
+  it('refuses to resign a game that is already over', async () => {
+    const store = startGame()
+    store.gameStatus = 'finished'
+    await expect(store.resign()).rejects.toThrow('The game is not in progress')
+  })
+})
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+
+import { FakeBackend } from '../../fakeBackend/backend'
+import { createFakeFetch, createFakeWebSocket } from '../../fakeBackend/doubles'
+import { api } from '../../services/api'
+import { GameWebSocket, type ServerMessage } from '../../services/websocket'
+import { useAuthStore } from '../auth'
+import { useGameStore } from '../game'
+
+// The real stores, HTTP client and socket, talking to the in-memory backend
+
+vi.mock('../../router', () => ({
+  default: {
+    push: vi.fn(),
+    currentRoute: { value: { meta: {}, query: {} } },
+  },
+}))
+
+let backend: FakeBackend
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+  localStorage.clear()
+  backend = new FakeBackend()
+  vi.stubGlobal('fetch', createFakeFetch(backend))
+  vi.stubGlobal('WebSocket', createFakeWebSocket(backend))
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  useGameStore().disconnectWebSocket()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('useAuthStore against the fake backend', () => {
+  it('signs up, which also logs in', async () => {
+    const store = useAuthStore()
+    await store.signup({ username: 'alice', email: 'alice@example.com', password: 'Secret123' })
+
+    expect(store.isAuthenticated).toBe(true)
+    expect(store.username).toBe('alice')
+    expect(store.expiresAt).toBeGreaterThan(Date.now())
+    expect(localStorage.getItem('auth_token')).toBe(store.token)
+  })
+
+  it('surfaces the server’s reasons for a failed signup or login', async () => {
+    backend.addUser({ username: 'alice', password: 'Secret123' })
+    const store = useAuthStore()
+
+    await expect(
+      store.signup({ username: 'alice', email: 'other@example.com', password: 'Secret123' }),
+    ).rejects.toThrow('Username already registered')
+    await expect(store.login({ username: 'alice', password: 'wrong' })).rejects.toThrow(
+      'Incorrect username or password',
+    )
+    expect(store.error).toBe('Incorrect username or password')
+    expect(store.isAuthenticated).toBe(false)
+  })
+
+  it('restores a stored session and refreshes its token', async () => {
+    const { token } = backend.addUser({ username: 'alice', password: 'Secret123' })
+    localStorage.setItem('auth_token', token)
+    const store = useAuthStore()
+
+    await store.initialize()
+    expect(store.username).toBe('alice')
+
+    await store.refreshSession()
+    expect(store.token).not.toBe(token)
+    await store.fetchUser()
+    expect(store.username).toBe('alice')
+  })
+})
+
+describe('useGameStore against the fake backend', () => {
+  const setUp = async () => {
+    const alice = backend.addUser({ username: 'alice', password: 'Secret123' })
+    const bob = backend.addUser({ username: 'bob', password: 'Secret123' })
+    localStorage.setItem('auth_token', alice.token)
+
+    const store = useGameStore()
+    const game = await store.createGame(alice.user.id)
+    await store.connectWebSocket()
+    store.createRoom(game.id)
+    await vi.waitFor(() => expect(store.playersInRoom).toBe(1))
+
+    // Bob plays from his own socket and calls the backend directly
+    const call = (path: string, body: unknown) =>
+      backend.handle({ method: 'POST', path: `/games/${game.id}${path}`, token: bob.token, body })
+    const bobSocket = new GameWebSocket(undefined, () => bob.token)
+    const bobMessages: ServerMessage[] = []
+    bobSocket.on('move_made', (message) => bobMessages.push(message))
+    call('/join', { player_o_id: bob.user.id })
+    await bobSocket.connect()
+    bobSocket.subscribe({ type: 'join_room', room_id: game.id })
+
+    const bobMoves = (position: string) => call('/move', { player_id: bob.user.id, position })
+    return { store, game, alice, bob, bobSocket, bobMessages, bobMoves }
+  }
+
+  it('plays a whole game over REST and the socket', async () => {
+    const { store, game, alice, bobSocket, bobMessages, bobMoves } = await setUp()
+
+    await vi.waitFor(() => expect(store.playersInRoom).toBe(2))
+    expect(store.gameStatus).toBe('ongoing')
+    expect(store.canMakeMove).toBe(true)
+
+    await store.makeMove(0, 0)
+    await vi.waitFor(() => expect(bobMessages).toHaveLength(1))
+    bobMoves('1,1')
+    await vi.waitFor(() => expect(store.board[1]![1]).toBe('O'))
+    expect(store.isMyTurn).toBe(true)
+
+    await store.makeMove(0, 1)
+    bobMoves('2,2')
+    await vi.waitFor(() => expect(store.canMakeMove).toBe(true))
+    await store.makeMove(0, 2)
+
+    expect(store.winner).toBe('X')
+    expect(store.gameStatus).toBe('finished')
+    expect(store.moves.map((move) => move.position)).toEqual(['0,0', '1,1', '0,1', '2,2', '0,2'])
+    const finished = await api.getGame(game.id)
+    expect(finished.rating_changes?.x).toBeGreaterThan(0)
+    expect((await api.getProfile(alice.user.id)).elo_rating).toBeGreaterThan(1200)
+    bobSocket.disconnect()
+  })
+
+  it('catches up on moves made while its socket was down', async () => {
+    const { store, bobSocket, bobMoves } = await setUp()
+    await vi.waitFor(() => expect(store.gameStatus).toBe('ongoing'))
+    await store.makeMove(0, 0)
+
+    backend.disconnectAll()
+    await vi.waitFor(() => expect(store.connectionState).toBe('reconnecting'))
+    bobMoves('1,1')
+    expect(store.board[1]![1]).toBeNull()
+
+    await store.reconnectWebSocket()
+    await vi.waitFor(() => expect(store.board[1]![1]).toBe('O'))
+    expect(store.isConnected).toBe(true)
+    expect(store.canMakeMove).toBe(true)
+    bobSocket.disconnect()
+  })
+
+  // The first move request fails as if the network dropped. With `reachServer` it still arrives,
+  // but only after the client gave up on it, like a request that timed out.
+  const dropMoveRequests = (reachServer: boolean) => {
+    const fakeFetch = createFakeFetch(backend)
+    let dropping = true
+    vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (!dropping || !String(input).endsWith('/move')) return fakeFetch(input, init)
+      dropping = false
+      if (reachServer) setTimeout(() => fakeFetch(input, { ...init, signal: undefined }), 10)
+      throw new TypeError('Failed to fetch')
+    })
+  }
+
+  it('clears a dropped move once the open socket shows the server got it', async () => {
+    const { store, bobSocket, bobMoves } = await setUp()
+    await vi.waitFor(() => expect(store.gameStatus).toBe('ongoing'))
+    dropMoveRequests(true)
+
+    await store.makeMove(0, 0)
+    expect(store.unsentMove).toEqual({ row: 0, col: 0 })
+    expect(store.canMakeMove).toBe(false)
+    await vi.waitFor(() => expect(store.unsentMove).toBeNull())
+    bobMoves('1,1')
+    await vi.waitFor(() => expect(store.board[1]![1]).toBe('O'))
+    expect(store.isConnected).toBe(true)
+    expect(store.canMakeMove).toBe(true)
+    await store.makeMove(0, 1)
+    expect(store.moves.map((move) => move.position)).toEqual(['0,0', '1,1', '0,1'])
+    bobSocket.disconnect()
+  })
+
+  it('sends a dropped move again once the browser is back online', async () => {
+    const { store, game, bobSocket } = await setUp()
+    await vi.waitFor(() => expect(store.gameStatus).toBe('ongoing'))
+    dropMoveRequests(false)
+
+    await store.makeMove(0, 0)
+    expect(store.unsentMove).toEqual({ row: 0, col: 0 })
+    window.dispatchEvent(new Event('online'))
+
+    await vi.waitFor(() => expect(store.unsentMove).toBeNull())
+    expect((await api.getMoves(game.id)).map((move) => move.position)).toEqual(['0,0'])
+    expect(store.isMyTurn).toBe(false)
+    bobSocket.disconnect()
+  })
+
+  it('ends the game when the opponent resigns', async () => {
+    const { store, bob, game, bobSocket } = await setUp()
+    await vi.waitFor(() => expect(store.gameStatus).toBe('ongoing'))
+
+    backend.handle({
+      method: 'POST',
+      path: `/games/${game.id}/resign`,
+      token: bob.token,
+      body: { player_id: bob.user.id },
+    })
+
+    await vi.waitFor(() => expect(store.gameStatus).toBe('finished'))
+    expect(store.winner).toBe('X')
+    expect(store.endReason).toBe('resignation')
+    bobSocket.disconnect()
+  })
+})
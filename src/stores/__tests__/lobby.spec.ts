@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+
+import { useLobbyStore, LOBBY_PAGE_SIZE } from '../lobby'
+import { useAuthStore } from '../auth'
+import { api, type LobbyEntry } from '../../services/api'
+import type { ClientMessage, ServerMessage } from '../../services/websocket'
+
+// Hoisted so the module mock below can use it
+const { FakeGameWebSocket, sockets } = vi.hoisted(() => {
+  const sockets: InstanceType<typeof FakeGameWebSocket>[] = []
+
+  class FakeGameWebSocket {
+    sent: ClientMessage[] = []
+    disconnected = false
+    listeners = new Map<string, (message: ServerMessage) => void>()
+    resync: (() => void) | null = null
+
+    constructor() {
+      sockets.push(this)
+    }
+
+    connect() {
+      return Promise.resolve()
+    }
+
+    send(message: ClientMessage) {
+      this.sent.push(message)
+    }
+
+    on(type: string, listener: (message: ServerMessage) => void) {
+      this.listeners.set(type, listener)
+    }
+
+    onResync(listener: () => void) {
+      this.resync = listener
+    }
+
+    disconnect() {
+      this.disconnected = true
+    }
+
+    receive(message: ServerMessage) {
+      this.listeners.get(message.type)?.(message)
+    }
+  }
+
+  return { FakeGameWebSocket, sockets }
+})
+
+vi.mock('../../services/websocket', () => ({ GameWebSocket: FakeGameWebSocket }))
+
+vi.mock('../../services/api', () => ({
+  api: { listGames: vi.fn() },
+}))
+
+vi.mock('../../router', () => ({ default: { push: vi.fn() } }))
+
+const entry = (id: string, rating = 1200, variant: 'classic' | 'ultimate' = 'classic') =>
+  ({
+    game: {
+      id,
+      player_x_id: `creator-${id}`,
+      player_o_id: null,
+      status: 'waiting',
+      variant,
+      board_size: 3,
+      win_length: 3,
+      created_at: '2024-01-01T12:00:00Z',
+    },
+    creator: { id: `creator-${id}`, username: `player ${id}`, elo_rating: rating },
+  }) satisfies LobbyEntry
+
+const page = (items: LobbyEntry[], total = items.length, pageNumber = 1) => ({
+  items,
+  total,
+  page: pageNumber,
+  page_size: LOBBY_PAGE_SIZE,
+})
+
+describe('useLobbyStore', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    sockets.length = 0
+    vi.mocked(api.listGames).mockReset()
+  })
+
+  it('subscribes to live updates and loads the first page', async () => {
+    vi.mocked(api.listGames).mockResolvedValue(page([entry('g1')], 1))
+    const store = useLobbyStore()
+
+    await store.open()
+
+    expect(sockets[0]!.sent).toEqual([{ type: 'lobby_subscribe' }])
+    expect(api.listGames).toHaveBeenCalledWith(
+      { page: 1, pageSize: LOBBY_PAGE_SIZE },
+      expect.objectContaining({ signal: expect.any(AbortSignal) }),
+    )
+    expect(store.entries.map((e) => e.game.id)).toEqual(['g1'])
+    expect(store.total).toBe(1)
+  })
+
+  it('adds announced games to the top of the first page', async () => {
+    vi.mocked(api.listGames).mockResolvedValue(page([entry('g1')], 1))
+    const store = useLobbyStore()
+    await store.open()
+
+    sockets[0]!.receive({ type: 'lobby_game_added', entry: entry('g2') })
+
+    expect(store.entries.map((e) => e.game.id)).toEqual(['g2', 'g1'])
+    expect(store.total).toBe(2)
+  })
+
+  it('ignores announced games that do not match the filter', async () => {
+    vi.mocked(api.listGames).mockResolvedValue(page([]))
+    const store = useLobbyStore()
+    await store.open()
+    await store.setFilter({ variant: 'ultimate', nearMyRating: false })
+
+    sockets[0]!.receive({ type: 'lobby_game_added', entry: entry('g2', 1200, 'classic') })
+
+    expect(store.entries).toEqual([])
+    expect(store.total).toBe(0)
+  })
+
+  it('only counts announced games while on a later page', async () => {
+    vi.mocked(api.listGames).mockResolvedValue(page([entry('g1')], 11, 2))
+    const store = useLobbyStore()
+    await store.open()
+    await store.fetchPage(2)
+
+    sockets[0]!.receive({ type: 'lobby_game_added', entry: entry('g2') })
+
+    expect(store.entries.map((e) => e.game.id)).toEqual(['g1'])
+    expect(store.total).toBe(12)
+  })
+
+  it('removes games that were taken or cancelled', async () => {
+    vi.mocked(api.listGames).mockResolvedValue(page([entry('g1'), entry('g2')]))
+    const store = useLobbyStore()
+    await store.open()
+
+    sockets[0]!.receive({ type: 'lobby_game_removed', game_id: 'g1' })
+
+    expect(store.entries.map((e) => e.game.id)).toEqual(['g2'])
+    expect(store.total).toBe(1)
+  })
+
+  it('limits the list to players near our rating', async () => {
+    useAuthStore().user = {
+      id: 'u1',
+      username: 'alice',
+      email: 'a@example.com',
+      elo_rating: 1500,
+      avatar_url: null,
+      created_at: '',
+    }
+    vi.mocked(api.listGames).mockResolvedValue(page([]))
+    const store = useLobbyStore()
+
+    await store.setFilter({ variant: null, nearMyRating: true })
+
+    expect(api.listGames).toHaveBeenLastCalledWith(
+      { page: 1, pageSize: LOBBY_PAGE_SIZE, minRating: 1300, maxRating: 1700 },
+      expect.anything(),
+    )
+  })
+
+  it('keeps only the latest of overlapping fetches', async () => {
+    let resolveFirst: (value: ReturnType<typeof page>) => void = () => {}
+    vi.mocked(api.listGames)
+      .mockReturnValueOnce(new Promise((resolve) => (resolveFirst = resolve)))
+      .mockResolvedValueOnce(page([entry('g2')], 1, 2))
+    const store = useLobbyStore()
+
+    const first = store.fetchPage(1)
+    await store.fetchPage(2)
+    resolveFirst(page([entry('g1')]))
+    await first
+
+    expect(store.page).toBe(2)
+    expect(store.entries.map((e) => e.game.id)).toEqual(['g2'])
+  })
+
+  it('reports failures to load', async () => {
+    vi.mocked(api.listGames).mockRejectedValue(new Error('Failed to list games'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const store = useLobbyStore()
+
+    await store.fetchPage(1)
+
+    expect(store.error).toBe('Failed to list games')
+    expect(store.loading).toBe(false)
+  })
+
+  it('subscribes again and refetches after a reconnect', async () => {
+    vi.mocked(api.listGames).mockResolvedValue(page([]))
+    const store = useLobbyStore()
+    await store.open()
+
+    sockets[0]!.resync!()
+
+    expect(sockets[0]!.sent).toEqual([{ type: 'lobby_subscribe' }, { type: 'lobby_subscribe' }])
+    expect(api.listGames).toHaveBeenCalledTimes(2)
+  })
+
+  it('unsubscribes and drops the socket on close', async () => {
+    vi.mocked(api.listGames).mockResolvedValue(page([]))
+    const store = useLobbyStore()
+    await store.open()
+
+    store.close()
+
+    expect(sockets[0]!.sent).toContainEqual({ type: 'lobby_unsubscribe' })
+    expect(sockets[0]!.disconnected).toBe(true)
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+
+import { useMatchmakingStore } from '../matchmaking'
+import { useAuthStore } from '../auth'
+import type { ClientMessage, ServerMessage } from '../../services/websocket'
+
+// Hoisted so the module mock below can use it
+const { FakeGameWebSocket, sockets } = vi.hoisted(() => {
+  const sockets: InstanceType<typeof FakeGameWebSocket>[] = []
+
+  class FakeGameWebSocket {
+    sent: ClientMessage[] = []
+    disconnected = false
+    listeners = new Map<string, (message: ServerMessage) => void>()
+    resync: (() => void) | null = null
+
+    constructor() {
+      sockets.push(this)
+    }
+
+    connect() {
+      return Promise.resolve()
+    }
+
+    send(message: ClientMessage) {
+      this.sent.push(message)
+    }
+
+    on(type: string, listener: (message: ServerMessage) => void) {
+      this.listeners.set(type, listener)
+    }
+
+    onResync(listener: () => void) {
+      this.resync = listener
+    }
+
+    disconnect() {
+      this.disconnected = true
+    }
+
+    receive(message: ServerMessage) {
+      this.listeners.get(message.type)?.(message)
+    }
+  }
+
+  return { FakeGameWebSocket, sockets }
+})
+
+vi.mock('../../services/websocket', () => ({ GameWebSocket: FakeGameWebSocket }))
+
+vi.mock('../../router', () => ({ default: { push: vi.fn() } }))
+
+const preferences = {
+  variant: 'classic' as const,
+  settings: { boardSize: 3, winLength: 3 },
+  timeControl: { kind: 'none' as const },
+}
+
+describe('useMatchmakingStore', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    sockets.length = 0
+  })
+
+  it('joins the queue with the player rating and chosen game', async () => {
+    useAuthStore().user = {
+      id: 'u1',
+      username: 'alice',
+      email: 'a@example.com',
+      elo_rating: 1432,
+      avatar_url: null,
+      created_at: '',
+    }
+    const store = useMatchmakingStore()
+
+    await store.joinQueue(preferences)
+
+    expect(store.state).toBe('searching')
+    expect(sockets[0]!.sent).toEqual([
+      {
+        type: 'queue_join',
+        rating: 1432,
+        variant: 'classic',
+        board_size: 3,
+        win_length: 3,
+        time_control: { kind: 'none' },
+      },
+    ])
+  })
+
+  it('follows the server status and rejoins after a reconnect', async () => {
+    const store = useMatchmakingStore()
+    await store.joinQueue(preferences)
+    const socket = sockets[0]!
+
+    socket.receive({
+      type: 'queue_status',
+      position: 2,
+      players_waiting: 5,
+      rating_window: 200,
+      waited_ms: 30000,
+    })
+    expect(store.status?.rating_window).toBe(200)
+    expect(Date.now() - store.joinedAt!).toBeGreaterThanOrEqual(30000)
+
+    socket.resync!()
+    expect(socket.sent.filter((message) => message.type === 'queue_join')).toHaveLength(2)
+  })
+
+  it('closes the queue socket once matched', async () => {
+    const store = useMatchmakingStore()
+    await store.joinQueue(preferences)
+
+    sockets[0]!.receive({
+      type: 'match_found',
+      symbol: 'O',
+      opponent: { id: 'u2', username: 'bob', elo_rating: 1390 },
+      game: {
+        id: 'g9',
+        player_x_id: 'u2',
+        player_o_id: 'u1',
+        status: 'ongoing',
+        variant: 'classic',
+        board_size: 3,
+        win_length: 3,
+        created_at: '',
+      },
+    })
+
+    expect(store.state).toBe('matched')
+    expect(store.match?.game.id).toBe('g9')
+    expect(sockets[0]!.disconnected).toBe(true)
+  })
+
+  it('tells the server when the player gives up', async () => {
+    const store = useMatchmakingStore()
+    await store.joinQueue(preferences)
+
+    store.leaveQueue()
+
+    const sent = sockets[0]!.sent
+    expect(sent[sent.length - 1]).toEqual({ type: 'queue_leave' })
+    expect(sockets[0]!.disconnected).toBe(true)
+    expect(store.state).toBe('idle')
+  })
+})
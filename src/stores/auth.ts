@@ -1,7 +1,18 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { authService, type User, type SignupRequest, type LoginRequest } from '../services/auth'
+import { getTokenExpiry, tokenStorage } from '../services/token'
+import { ApiError } from '../services/http'
+import { t } from '../i18n'
+import { useGameStore } from './game'
+import { useMatchmakingStore } from './matchmaking'
 import router from '../router'
+import { redirectTarget } from '../router/redirect'
+
+// Refresh this long before the token expires, or halfway through a shorter remaining lifetime
+const REFRESH_LEAD = 2 * 60 * 1000
+// setTimeout fires immediately for longer delays
+const MAX_TIMER_DELAY = 2 ** 31 - 1
 
 export const useAuthStore = defineStore('auth', () => {
   // State
@@ -9,6 +20,16 @@ export const useAuthStore = defineStore('auth', () => {
   const token = ref<string | null>(null)
   const loading = ref(false)
   const error = ref<string | null>(null)
+  // Epoch milliseconds the current token stops working, if it says so
+  const expiresAt = ref<number | null>(null)
+  // Set when the silent refresh failed and the session will end at expiresAt
+  const sessionExpiring = ref(false)
+
+  let refreshTimer: ReturnType<typeof setTimeout> | null = null
+  let expiryTimer: ReturnType<typeof setTimeout> | null = null
+  let stopTokenSync: (() => void) | null = null
+  // The session restore started at app start, which every later caller waits for as well
+  let initializing: Promise<void> | null = null
 
   // Computed
   const isAuthenticated = computed(() => {
@@ -24,15 +45,93 @@ export const useAuthStore = defineStore('auth', () => {
   })
 
   // Actions
-  async function initialize() {
+  function clearSessionTimers() {
+    if (refreshTimer) clearTimeout(refreshTimer)
+    if (expiryTimer) clearTimeout(expiryTimer)
+    refreshTimer = null
+    expiryTimer = null
+  }
+
+  function setSession(newToken: string) {
+    clearSessionTimers()
+    token.value = newToken
+    sessionExpiring.value = false
+    expiresAt.value = getTokenExpiry(newToken)
+    if (expiresAt.value === null) return
+
+    const remaining = expiresAt.value - Date.now()
+    const refreshIn = Math.max(0, remaining - Math.min(REFRESH_LEAD, remaining / 2))
+    if (refreshIn <= MAX_TIMER_DELAY) {
+      refreshTimer = setTimeout(refreshSession, refreshIn)
+    }
+    if (remaining <= MAX_TIMER_DELAY) {
+      expiryTimer = setTimeout(logout, Math.max(0, remaining))
+    }
+  }
+
+  async function refreshSession() {
+    refreshTimer = null
+    try {
+      const response = await authService.refresh()
+      setSession(response.access_token)
+    } catch (err: unknown) {
+      // A rejected token is already logged out by the HTTP client; otherwise warn and let the user retry
+      if (token.value) {
+        sessionExpiring.value = true
+      }
+      console.error('Error refreshing session:', err)
+    }
+  }
+
+  // Another tab logged in, refreshed its token or logged out
+  async function handleTokenChange(newToken: string | null) {
+    if (newToken === token.value) return
+    if (!newToken) {
+      logout()
+      return
+    }
+    setSession(newToken)
+    try {
+      await fetchUser()
+      if (router.currentRoute.value.meta.requiresGuest) {
+        router.push(redirectTarget(router.currentRoute.value.query))
+      }
+    } catch (err: unknown) {
+      console.error('Error syncing session from another tab:', err)
+    }
+  }
+
+  function initialize(): Promise<void> {
+    initializing ??= restoreSession()
+    return initializing
+  }
+
+  async function restoreSession() {
+    if (!stopTokenSync) {
+      stopTokenSync = tokenStorage.subscribe(handleTokenChange)
+    }
+
     const storedToken = authService.getToken()
     if (storedToken) {
-      token.value = storedToken
+      const expiry = getTokenExpiry(storedToken)
+      if (expiry !== null && expiry <= Date.now()) {
+        authService.removeToken()
+        return
+      }
+      setSession(storedToken)
       try {
         await fetchUser()
-      } catch (err) {
-        // Token might be expired, clear it
-        logout()
+      } catch (err: unknown) {
+        // A rejected token is logged out by the HTTP client; keep it if the API is merely
+        // unreachable, and carry on as the user last seen so saved games can still be resumed
+        if (err instanceof ApiError && err.isNetworkError && token.value) {
+          user.value = authService.getCachedUser()
+          if (user.value) {
+            const catchUp = () =>
+              fetchUser().catch((error) => console.error('Error fetching user:', error))
+            window.addEventListener('online', catchUp, { once: true })
+          }
+        }
       }
     }
   }
@@ -47,8 +146,8 @@ export const useAuthStore = defineStore('auth', () => {
         username: data.username,
         password: data.password,
       })
-    } catch (err: any) {
-      error.value = err.message || 'Failed to sign up'
+    } catch (err: unknown) {
+      error.value = err instanceof Error ? err.message : t('errors.signup')
       throw err
     } finally {
       loading.value = false
@@ -60,11 +159,11 @@ export const useAuthStore = defineStore('auth', () => {
     error.value = null
     try {
       const response = await authService.login(data)
-      token.value = response.access_token
+      setSession(response.access_token)
       await fetchUser()
       return response
-    } catch (err: any) {
-      error.value = err.message || 'Failed to log in'
+    } catch (err: unknown) {
+      error.value = err instanceof Error ? err.message : t('errors.login')
       throw err
     } finally {
       loading.value = false
@@ -72,23 +171,22 @@ export const useAuthStore = defineStore('auth', () => {
   }
 
   async function fetchUser() {
-    try {
-      const userData = await authService.getCurrentUser()
-      user.value = userData
-    } catch (err: any) {
-      // If token is invalid, logout
-      if (err.message.includes('Token expired') || err.message.includes('invalid')) {
-        logout()
-      }
-      throw err
-    }
+    const userData = await authService.getCurrentUser()
+    user.value = userData
+    authService.setCachedUser(userData)
   }
 
   function logout() {
+    clearSessionTimers()
     authService.logout()
     user.value = null
     token.value = null
+    expiresAt.value = null
+    sessionExpiring.value = false
     error.value = null
+    // Remote games and the queue are joined as this user; do not leave their sockets running
+    useGameStore().disconnectWebSocket()
+    useMatchmakingStore().reset()
     router.push('/login')
   }
 
@@ -102,6 +200,8 @@ export const useAuthStore = defineStore('auth', () => {
     token,
     loading,
     error,
+    expiresAt,
+    sessionExpiring,
     // Computed
     isAuthenticated,
     userId,
@@ -112,6 +212,7 @@ export const useAuthStore = defineStore('auth', () => {
     login,
     logout,
     fetchUser,
+    refreshSession,
     clearError,
   }
 })
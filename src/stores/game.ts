@@ -1,43 +1,523 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
-import { api, type Game, type MoveResponse } from '../services/api'
-import { GameWebSocket, type WebSocketMessage } from '../services/websocket'
+import { ref, computed, shallowRef, watch } from 'vue'
+import {
+  api,
+  NO_TIME_CONTROL,
+  type BoardResponse,
+  type BoardState,
+  type Game,
+  type GameResult,
+  type MoveRecord,
+  type MoveResponse,
+  type Series,
+  type ServerClock,
+  type TimeControl,
+} from '../services/api'
+import { gameCache, type GameSnapshot } from '../services/gameCache'
+import { ApiError } from '../services/http'
+import {
+  GameWebSocket,
+  type ChatEvent,
+  type ClientMessage,
+  type ConnectionState,
+  type RematchEvent,
+  type ServerMessage,
+  type SpectatorSnapshot,
+  type WebSocketError,
+} from '../services/websocket'
+import {
+  CHAT_RATE_LIMIT,
+  CHAT_RATE_WINDOW,
+  createRateLimiter,
+  filterProfanity,
+  MAX_CHAT_HISTORY,
+  normalizeChatText,
+  validateChatText,
+  type Emote,
+} from '../utils/chat'
+import { fromServerClock, remainingTime, stopClock, type ClockState } from '../utils/clock'
+import { chooseMove, type Difficulty } from '../utils/computerPlayer'
+import { isSeriesOver, tallySeries } from '../utils/series'
+import {
+  applyMove,
+  CLASSIC_SETTINGS,
+  createEmptyBoard,
+  formatPosition,
+  getOutcome,
+  getTurn,
+  isLegalMove,
+  opponentOf,
+  validateSettings,
+  type Board,
+  type EndReason,
+  type GameOutcome,
+  type GameSettings,
+  type GameStatus,
+  type GameVariant,
+  type PlayerSymbol,
+  type Position,
+  type Winner,
+} from '../utils/gameRules'
+import {
+  applyUltimateMove,
+  createUltimateState,
+  formatUltimatePosition,
+  getPlayableBoards,
+  getUltimateOutcome,
+  getUltimateTurn,
+  isLegalUltimateMove,
+  type UltimatePosition,
+  type UltimateState,
+} from '../utils/ultimateRules'
+import { t } from '../i18n'
+
+// remote: online game against another client; local: two players sharing this device;
+// computer: single player against the built-in AI
+export type GameSource = 'remote' | 'local' | 'computer'
+
+export interface ScoreTally {
+  X: number
+  O: number
+  draws: number
+}
+
+export type MovePosition = Position | UltimatePosition
+
+// offered: we asked and are waiting; received: the opponent asked us
+export type RematchState =
+  | { status: 'none' }
+  | { status: 'offered'; bestOf: number }
+  | { status: 'received'; bestOf: number }
+  | { status: 'declined' }
+
+function isUltimatePosition(move: MovePosition): move is UltimatePosition {
+  return 'boardRow' in move
+}
+
+function positionKey(move: MovePosition): string {
+  return isUltimatePosition(move) ? formatUltimatePosition(move) : formatPosition(move)
+}
+
+// offered: we proposed a draw; received: the opponent did; declined: ours was turned down
+export type DrawOfferState = 'none' | 'offered' | 'received' | 'declined'
+
+// The server may see a clock run out a little later than we do, so wait before claiming it
+const TIMEOUT_CLAIM_GRACE = 500
+
+// Short pause before the computer answers so its move does not land in the same frame as ours
+const COMPUTER_MOVE_DELAY = 400
+
+// A move the network dropped is tried again after this, doubling up to the maximum each time
+const UNSENT_MOVE_RETRY_DELAY = 1000
+const MAX_UNSENT_MOVE_RETRY_DELAY = 30_000
 
 export const useGameStore = defineStore('game', () => {
   // State
+  const source = ref<GameSource>('remote')
   const currentGame = ref<Game | null>(null)
-  const board = ref<any>([
-    [null, null, null],
-    [null, null, null],
-    [null, null, null],
-  ])
-
-  const currentPlayer = ref<'X' | 'O' | null>(null)
-  const winner = ref<'X' | 'O' | 'DRAW' | null>(null)
-  const gameStatus = ref<'waiting' | 'ongoing' | 'finished'>('waiting')
+  const variant = ref<GameVariant>('classic')
+  const settings = ref<GameSettings>({ ...CLASSIC_SETTINGS })
+  const board = ref<Board>(createEmptyBoard())
+  // Nested board used instead of `board` when variant is 'ultimate'
+  const ultimate = ref<UltimateState>(createUltimateState())
+  const moves = ref<MoveRecord[]>([])
+
+  const currentPlayer = ref<PlayerSymbol | null>(null)
+  const winner = ref<Winner>(null)
+  const gameStatus = ref<GameStatus>('waiting')
+  const endReason = ref<EndReason | null>(null)
+  const timeControl = ref<TimeControl>(NO_TIME_CONTROL)
+  const clock = ref<ClockState | null>(null)
+  const drawOffer = ref<DrawOfferState>('none')
+  let timeoutClaimTimer: ReturnType<typeof setTimeout> | null = null
   const playerXId = ref<string>('')
   const playerOId = ref<string>('')
   const myPlayerId = ref<string>('')
-  const mySymbol = ref<'X' | 'O' | null>(null)
-  const ws = ref<GameWebSocket | null>(null)
-  const isConnected = ref(false)
+  const mySymbol = ref<PlayerSymbol | null>(null)
+  // Move applied locally while the server has not confirmed it yet
+  const pendingMove = ref<MovePosition | null>(null)
+  // Move that could not reach the server; already on our board and sent again until it arrives
+  const unsentMove = ref<MovePosition | null>(null)
+  // Shallow so the socket's own fields are not wrapped in proxies it would not recognise
+  const ws = shallowRef<GameWebSocket | null>(null)
+  const connectionState = ref<ConnectionState>('idle')
+  // Last refusal from the game server, e.g. a full room
+  const roomError = ref<WebSocketError | null>(null)
   const playersInRoom = ref(0)
+  // Watching a remote game without playing in it
+  const spectating = ref(false)
+  const spectatorCount = ref(0)
+  const difficulty = ref<Difficulty>('perfect')
+  const computerThinking = ref(false)
+  let computerMoveTimer: ReturnType<typeof setTimeout> | null = null
+  let resyncing: Promise<void> | null = null
+  let unsentMoveTimer: ReturnType<typeof setTimeout> | null = null
+  let unsentMoveAttempts = 0
+  const score = ref<ScoreTally>({ X: 0, O: 0, draws: 0 })
+  const chatHistory = ref<ChatEvent[]>([])
+  // Unread counts only while the chat panel is closed
+  const chatOpen = ref(false)
+  const unreadChat = ref(0)
+  const profanityFilter = ref(true)
+  const opponentMuted = ref(false)
+  const chatLimiter = createRateLimiter(CHAT_RATE_LIMIT, CHAT_RATE_WINDOW)
+  // Kept when moving on to the next game of the series
+  const series = ref<Series | null>(null)
+  const rematch = ref<RematchState>({ status: 'none' })
+  // Game created by an accepted rematch that both clients should move to
+  const nextGame = ref<Game | null>(null)
 
   // Computed
+  const isLocal = computed(() => source.value !== 'remote')
+
+  const isConnected = computed(() => connectionState.value === 'open')
+
   const isMyTurn = computed(() => {
+    // Both sides sit at this device in hot-seat games, so every turn is ours
+    if (source.value === 'local') return currentPlayer.value !== null
     if (!currentPlayer.value || !mySymbol.value) return false
     return currentPlayer.value === mySymbol.value
   })
 
   const canMakeMove = computed(() => {
-    return gameStatus.value === 'ongoing' && isMyTurn.value && !winner.value
+    return (
+      gameStatus.value === 'ongoing' &&
+      isMyTurn.value &&
+      !winner.value &&
+      !pendingMove.value &&
+      !unsentMove.value
+    )
+  })
+
+  const computerSymbol = computed(() => {
+    if (source.value !== 'computer' || !mySymbol.value) return null
+    return opponentOf(mySymbol.value)
+  })
+
+  const outcome = computed<GameOutcome>(() =>
+    variant.value === 'ultimate'
+      ? getUltimateOutcome(ultimate.value.boards)
+      : getOutcome(board.value, settings.value.winLength),
+  )
+
+  // For ultimate games the line runs through sub-boards of the outer grid
+  const winningLine = computed(() => outcome.value.line)
+
+  const opponentId = computed(() => {
+    if (!mySymbol.value) return null
+    return (mySymbol.value === 'X' ? playerOId.value : playerXId.value) || null
+  })
+
+  // History as shown to this player: muted senders hidden, words filtered when enabled
+  const visibleChat = computed(() =>
+    chatHistory.value
+      .filter((entry) => !(opponentMuted.value && entry.sender_id === opponentId.value))
+      .map((entry) =>
+        entry.type === 'chat_message' && profanityFilter.value
+          ? { ...entry, text: filterProfanity(entry.text) }
+          : entry,
+      ),
+  )
+
+  // Includes the game just finished, which the server only records once a rematch starts
+  const seriesTally = computed(() => {
+    if (!series.value) return null
+    const game = currentGame.value
+    const finished = game && winner.value
+    return tallySeries(
+      series.value,
+      finished
+        ? {
+            gameId: game.id,
+            winnerId:
+              winner.value === 'DRAW'
+                ? null
+                : (winner.value === 'X' ? playerXId.value : playerOId.value) || null,
+          }
+        : null,
+    )
+  })
+
+  const seriesOver = computed(() => {
+    if (!series.value || !seriesTally.value) return false
+    return isSeriesOver(series.value.best_of, seriesTally.value)
   })
 
+  const playableBoards = computed(() =>
+    variant.value === 'ultimate' ? getPlayableBoards(ultimate.value) : [],
+  )
+
   // Actions
-  async function createGame(playerId: string) {
+  function applySettings(next: GameSettings, nextVariant: GameVariant = 'classic') {
+    variant.value = nextVariant
+    settings.value = { ...next }
+    board.value = createEmptyBoard(next.boardSize)
+    ultimate.value = createUltimateState()
+    moves.value = []
+    endReason.value = null
+    timeControl.value = NO_TIME_CONTROL
+    clock.value = null
+    drawOffer.value = 'none'
+    clearTimeoutClaim()
+  }
+
+  function applyGameSettings(game: Game) {
+    applySettings({ boardSize: game.board_size, winLength: game.win_length }, game.variant)
+    timeControl.value = game.time_control ?? NO_TIME_CONTROL
+    endReason.value = game.end_reason ?? null
+  }
+
+  // A result decided on the board; the server names other endings explicitly
+  function boardEndReason(result: Winner): EndReason | null {
+    if (result === 'DRAW') return 'board_full'
+    return result ? 'line' : null
+  }
+
+  // Takes the server's clocks and, if the opponent is the one thinking, arms a timeout claim
+  // for when their time runs out
+  function applyClock(serverClock: ServerClock | undefined) {
+    if (!serverClock) return
+    clock.value = fromServerClock(serverClock)
+    clearTimeoutClaim()
+    const state = clock.value
+    if (
+      !state.turn ||
+      state.runningSince === null ||
+      gameStatus.value !== 'ongoing' ||
+      spectating.value ||
+      state.turn === mySymbol.value
+    ) {
+      return
+    }
+    const delay = remainingTime(state, state.turn, Date.now()) + TIMEOUT_CLAIM_GRACE
+    timeoutClaimTimer = setTimeout(() => {
+      timeoutClaimTimer = null
+      claimTimeout().catch((error) => console.error('Error claiming timeout:', error))
+    }, delay)
+  }
+
+  function clearTimeoutClaim() {
+    if (timeoutClaimTimer) {
+      clearTimeout(timeoutClaimTimer)
+      timeoutClaimTimer = null
+    }
+  }
+
+  // Ends the game for a reason other than the board: timeout, resignation or agreed draw
+  function finishGame(result: Pick<GameResult, 'winner' | 'end_reason' | 'clock'>) {
+    winner.value = result.winner
+    endReason.value = result.end_reason
+    gameStatus.value = 'finished'
+    currentPlayer.value = null
+    drawOffer.value = 'none'
+    clearTimeoutClaim()
+    if (result.clock) {
+      clock.value = fromServerClock(result.clock)
+    } else if (clock.value) {
+      clock.value = stopClock(clock.value, Date.now())
+    }
+  }
+
+  // Each cell can only be played once per game, so the position identifies a move
+  function recordMove(record: MoveRecord) {
+    const index = moves.value.findIndex((move) => move.position === record.position)
+    if (index === -1) {
+      moves.value = [...moves.value, record]
+    } else {
+      // Keep server ids and timestamps already known when a live echo of the move arrives
+      moves.value = moves.value.map((move, i) =>
+        i === index
+          ? {
+              ...record,
+              move_id: record.move_id ?? move.move_id,
+              created_at: record.created_at ?? move.created_at,
+            }
+          : move,
+      )
+    }
+  }
+
+  function applyBoardState(state: BoardState) {
+    if (state.variant === 'ultimate') {
+      ultimate.value = { boards: state.board, activeBoard: state.active_board }
+    } else {
+      board.value = state.board
+    }
+  }
+
+  // Replaces board, history and turn with the server's copy of the game
+  function fetchBoard(gameId: string): Promise<[BoardResponse, MoveRecord[]]> {
+    return Promise.all([api.getBoard(gameId), api.getMoves(gameId)])
+  }
+
+  async function syncBoard(gameId: string) {
+    applyServerBoard(await fetchBoard(gameId))
+  }
+
+  function applyServerBoard([boardData, history]: [BoardResponse, MoveRecord[]]) {
+    applyBoardState(boardData)
+    winner.value = boardData.winner
+    endReason.value = boardData.end_reason ?? boardEndReason(boardData.winner)
+    moves.value = history
+    updateTurn()
+    applyClock(boardData.clock)
+  }
+
+  // Whose turn it is follows from the board, so it is derived after loading a server copy
+  function updateTurn() {
+    if (winner.value) {
+      gameStatus.value = 'finished'
+    }
+    if (gameStatus.value !== 'ongoing') {
+      currentPlayer.value = null
+    } else if (variant.value === 'ultimate') {
+      currentPlayer.value = getUltimateTurn(ultimate.value.boards)
+    } else {
+      currentPlayer.value = getTurn(board.value, settings.value.winLength)
+    }
+  }
+
+  function receiveChat(entry: ChatEvent) {
+    if (chatHistory.value.some((known) => known.message_id === entry.message_id)) return
+    chatHistory.value = [...chatHistory.value, entry].slice(-MAX_CHAT_HISTORY)
+    const fromMe = entry.sender_id === myPlayerId.value
+    const muted = opponentMuted.value && entry.sender_id === opponentId.value
+    if (!chatOpen.value && !fromMe && !muted) {
+      unreadChat.value++
+    }
+  }
+
+  function setChatOpen(open: boolean) {
+    chatOpen.value = open
+    if (open) {
+      unreadChat.value = 0
+    }
+  }
+
+  // Our own messages appear once the server echoes them back to the room
+  function sendChat(text: string) {
+    const invalid = validateChatText(text)
+    if (invalid) {
+      throw new Error(invalid)
+    }
+    const roomId = activeRoomId()
+    sendChatMessage({ type: 'chat_message', room_id: roomId, text: normalizeChatText(text) })
+  }
+
+  function sendEmote(emote: Emote) {
+    const roomId = activeRoomId()
+    sendChatMessage({ type: 'emote', room_id: roomId, emote })
+  }
+
+  function activeRoomId(): string {
+    if (!ws.value || !currentGame.value) {
+      throw new Error(t('errors.notConnected'))
+    }
+    return currentGame.value.id
+  }
+
+  function sendChatMessage(message: ClientMessage) {
+    if (!chatLimiter.tryAcquire()) {
+      throw new Error(t('errors.chatTooFast'))
+    }
+    ws.value?.send(message)
+  }
+
+  // A finished series is followed by a fresh one, so bestOf only matters outside a running series
+  function offerRematch(bestOf: number) {
+    const roomId = activeRoomId()
+    const length = series.value && !seriesOver.value ? series.value.best_of : bestOf
+    ws.value?.send({ type: 'rematch_offer', room_id: roomId, best_of: length })
+    rematch.value = { status: 'offered', bestOf: length }
+  }
+
+  function acceptRematch() {
+    ws.value?.send({ type: 'rematch_accept', room_id: activeRoomId() })
+  }
+
+  function declineRematch() {
+    ws.value?.send({ type: 'rematch_decline', room_id: activeRoomId() })
+    rematch.value = { status: 'none' }
+  }
+
+  // The server echoes rematch messages to the sender as well. Spectators only follow the
+  // accepted rematch to the next game.
+  function handleRematch(message: RematchEvent) {
+    const fromMe = message.from_id === myPlayerId.value
+    if (spectating.value && message.type !== 'rematch_accept') return
+    if (message.type === 'rematch_offer') {
+      if (!fromMe) rematch.value = { status: 'received', bestOf: message.best_of }
+    } else if (message.type === 'rematch_decline') {
+      rematch.value = fromMe ? { status: 'none' } : { status: 'declined' }
+    } else {
+      series.value = message.series
+      nextGame.value = message.game
+    }
+  }
+
+  // Clears the finished game but keeps the series; returns the id of the game to open
+  function beginNextGame(): string | null {
+    const game = nextGame.value
+    if (!game) return null
+    const kept = series.value
+    reset()
+    series.value = game.series ?? kept
+    return game.id
+  }
+
+  // Brings a spectator up to date with a game that may have started long ago
+  function applySnapshot(snapshot: SpectatorSnapshot) {
+    const game = snapshot.game
+    currentGame.value = game
+    applyGameSettings(game)
+    playerXId.value = game.player_x_id || ''
+    playerOId.value = game.player_o_id || ''
+    gameStatus.value = game.status
+    applyBoardState(snapshot)
+    moves.value = snapshot.moves
+    winner.value = snapshot.winner
+    endReason.value = snapshot.end_reason ?? boardEndReason(snapshot.winner)
+    playersInRoom.value = snapshot.players
+    spectatorCount.value = snapshot.spectators
+    updateTurn()
+    applyClock(snapshot.clock)
+  }
+
+  // Catches up after missed WebSocket messages; overlapping requests share one fetch
+  function resyncGame(): Promise<void> {
+    const game = currentGame.value
+    if (!game || source.value !== 'remote') return Promise.resolve()
+    if (!resyncing) {
+      resyncing = (async () => {
+        const latest = await api.getGame(game.id)
+        currentGame.value = latest
+        playerXId.value = latest.player_x_id || ''
+        playerOId.value = latest.player_o_id || ''
+        gameStatus.value = latest.status
+        await syncBoard(latest.id)
+        await deliverUnsentMove()
+      })().finally(() => {
+        resyncing = null
+      })
+    }
+    return resyncing
+  }
+
+  async function createGame(
+    playerId: string,
+    gameSettings: GameSettings = CLASSIC_SETTINGS,
+    gameVariant: GameVariant = 'classic',
+    gameTimeControl: TimeControl = NO_TIME_CONTROL
+  ) {
+    const invalid = validateSettings(gameSettings)
+    if (invalid) {
+      throw new Error(invalid)
+    }
+
     try {
-      const game = await api.createGame(playerId)
+      const game = await api.createGame(playerId, gameSettings, gameVariant, gameTimeControl)
       currentGame.value = game
+      applyGameSettings(game)
       playerXId.value = game.player_x_id || ''
       myPlayerId.value = playerId
       mySymbol.value = 'X'
@@ -53,6 +533,7 @@ export const useGameStore = defineStore('game', () => {
     try {
       const game = await api.joinGame(gameId, playerId)
       currentGame.value = game
+      applyGameSettings(game)
       playerXId.value = game.player_x_id || ''
       playerOId.value = game.player_o_id || ''
       myPlayerId.value = playerId
@@ -66,12 +547,21 @@ export const useGameStore = defineStore('game', () => {
   }
 
   async function loadGame(gameId: string, userId?: string) {
+    if (currentGame.value?.id !== gameId) {
+      unsentMove.value = null
+      stopUnsentMoveRetry()
+    }
     try {
-      const game = await api.getGame(gameId)
+      // Fetched together and applied at once, so a restored game is not blanked in between
+      const [game, serverBoard] = await Promise.all([api.getGame(gameId), fetchBoard(gameId)])
       currentGame.value = game
+      applyGameSettings(game)
       playerXId.value = game.player_x_id || ''
       playerOId.value = game.player_o_id || ''
       gameStatus.value = game.status
+      if (game.series) {
+        series.value = game.series
+      }
 
       // Set myPlayerId if provided
       if (userId) {
@@ -84,9 +574,8 @@ export const useGameStore = defineStore('game', () => {
         }
       }
 
-      const boardData = await api.getBoard(gameId)
-      board.value = boardData.board
-      winner.value = boardData.winner
+      applyServerBoard(serverBoard)
+      await deliverUnsentMove()
 
       return game
     } catch (error) {
@@ -101,93 +590,490 @@ export const useGameStore = defineStore('game', () => {
     }
 
     ws.value = new GameWebSocket()
-    isConnected.value = false
+    roomError.value = null
+    ws.value.onStateChange((state) => {
+      connectionState.value = state
+    })
+    ws.value.onResync(() => {
+      resyncGame().catch((error) => console.error('Error resyncing game:', error))
+    })
 
-    ws.value.on('room_created', (message: WebSocketMessage) => {
+    ws.value.on('room_created', (message: ServerMessage) => {
       if (message.type === 'room_created') {
         playersInRoom.value = message.players
-        isConnected.value = true
       }
     })
 
-    ws.value.on('room_joined', (message: WebSocketMessage) => {
+    ws.value.on('room_joined', (message: ServerMessage) => {
       if (message.type === 'room_joined') {
         playersInRoom.value = message.players
-        isConnected.value = true
       }
     })
 
-    ws.value.on('player_joined', (message: WebSocketMessage) => {
+    ws.value.on('player_joined', (message: ServerMessage) => {
       if (message.type === 'player_joined') {
         playersInRoom.value = message.players
       }
     })
 
-    ws.value.on('game_started', (message: WebSocketMessage) => {
+    ws.value.on('spectator_joined', (message: ServerMessage) => {
+      if (message.type === 'spectator_joined') {
+        spectatorCount.value = message.spectators
+      }
+    })
+
+    ws.value.on('spectator_left', (message: ServerMessage) => {
+      if (message.type === 'spectator_left') {
+        spectatorCount.value = message.spectators
+      }
+    })
+
+    ws.value.on('spectator_snapshot', (message: ServerMessage) => {
+      if (message.type === 'spectator_snapshot') {
+        applySnapshot(message)
+      }
+    })
+
+    const onRematch = (message: ServerMessage) => {
+      if (
+        message.type === 'rematch_offer' ||
+        message.type === 'rematch_decline' ||
+        message.type === 'rematch_accept'
+      ) {
+        handleRematch(message)
+      }
+    }
+    ws.value.on('rematch_offer', onRematch)
+    ws.value.on('rematch_decline', onRematch)
+    ws.value.on('rematch_accept', onRematch)
+
+    ws.value.on('chat_message', (message: ServerMessage) => {
+      if (message.type === 'chat_message') {
+        receiveChat(message)
+      }
+    })
+
+    ws.value.on('emote', (message: ServerMessage) => {
+      if (message.type === 'emote') {
+        receiveChat(message)
+      }
+    })
+
+    ws.value.on('game_started', (message: ServerMessage) => {
       if (message.type === 'game_started') {
         gameStatus.value = 'ongoing'
         currentPlayer.value = 'X'
+        applyClock(message.clock)
+      }
+    })
+
+    ws.value.on('game_over', (message: ServerMessage) => {
+      if (message.type === 'game_over') {
+        finishGame(message)
+      }
+    })
+
+    ws.value.on('draw_offer', (message: ServerMessage) => {
+      if (message.type === 'draw_offer' && !spectating.value) {
+        drawOffer.value = message.from_id === myPlayerId.value ? 'offered' : 'received'
+      }
+    })
+
+    ws.value.on('draw_decline', (message: ServerMessage) => {
+      if (message.type === 'draw_decline' && !spectating.value) {
+        drawOffer.value = message.from_id === myPlayerId.value ? 'none' : 'declined'
+      }
+    })
+
+    ws.value.on('error', (message: ServerMessage) => {
+      if (message.type === 'error') {
+        roomError.value = message
       }
     })
 
-    ws.value.on('move_made', (message: WebSocketMessage) => {
+    ws.value.on('move_made', (message: ServerMessage) => {
       if (message.type === 'move_made') {
-        board.value = message.board
+        // Either the echo of the move we could not confirm or the opponent's answer to it; both
+        // mean the server has it, and the board below is the server's
+        if (unsentMove.value) {
+          unsentMove.value = null
+          stopUnsentMoveRetry()
+        }
+        // The echo of the move still awaiting its REST answer confirms it just as well
+        const pending = pendingMove.value
+        if (
+          pending &&
+          message.symbol === mySymbol.value &&
+          message.position === positionKey(pending)
+        ) {
+          pendingMove.value = null
+        }
+        applyBoardState(message)
+        recordMove({
+          move_id: null,
+          player_id: message.player_id,
+          position: message.position,
+          symbol: message.symbol,
+          created_at: null,
+        })
         winner.value = message.winner
-        gameStatus.value = message.game_status as 'waiting' | 'ongoing' | 'finished'
-        currentPlayer.value = message.symbol === 'X' ? 'O' : 'X'
+        endReason.value = message.end_reason ?? boardEndReason(message.winner)
+        gameStatus.value = message.game_status
+        currentPlayer.value = opponentOf(message.symbol)
+        // A move answers any pending draw offer with a no
+        drawOffer.value = 'none'
+        applyClock(message.clock)
       }
     })
 
     return ws.value.connect()
   }
 
+  function reconnectWebSocket() {
+    return ws.value ? ws.value.reconnect() : connectWebSocket()
+  }
+
   function createRoom(gameId: string) {
-    if (ws.value && ws.value.isConnected()) {
-      ws.value.send({ type: 'create_room', room_id: gameId })
-    }
+    ws.value?.subscribe({ type: 'create_room', room_id: gameId })
   }
 
   function joinRoom(gameId: string) {
-    if (ws.value && ws.value.isConnected()) {
-      ws.value.send({ type: 'join_room', room_id: gameId })
+    ws.value?.subscribe({ type: 'join_room', room_id: gameId })
+  }
+
+  // Spectators get a snapshot of the game and then the same live events as the players
+  function spectateRoom(gameId: string) {
+    spectating.value = true
+    mySymbol.value = null
+    ws.value?.subscribe({ type: 'spectate_room', room_id: gameId })
+  }
+
+  // Applies a move to the local board and derives winner, status and turn from the rules
+  function placeMove(move: MovePosition, symbol: PlayerSymbol) {
+    if (isUltimatePosition(move)) {
+      ultimate.value = applyUltimateMove(ultimate.value, move, symbol)
+    } else {
+      board.value = applyMove(board.value, move, symbol, settings.value.winLength)
+    }
+    recordMove({
+      move_id: null,
+      player_id: source.value === 'remote' ? myPlayerId.value : null,
+      position: positionKey(move),
+      symbol,
+      created_at: null,
+    })
+    const result = outcome.value
+    winner.value = result.winner
+    endReason.value = boardEndReason(result.winner)
+    gameStatus.value = result.winner ? 'finished' : 'ongoing'
+    currentPlayer.value = result.winner ? null : opponentOf(symbol)
+    if (isLocal.value && result.winner) {
+      if (result.winner === 'DRAW') score.value.draws++
+      else score.value[result.winner]++
     }
   }
 
+  function isMoveLegal(move: MovePosition): boolean {
+    if (variant.value === 'ultimate') {
+      return isUltimatePosition(move) && isLegalUltimateMove(ultimate.value, move)
+    }
+    return !isUltimatePosition(move) && isLegalMove(board.value, move, settings.value.winLength)
+  }
+
+  function startLocalGame(
+    gameSettings: GameSettings = settings.value,
+    gameVariant: GameVariant = variant.value
+  ) {
+    const tally = source.value === 'local' ? score.value : { X: 0, O: 0, draws: 0 }
+    const invalid = validateSettings(gameSettings)
+    if (invalid) {
+      throw new Error(invalid)
+    }
+    reset()
+    source.value = 'local'
+    score.value = tally
+    applySettings(gameSettings, gameVariant)
+    gameStatus.value = 'ongoing'
+    currentPlayer.value = 'X'
+  }
+
+  function resetScore() {
+    score.value = { X: 0, O: 0, draws: 0 }
+  }
+
+  function startComputerGame(level: Difficulty, humanSymbol: PlayerSymbol = 'X') {
+    const tally = source.value === 'computer' ? score.value : { X: 0, O: 0, draws: 0 }
+    reset()
+    source.value = 'computer'
+    score.value = tally
+    difficulty.value = level
+    mySymbol.value = humanSymbol
+    gameStatus.value = 'ongoing'
+    currentPlayer.value = 'X'
+    if (humanSymbol === 'O') {
+      scheduleComputerMove()
+    }
+  }
+
+  function scheduleComputerMove() {
+    computerThinking.value = true
+    computerMoveTimer = setTimeout(() => {
+      computerMoveTimer = null
+      computerThinking.value = false
+      const symbol = computerSymbol.value
+      if (!symbol || currentPlayer.value !== symbol) return
+      const move = chooseMove(board.value, symbol, difficulty.value)
+      if (move) {
+        placeMove(move, symbol)
+      }
+    }, COMPUTER_MOVE_DELAY)
+  }
+
   async function makeMove(row: number, col: number) {
-    if (!currentGame.value || !myPlayerId.value) {
-      throw new Error('No active game or player ID')
+    return playMove({ row, col })
+  }
+
+  async function makeUltimateMove(position: UltimatePosition) {
+    return playMove(position)
+  }
+
+  async function playMove(move: MovePosition) {
+    if (isLocal.value) {
+      return makeLocalMove(move)
+    }
+    return makeRemoteMove(move)
+  }
+
+  function makeLocalMove(move: MovePosition) {
+    const symbol = currentPlayer.value
+    if (!canMakeMove.value || !symbol) {
+      throw new Error(t('errors.notYourTurn'))
+    }
+    if (!isMoveLegal(move)) {
+      throw new Error(t('errors.cellTaken'))
+    }
+    placeMove(move, symbol)
+    if (source.value === 'computer' && gameStatus.value === 'ongoing') {
+      scheduleComputerMove()
+    }
+  }
+
+  async function makeRemoteMove(move: MovePosition) {
+    if (!currentGame.value || !myPlayerId.value || !mySymbol.value) {
+      throw new Error(t('errors.noActiveGame'))
     }
 
     if (!canMakeMove.value) {
-      throw new Error('It is not your turn')
+      throw new Error(t('errors.notYourTurn'))
+    }
+
+    if (!isMoveLegal(move)) {
+      throw new Error(t('errors.cellTaken'))
     }
 
-    const position = `${row},${col}`
+    // Apply the move right away and keep a snapshot to roll back to if the server rejects it
+    const snapshot = {
+      board: board.value,
+      ultimate: ultimate.value,
+      moves: moves.value,
+      winner: winner.value,
+      endReason: endReason.value,
+      gameStatus: gameStatus.value,
+      currentPlayer: currentPlayer.value,
+    }
+    placeMove(move, mySymbol.value)
+    pendingMove.value = move
+
     try {
       const response: MoveResponse = await api.makeMove(
         currentGame.value.id,
         myPlayerId.value,
-        position
+        positionKey(move)
       )
-      board.value = response.board
+      stopUnsentMoveRetry()
+      applyBoardState(response)
+      recordMove({
+        move_id: response.move_id,
+        player_id: myPlayerId.value,
+        position: response.position,
+        symbol: response.symbol,
+        created_at: null,
+      })
       winner.value = response.winner
+      endReason.value = response.end_reason ?? boardEndReason(response.winner)
       gameStatus.value = response.game_status
       currentPlayer.value = response.next_turn
+      drawOffer.value = 'none'
+      applyClock(response.clock)
       return response
     } catch (error) {
+      // The socket already confirmed the move, so only its REST answer was lost
+      if (!pendingMove.value) {
+        console.error('Move confirmed by the server, but its answer was lost:', error)
+        return null
+      }
+      // Offline for a moment: keep the move and deliver it once the server can be reached
+      if (error instanceof ApiError && error.isNetworkError) {
+        unsentMove.value = move
+        scheduleUnsentMoveRetry()
+        console.error('Move not delivered, will retry:', error)
+        return null
+      }
+      board.value = snapshot.board
+      ultimate.value = snapshot.ultimate
+      moves.value = snapshot.moves
+      winner.value = snapshot.winner
+      endReason.value = snapshot.endReason
+      gameStatus.value = snapshot.gameStatus
+      currentPlayer.value = snapshot.currentPlayer
       console.error('Error making move:', error)
       throw error
+    } finally {
+      pendingMove.value = null
+    }
+  }
+
+  // Called with a board fresh from the server. If the move got through after all, it is
+  // already there and no longer our turn; otherwise it is played again.
+  async function deliverUnsentMove() {
+    const move = unsentMove.value
+    if (!move) return
+    unsentMove.value = null
+    if (!canMakeMove.value || !isMoveLegal(move)) {
+      stopUnsentMoveRetry()
+      return
+    }
+    try {
+      await makeRemoteMove(move)
+    } catch (error) {
+      stopUnsentMoveRetry()
+      console.error('Error delivering move:', error)
+    }
+  }
+
+  // Tries the unsent move again through resyncGame, which first checks whether the server got it
+  function retryUnsentMove() {
+    if (!unsentMove.value) return
+    resyncGame().catch((error) => {
+      console.error('Error retrying unsent move:', error)
+      if (unsentMove.value) scheduleUnsentMoveRetry()
+    })
+  }
+
+  function scheduleUnsentMoveRetry() {
+    if (unsentMoveTimer) clearTimeout(unsentMoveTimer)
+    const delay = Math.min(
+      MAX_UNSENT_MOVE_RETRY_DELAY,
+      UNSENT_MOVE_RETRY_DELAY * 2 ** unsentMoveAttempts++,
+    )
+    unsentMoveTimer = setTimeout(() => {
+      unsentMoveTimer = null
+      retryUnsentMove()
+    }, delay)
+  }
+
+  function stopUnsentMoveRetry() {
+    if (unsentMoveTimer) clearTimeout(unsentMoveTimer)
+    unsentMoveTimer = null
+    unsentMoveAttempts = 0
+  }
+
+  // Back online: no need to wait for the next scheduled attempt
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+      if (!unsentMove.value) return
+      stopUnsentMoveRetry()
+      retryUnsentMove()
+    })
+  }
+
+  // Shows the game as it was saved on this device until loadGame brings the server's copy
+  async function restoreGame(gameId: string, userId?: string): Promise<boolean> {
+    let snapshot: GameSnapshot | null
+    try {
+      snapshot = await gameCache.load(gameId)
+    } catch (error) {
+      console.error('Error restoring game:', error)
+      return false
     }
+    if (!snapshot || (userId && snapshot.myPlayerId !== userId)) return false
+
+    source.value = 'remote'
+    currentGame.value = snapshot.game
+    applyGameSettings(snapshot.game)
+    playerXId.value = snapshot.game.player_x_id || ''
+    playerOId.value = snapshot.game.player_o_id || ''
+    myPlayerId.value = snapshot.myPlayerId
+    mySymbol.value = snapshot.mySymbol
+    board.value = snapshot.board
+    ultimate.value = snapshot.ultimate
+    moves.value = snapshot.moves
+    currentPlayer.value = snapshot.currentPlayer
+    winner.value = snapshot.winner
+    endReason.value = snapshot.game.end_reason ?? boardEndReason(snapshot.winner)
+    gameStatus.value = snapshot.gameStatus
+    unsentMove.value = snapshot.unsentMove
+    if (unsentMove.value) scheduleUnsentMoveRetry()
+    return true
+  }
+
+  // Resigning, draws and timeout claims go through the REST API; the server then tells the
+  // rest of the room with a game_over message
+  function activePlayer() {
+    if (!currentGame.value || !myPlayerId.value || !mySymbol.value || isLocal.value) {
+      throw new Error(t('errors.noActiveGame'))
+    }
+    if (gameStatus.value !== 'ongoing') {
+      throw new Error(t('errors.gameNotInProgress'))
+    }
+    return { gameId: currentGame.value.id, playerId: myPlayerId.value }
+  }
+
+  async function resign() {
+    const { gameId, playerId } = activePlayer()
+    finishGame(await api.resign(gameId, playerId))
+  }
+
+  async function offerDraw() {
+    const { gameId, playerId } = activePlayer()
+    await api.offerDraw(gameId, playerId)
+    drawOffer.value = 'offered'
+  }
+
+  async function acceptDraw() {
+    const { gameId, playerId } = activePlayer()
+    finishGame(await api.acceptDraw(gameId, playerId))
+  }
+
+  async function declineDraw() {
+    const { gameId, playerId } = activePlayer()
+    await api.declineDraw(gameId, playerId)
+    drawOffer.value = 'none'
+  }
+
+  async function claimTimeout() {
+    if (spectating.value || gameStatus.value !== 'ongoing') return
+    const { gameId, playerId } = activePlayer()
+    finishGame(await api.claimTimeout(gameId, playerId))
+  }
+
+  function disconnectWebSocket() {
+    if (ws.value) {
+      ws.value.disconnect()
+      ws.value = null
+    }
+    connectionState.value = 'idle'
   }
 
   function reset() {
+    if (computerMoveTimer) {
+      clearTimeout(computerMoveTimer)
+      computerMoveTimer = null
+    }
+    computerThinking.value = false
+    source.value = 'remote'
     currentGame.value = null
-    board.value = [
-      [null, null, null],
-      [null, null, null],
-      [null, null, null],
-    ]
+    applySettings(CLASSIC_SETTINGS)
     currentPlayer.value = null
     winner.value = null
     gameStatus.value = 'waiting'
@@ -195,38 +1081,138 @@ export const useGameStore = defineStore('game', () => {
     playerOId.value = ''
     myPlayerId.value = ''
     mySymbol.value = null
+    pendingMove.value = null
+    unsentMove.value = null
+    stopUnsentMoveRetry()
     playersInRoom.value = 0
-    if (ws.value) {
-      ws.value.disconnect()
-      ws.value = null
-    }
-    isConnected.value = false
+    spectating.value = false
+    spectatorCount.value = 0
+    roomError.value = null
+    score.value = { X: 0, O: 0, draws: 0 }
+    chatHistory.value = []
+    chatOpen.value = false
+    unreadChat.value = 0
+    opponentMuted.value = false
+    chatLimiter.reset()
+    series.value = null
+    rematch.value = { status: 'none' }
+    nextGame.value = null
+    disconnectWebSocket()
   }
 
+  // Keep the online game we play in saved on this device, so a reload can resume it at once.
+  // Finished games are dropped unless a move is still waiting to reach the server.
+  watch(
+    () => {
+      const game = currentGame.value
+      if (source.value !== 'remote' || spectating.value || !game || !myPlayerId.value) return null
+      return {
+        game,
+        myPlayerId: myPlayerId.value,
+        mySymbol: mySymbol.value,
+        board: board.value,
+        ultimate: ultimate.value,
+        moves: moves.value,
+        currentPlayer: currentPlayer.value,
+        winner: winner.value,
+        gameStatus: gameStatus.value,
+        unsentMove: unsentMove.value,
+      }
+    },
+    (snapshot) => {
+      if (!snapshot) return
+      const saved =
+        snapshot.gameStatus === 'finished' && !snapshot.unsentMove
+          ? gameCache.remove(snapshot.game.id)
+          : gameCache.save(snapshot)
+      saved.catch((error: unknown) => console.error('Error saving game:', error))
+    },
+    { deep: true },
+  )
+
   return {
     // State
+    source,
     currentGame,
+    variant,
+    settings,
     board,
+    ultimate,
+    moves,
     currentPlayer,
     winner,
     gameStatus,
+    endReason,
+    timeControl,
+    clock,
+    drawOffer,
     playerXId,
     playerOId,
     myPlayerId,
     mySymbol,
-    isConnected,
+    connectionState,
+    roomError,
     playersInRoom,
+    spectating,
+    spectatorCount,
+    pendingMove,
+    unsentMove,
+    difficulty,
+    computerThinking,
+    score,
+    chatHistory,
+    unreadChat,
+    profanityFilter,
+    opponentMuted,
+    series,
+    rematch,
+    nextGame,
     // Computed
+    isLocal,
+    isConnected,
     isMyTurn,
     canMakeMove,
+    outcome,
+    winningLine,
+    playableBoards,
+    computerSymbol,
+    opponentId,
+    visibleChat,
+    seriesTally,
+    seriesOver,
     // Actions
     createGame,
     joinGame,
     loadGame,
     connectWebSocket,
+    reconnectWebSocket,
+    disconnectWebSocket,
+    resyncGame,
+    restoreGame,
     createRoom,
     joinRoom,
+    spectateRoom,
+    applySnapshot,
+    recordMove,
+    receiveChat,
+    setChatOpen,
+    sendChat,
+    sendEmote,
+    offerRematch,
+    acceptRematch,
+    declineRematch,
+    handleRematch,
+    beginNextGame,
+    resign,
+    offerDraw,
+    acceptDraw,
+    declineDraw,
+    claimTimeout,
     makeMove,
+    makeUltimateMove,
+    startLocalGame,
+    startComputerGame,
+    resetScore,
     reset,
   }
 })
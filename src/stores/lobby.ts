@@ -0,0 +1,149 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import { api, type ListGamesQuery, type LobbyEntry } from '../services/api'
+import { GameWebSocket, type ServerMessage } from '../services/websocket'
+import type { GameVariant } from '../utils/gameRules'
+import { matchesQuery } from '../utils/lobby'
+import { DEFAULT_RATING, ratingRange } from '../utils/matchmaking'
+import { t } from '../i18n'
+import { useAuthStore } from './auth'
+
+export const LOBBY_PAGE_SIZE = 10
+// How far from our rating a creator may be when only nearby games are shown
+export const NEARBY_RATING_WINDOW = 200
+
+export interface LobbyFilter {
+  variant: GameVariant | null
+  nearMyRating: boolean
+}
+
+export const useLobbyStore = defineStore('lobby', () => {
+  // State
+  const entries = ref<LobbyEntry[]>([])
+  const total = ref(0)
+  const page = ref(1)
+  const filter = ref<LobbyFilter>({ variant: null, nearMyRating: false })
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+  // Kept out of reactive state so it can be compared with the socket a callback belongs to
+  let ws: GameWebSocket | null = null
+  let pendingFetch: AbortController | null = null
+
+  // Computed
+  const pageCount = computed(() => Math.max(1, Math.ceil(total.value / LOBBY_PAGE_SIZE)))
+
+  const query = computed<ListGamesQuery>(() => {
+    const result: ListGamesQuery = { page: page.value, pageSize: LOBBY_PAGE_SIZE }
+    if (filter.value.variant) result.variant = filter.value.variant
+    if (filter.value.nearMyRating) {
+      const rating = useAuthStore().user?.elo_rating ?? DEFAULT_RATING
+      const range = ratingRange(rating, NEARBY_RATING_WINDOW)
+      result.minRating = range.min
+      result.maxRating = range.max
+    }
+    return result
+  })
+
+  // Actions
+  async function fetchPage(target: number = page.value) {
+    pendingFetch?.abort()
+    const controller = new AbortController()
+    pendingFetch = controller
+    page.value = target
+    loading.value = true
+    error.value = null
+    try {
+      const result = await api.listGames(query.value, { signal: controller.signal })
+      if (pendingFetch !== controller) return
+      entries.value = result.items
+      total.value = result.total
+    } catch (err: unknown) {
+      if (pendingFetch !== controller) return
+      error.value = err instanceof Error ? err.message : t('errors.loadLobby')
+      console.error('Error loading lobby:', err)
+    } finally {
+      if (pendingFetch === controller) {
+        pendingFetch = null
+        loading.value = false
+      }
+    }
+  }
+
+  function setFilter(next: LobbyFilter) {
+    filter.value = { ...next }
+    return fetchPage(1)
+  }
+
+  // New games only show up live on the first page; later pages would shift under the reader
+  function handleAdded(entry: LobbyEntry) {
+    if (!matchesQuery(entry, query.value)) return
+    if (entries.value.some((known) => known.game.id === entry.game.id)) return
+    total.value++
+    if (page.value === 1) {
+      entries.value = [entry, ...entries.value].slice(0, LOBBY_PAGE_SIZE)
+    }
+  }
+
+  function handleRemoved(gameId: string) {
+    const remaining = entries.value.filter((entry) => entry.game.id !== gameId)
+    if (remaining.length === entries.value.length) return
+    entries.value = remaining
+    total.value = Math.max(0, total.value - 1)
+  }
+
+  // Lists the first page and keeps it current until close()
+  async function open() {
+    close()
+    const socket = new GameWebSocket()
+    ws = socket
+
+    socket.on('lobby_game_added', (message: ServerMessage) => {
+      if (message.type === 'lobby_game_added') handleAdded(message.entry)
+    })
+    socket.on('lobby_game_removed', (message: ServerMessage) => {
+      if (message.type === 'lobby_game_removed') handleRemoved(message.game_id)
+    })
+    // Anything could have come and gone while we were disconnected
+    socket.onResync(() => {
+      socket.send({ type: 'lobby_subscribe' })
+      fetchPage()
+    })
+
+    socket.send({ type: 'lobby_subscribe' })
+    socket.connect().catch((err: unknown) => {
+      // The list still works without live updates
+      console.error('Error connecting to lobby updates:', err)
+    })
+    await fetchPage(1)
+  }
+
+  function close() {
+    pendingFetch?.abort()
+    pendingFetch = null
+    loading.value = false
+    if (ws) {
+      ws.send({ type: 'lobby_unsubscribe' })
+      ws.disconnect()
+      ws = null
+    }
+  }
+
+  return {
+    // State
+    entries,
+    total,
+    page,
+    filter,
+    loading,
+    error,
+    // Computed
+    pageCount,
+    // Actions
+    open,
+    close,
+    fetchPage,
+    setFilter,
+    handleAdded,
+    handleRemoved,
+  }
+})
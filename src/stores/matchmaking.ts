@@ -0,0 +1,148 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { NO_TIME_CONTROL, type TimeControl } from '../services/api'
+import {
+  GameWebSocket,
+  type ClientMessage,
+  type MatchFound,
+  type QueueStatus,
+  type ServerMessage,
+} from '../services/websocket'
+import { CLASSIC_SETTINGS, type GameSettings, type GameVariant } from '../utils/gameRules'
+import { DEFAULT_RATING } from '../utils/matchmaking'
+import { t } from '../i18n'
+import { useAuthStore } from './auth'
+
+export interface QueuePreferences {
+  variant: GameVariant
+  settings: GameSettings
+  timeControl: TimeControl
+}
+
+// searching: in the queue; matched: an opponent was found and the game created
+export type QueueState = 'idle' | 'joining' | 'searching' | 'matched'
+
+export const useMatchmakingStore = defineStore('matchmaking', () => {
+  // State
+  const state = ref<QueueState>('idle')
+  // Local Date.now() at which we joined, adjusted to the server's count of our wait
+  const joinedAt = ref<number | null>(null)
+  const status = ref<QueueStatus | null>(null)
+  const match = ref<MatchFound | null>(null)
+  const error = ref<string | null>(null)
+  // Kept out of reactive state so it can be compared with the socket a callback belongs to
+  let ws: GameWebSocket | null = null
+
+  // Actions
+  function buildJoinMessage(preferences: QueuePreferences): ClientMessage {
+    const authStore = useAuthStore()
+    return {
+      type: 'queue_join',
+      rating: authStore.user?.elo_rating ?? DEFAULT_RATING,
+      variant: preferences.variant,
+      board_size: preferences.settings.boardSize,
+      win_length: preferences.settings.winLength,
+      time_control: preferences.timeControl,
+    }
+  }
+
+  // The queue lives on its own socket, closed once we are matched or give up
+  async function joinQueue(
+    preferences: QueuePreferences = {
+      variant: 'classic',
+      settings: CLASSIC_SETTINGS,
+      timeControl: NO_TIME_CONTROL,
+    },
+  ) {
+    if (state.value === 'joining' || state.value === 'searching') return
+    closeSocket()
+    error.value = null
+    status.value = null
+    match.value = null
+    state.value = 'joining'
+
+    const socket = new GameWebSocket()
+    ws = socket
+    const joinMessage = buildJoinMessage(preferences)
+
+    socket.on('queue_status', (message: ServerMessage) => {
+      if (message.type === 'queue_status') {
+        status.value = message
+        joinedAt.value = Date.now() - message.waited_ms
+      }
+    })
+
+    socket.on('match_found', (message: ServerMessage) => {
+      if (message.type === 'match_found') {
+        match.value = message
+        state.value = 'matched'
+        closeSocket()
+      }
+    })
+
+    socket.on('error', (message: ServerMessage) => {
+      if (message.type === 'error') {
+        error.value = message.message
+      }
+    })
+
+    // The server forgets queued players whose socket dropped, so join again after a reconnect
+    socket.onResync(() => {
+      socket.send(joinMessage)
+    })
+
+    try {
+      await socket.connect()
+    } catch (err: unknown) {
+      if (ws === socket) {
+        closeSocket()
+        state.value = 'idle'
+        error.value = err instanceof Error ? err.message : t('errors.joinQueue')
+      }
+      throw err
+    }
+
+    // Left the queue while the socket was still connecting
+    if (ws !== socket) return
+    socket.send(joinMessage)
+    joinedAt.value = Date.now()
+    state.value = 'searching'
+  }
+
+  function leaveQueue() {
+    if (ws && state.value === 'searching') {
+      ws.send({ type: 'queue_leave' })
+    }
+    closeSocket()
+    state.value = 'idle'
+    joinedAt.value = null
+    status.value = null
+  }
+
+  function closeSocket() {
+    if (ws) {
+      ws.disconnect()
+      ws = null
+    }
+  }
+
+  // Clears a handled match so returning home does not jump straight back into it
+  function reset() {
+    leaveQueue()
+    match.value = null
+    error.value = null
+  }
+
+  return {
+    // State
+    state,
+    joinedAt,
+    status,
+    match,
+    error,
+    // Actions
+    joinQueue,
+    leaveQueue,
+    reset,
+  }
+})
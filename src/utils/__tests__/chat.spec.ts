@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  createRateLimiter,
+  filterProfanity,
+  MAX_CHAT_LENGTH,
+  normalizeChatText,
+  validateChatText,
+} from '../chat'
+
+describe('filterProfanity', () => {
+  it('masks blocked words and their common endings', () => {
+    expect(filterProfanity('well SHIT, damned move')).toBe('well ****, ****** move')
+  })
+
+  it('leaves words that merely contain a blocked word alone', () => {
+    expect(filterProfanity('classic assassin scrap')).toBe('classic assassin scrap')
+  })
+})
+
+describe('validateChatText', () => {
+  it('rejects empty and over-long messages', () => {
+    expect(validateChatText('   ')).toBe('Message is empty')
+    expect(validateChatText('a'.repeat(MAX_CHAT_LENGTH + 1))).toMatch(/limited/)
+    expect(validateChatText('gl hf')).toBeNull()
+  })
+
+  it('collapses whitespace before measuring', () => {
+    expect(normalizeChatText('  good \n  game  ')).toBe('good game')
+  })
+})
+
+describe('createRateLimiter', () => {
+  it('allows a burst up to the limit, then frees slots as the window slides', () => {
+    let time = 0
+    const limiter = createRateLimiter(2, 1000, () => time)
+
+    expect(limiter.tryAcquire()).toBe(true)
+    time = 400
+    expect(limiter.tryAcquire()).toBe(true)
+    expect(limiter.tryAcquire()).toBe(false)
+    time = 1000
+    expect(limiter.tryAcquire()).toBe(true)
+    expect(limiter.tryAcquire()).toBe(false)
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  describeTimeControl,
+  formatClock,
+  fromServerClock,
+  remainingTime,
+  stopClock,
+} from '../clock'
+
+const serverClock = {
+  x_remaining_ms: 30000,
+  o_remaining_ms: 45000,
+  turn: 'X' as const,
+  running_since: '2024-01-01T10:00:00.000Z',
+  server_time: '2024-01-01T10:00:02.000Z',
+}
+
+describe('fromServerClock', () => {
+  it('shifts the running timestamp into local time', () => {
+    // Our clock is three seconds behind the server's
+    const receivedAt = Date.parse('2024-01-01T09:59:59.000Z')
+    const clock = fromServerClock(serverClock, receivedAt)
+
+    expect(clock.runningSince).toBe(Date.parse('2024-01-01T09:59:57.000Z'))
+    expect(remainingTime(clock, 'X', receivedAt)).toBe(28000)
+    expect(remainingTime(clock, 'O', receivedAt)).toBe(45000)
+  })
+
+  it('leaves a stopped clock stopped', () => {
+    const clock = fromServerClock({ ...serverClock, turn: null, running_since: null })
+    expect(clock.runningSince).toBeNull()
+    expect(remainingTime(clock, 'X', Date.now() + 60000)).toBe(30000)
+  })
+})
+
+describe('stopClock', () => {
+  it('banks the time used by the side to move', () => {
+    const clock = fromServerClock(serverClock, Date.parse(serverClock.server_time))
+    const stopped = stopClock(clock, Date.parse('2024-01-01T10:00:10.000Z'))
+
+    expect(stopped.remaining).toEqual({ X: 20000, O: 45000 })
+    expect(stopped.turn).toBeNull()
+  })
+
+  it('never goes below zero', () => {
+    const clock = fromServerClock(serverClock, Date.parse(serverClock.server_time))
+    expect(remainingTime(clock, 'X', Date.parse('2024-01-01T11:00:00.000Z'))).toBe(0)
+  })
+})
+
+describe('formatClock', () => {
+  it('shows minutes and seconds, and tenths near the end', () => {
+    expect(formatClock(185000)).toBe('3:05')
+    expect(formatClock(10001)).toBe('0:11')
+    expect(formatClock(9870)).toBe('9.8')
+    expect(formatClock(-5)).toBe('0.0')
+  })
+})
+
+describe('describeTimeControl', () => {
+  it('names each kind of control', () => {
+    expect(describeTimeControl({ kind: 'none' })).toBe('Untimed')
+    expect(describeTimeControl({ kind: 'per_move', move_seconds: 15 })).toBe('15 s per move')
+    expect(describeTimeControl({ kind: 'bank', initial_seconds: 180, increment_seconds: 2 })).toBe(
+      '3 min + 2 s',
+    )
+  })
+})
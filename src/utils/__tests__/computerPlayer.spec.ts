@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  chooseMove,
+  heuristicMove,
+  perfectMove,
+  randomMove,
+  type Difficulty,
+} from '../computerPlayer'
+import {
+  applyMove,
+  createEmptyBoard,
+  getOutcome,
+  getTurn,
+  isLegalMove,
+  type Board,
+  type PlayerSymbol,
+} from '../gameRules'
+
+const board = (rows: string[]): Board =>
+  rows.map((row) => [...row].map((cell) => (cell === 'X' || cell === 'O' ? cell : null)))
+
+// Plays a full game between two strategies and returns the winner
+const playOut = (x: Difficulty, o: Difficulty, random: () => number) => {
+  let b = createEmptyBoard()
+  let turn: PlayerSymbol | null = 'X'
+  while (turn) {
+    const move = chooseMove(b, turn, turn === 'X' ? x : o, random)
+    b = applyMove(b, move!, turn)
+    turn = getTurn(b)
+  }
+  return getOutcome(b).winner
+}
+
+// Small deterministic PRNG so the playouts are reproducible
+const seeded = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647
+  return (seed - 1) / 2147483646
+}
+
+describe('computerPlayer', () => {
+  it('random picks a legal move and returns null on a finished board', () => {
+    const b = board(['XO.', 'OX.', '...'])
+    expect(isLegalMove(b, randomMove(b, () => 0.99)!)).toBe(true)
+    expect(randomMove(board(['XXX', 'OO.', '...']))).toBeNull()
+  })
+
+  describe('heuristic', () => {
+    it('completes its own line', () => {
+      expect(heuristicMove(board(['OO.', 'XX.', 'X..']), 'O')).toEqual({ row: 0, col: 2 })
+    })
+
+    it('blocks the opponent', () => {
+      expect(heuristicMove(board(['XX.', 'O..', '...']), 'O')).toEqual({ row: 0, col: 2 })
+    })
+
+    it('takes the centre when nothing is urgent', () => {
+      expect(heuristicMove(board(['X..', '...', '...']), 'O')).toEqual({ row: 1, col: 1 })
+    })
+  })
+
+  describe('perfect', () => {
+    it('wins immediately rather than later', () => {
+      expect(perfectMove(board(['XX.', 'OO.', '...']), 'X')).toEqual({ row: 0, col: 2 })
+    })
+
+    it('blocks a fork setup', () => {
+      // X holds opposite corners; taking a corner would let X fork, so O must take an edge
+      const move = perfectMove(board(['X..', '.O.', '..X']), 'O')!
+      expect((move.row + move.col) % 2).toBe(1)
+    })
+
+    it('never loses against random or heuristic play', () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        expect(playOut('perfect', 'random', seeded(seed))).not.toBe('O')
+        expect(playOut('random', 'perfect', seeded(seed))).not.toBe('X')
+        expect(playOut('heuristic', 'perfect', seeded(seed))).not.toBe('X')
+      }
+    })
+
+    it('draws against itself', () => {
+      expect(playOut('perfect', 'perfect', Math.random)).toBe('DRAW')
+    })
+  })
+})
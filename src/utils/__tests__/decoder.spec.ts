@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  array,
+  decode,
+  DecodeError,
+  integer,
+  intersect,
+  literal,
+  nullable,
+  object,
+  optional,
+  refine,
+  string,
+  taggedUnion,
+} from '../decoder'
+
+const expectDecodeError = (run: () => unknown, path: string, message: string) => {
+  try {
+    run()
+  } catch (error) {
+    expect(error).toBeInstanceOf(DecodeError)
+    expect((error as DecodeError).path).toBe(path)
+    expect((error as DecodeError).message).toBe(message)
+    return
+  }
+  throw new Error('Expected a DecodeError')
+}
+
+describe('decoder', () => {
+  it('accepts matching primitives and rejects others with a description', () => {
+    expect(decode(string, 'x')).toBe('x')
+    expect(decode(integer, 3)).toBe(3)
+    expectDecodeError(() => decode(integer, 1.5), '$', 'Expected an integer at $, got 1.5')
+    expectDecodeError(() => decode(string, null), '$', 'Expected a string at $, got null')
+  })
+
+  it('checks literals and nullable values', () => {
+    const symbol = nullable(literal('X', 'O'))
+    expect(decode(symbol, null)).toBeNull()
+    expect(decode(symbol, 'O')).toBe('O')
+    expectDecodeError(() => decode(symbol, 'Z'), '$', 'Expected "X" | "O" at $, got "Z"')
+  })
+
+  it('reports the path of a bad array element', () => {
+    const grid = array(array(integer))
+    expectDecodeError(
+      () =>
+        decode(grid, [
+          [1, 2],
+          [3, 'four'],
+        ]),
+      '$[1][1]',
+      'Expected an integer at $[1][1], got "four"',
+    )
+  })
+
+  it('keeps known object fields, drops unknown ones and allows optional ones to be missing', () => {
+    const user = object({ id: string, nickname: optional(string) })
+
+    expect(decode(user, { id: 'u1', extra: true })).toEqual({ id: 'u1' })
+    expect(decode(user, { id: 'u1', nickname: 'zz' })).toEqual({ id: 'u1', nickname: 'zz' })
+    expectDecodeError(() => decode(user, {}), '$.id', 'Expected a string at $.id, got undefined')
+  })
+
+  it('picks the tagged union member by its tag', () => {
+    const shape = taggedUnion('kind', {
+      circle: object({ radius: integer }),
+      square: object({ side: integer }),
+    })
+
+    expect(decode(shape, { kind: 'square', side: 2 })).toEqual({ kind: 'square', side: 2 })
+    expectDecodeError(
+      () => decode(shape, { kind: 'circle', side: 2 }),
+      '$.radius',
+      'Expected an integer at $.radius, got undefined',
+    )
+    expectDecodeError(
+      () => decode(shape, { kind: 'hexagon' }),
+      '$.kind',
+      'Expected "circle" | "square" at $.kind, got "hexagon"',
+    )
+  })
+
+  it('combines decoders and applies refinements', () => {
+    const even = refine(integer, (value) => value % 2 === 0, 'an even integer')
+    const point = intersect(object({ x: even }), object({ y: integer }))
+
+    expect(decode(point, { x: 2, y: 3 })).toEqual({ x: 2, y: 3 })
+    expectDecodeError(
+      () => decode(point, { x: 1, y: 3 }),
+      '$.x',
+      'Expected an even integer at $.x, got 1',
+    )
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  expectedScore,
+  formatRatingChange,
+  isProvisional,
+  kFactor,
+  MASTER_K,
+  PROVISIONAL_GAMES,
+  PROVISIONAL_K,
+  previewRatingChanges,
+  ratingChange,
+  STANDARD_K,
+} from '../elo'
+
+const established = (rating: number) => ({ rating, gamesPlayed: 100 })
+
+describe('expectedScore', () => {
+  it('is even between equal ratings', () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5)
+  })
+
+  it('favours the higher rating, 400 points being ten to one', () => {
+    expect(expectedScore(1600, 1200)).toBeCloseTo(10 / 11)
+    expect(expectedScore(1200, 1600)).toBeCloseTo(1 / 11)
+  })
+
+  it('sums to one for both sides', () => {
+    expect(expectedScore(1432, 1287) + expectedScore(1287, 1432)).toBeCloseTo(1)
+  })
+})
+
+describe('kFactor', () => {
+  it('is high while a player is provisional', () => {
+    expect(isProvisional(PROVISIONAL_GAMES - 1)).toBe(true)
+    expect(isProvisional(PROVISIONAL_GAMES)).toBe(false)
+    expect(kFactor({ rating: 1200, gamesPlayed: 0 }, established(1200))).toBe(PROVISIONAL_K)
+  })
+
+  it('is lower for masters', () => {
+    expect(kFactor(established(2399), established(2399))).toBe(STANDARD_K)
+    expect(kFactor(established(2400), established(2400))).toBe(MASTER_K)
+  })
+
+  it('halves for established players facing a provisional one', () => {
+    expect(kFactor(established(1500), { rating: 1500, gamesPlayed: 3 })).toBe(STANDARD_K / 2)
+  })
+})
+
+describe('ratingChange', () => {
+  it('moves equal players by half the K-factor', () => {
+    expect(ratingChange(established(1500), established(1500), 'win')).toBe(10)
+    expect(ratingChange(established(1500), established(1500), 'draw')).toBe(0)
+    expect(ratingChange(established(1500), established(1500), 'loss')).toBe(-10)
+  })
+
+  it('rewards upsets more than expected wins', () => {
+    const changes = previewRatingChanges(established(1200), established(1600))
+    expect(changes).toEqual({ win: 18, draw: 8, loss: -2 })
+  })
+
+  it('moves provisional players further', () => {
+    const newcomer = { rating: 1200, gamesPlayed: 2 }
+    expect(previewRatingChanges(newcomer, established(1200))).toEqual({
+      win: 20,
+      draw: 0,
+      loss: -20,
+    })
+  })
+})
+
+describe('formatRatingChange', () => {
+  it('signs the change', () => {
+    expect(formatRatingChange(12)).toBe('+12')
+    expect(formatRatingChange(-5)).toBe('-5')
+    expect(formatRatingChange(0)).toBe('±0')
+  })
+})
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  applyMove,
+  completesLine,
+  createEmptyBoard,
+  formatPosition,
+  getLegalMoves,
+  getOutcome,
+  getTurn,
+  isLegalMove,
+  opponentOf,
+  parsePosition,
+  validateSettings,
+  type Board,
+} from '../gameRules'
+
+const board = (rows: string[]): Board =>
+  rows.map((row) => [...row].map((cell) => (cell === 'X' || cell === 'O' ? cell : null)))
+
+describe('gameRules', () => {
+  it('creates an empty 3x3 board', () => {
+    expect(createEmptyBoard()).toEqual([
+      [null, null, null],
+      [null, null, null],
+      [null, null, null],
+    ])
+  })
+
+  it('creates boards of any size', () => {
+    const b = createEmptyBoard(15)
+    expect(b).toHaveLength(15)
+    expect(b.every((row) => row.length === 15 && row.every((cell) => cell === null))).toBe(true)
+  })
+
+  it('validates board size and win length', () => {
+    expect(validateSettings({ boardSize: 3, winLength: 3 })).toBeNull()
+    expect(validateSettings({ boardSize: 15, winLength: 5 })).toBeNull()
+    expect(validateSettings({ boardSize: 2, winLength: 3 })).toMatch(/Board size/)
+    expect(validateSettings({ boardSize: 16, winLength: 5 })).toMatch(/Board size/)
+    expect(validateSettings({ boardSize: 10, winLength: 6 })).toMatch(/Win length/)
+    expect(validateSettings({ boardSize: 4, winLength: 5 })).toMatch(/exceed/)
+  })
+
+  it('formats and parses positions', () => {
+    expect(formatPosition({ row: 2, col: 1 })).toBe('2,1')
+    expect(parsePosition('2,1')).toEqual({ row: 2, col: 1 })
+    expect(parsePosition(' 0 , 2 ')).toEqual({ row: 0, col: 2 })
+    expect(parsePosition('14,10')).toEqual({ row: 14, col: 10 })
+    expect(parsePosition('a,1')).toBeNull()
+    expect(parsePosition('1')).toBeNull()
+  })
+
+  it('returns the opponent symbol', () => {
+    expect(opponentOf('X')).toBe('O')
+    expect(opponentOf('O')).toBe('X')
+  })
+
+  describe('getOutcome', () => {
+    it('reports no winner on an unfinished board', () => {
+      expect(getOutcome(board(['X..', '.O.', '...']))).toEqual({ winner: null, line: null })
+    })
+
+    it('detects a row win with its line', () => {
+      expect(getOutcome(board(['OO.', 'XXX', '...']))).toEqual({
+        winner: 'X',
+        line: [
+          { row: 1, col: 0 },
+          { row: 1, col: 1 },
+          { row: 1, col: 2 },
+        ],
+      })
+    })
+
+    it('detects a column win', () => {
+      expect(getOutcome(board(['XO.', 'XO.', '.OX'])).winner).toBe('O')
+    })
+
+    it('detects both diagonals', () => {
+      expect(getOutcome(board(['XO.', 'OX.', '..X'])).line).toEqual([
+        { row: 0, col: 0 },
+        { row: 1, col: 1 },
+        { row: 2, col: 2 },
+      ])
+      expect(getOutcome(board(['XXO', 'XO.', 'O..'])).line).toEqual([
+        { row: 0, col: 2 },
+        { row: 1, col: 1 },
+        { row: 2, col: 0 },
+      ])
+    })
+
+    it('detects a draw on a full board without a line', () => {
+      expect(getOutcome(board(['XOX', 'XOO', 'OXX']))).toEqual({ winner: 'DRAW', line: null })
+    })
+
+    it('prefers a win over a draw when the last move fills the board', () => {
+      expect(getOutcome(board(['XOX', 'OXO', 'OXX'])).winner).toBe('X')
+    })
+  })
+
+  describe('k-in-a-row', () => {
+    it('needs the configured number of symbols', () => {
+      const b = board(['XXX..', 'OO...', '.....', '.....', '.....'])
+      expect(getOutcome(b, 3).winner).toBe('X')
+      expect(getOutcome(b, 4).winner).toBeNull()
+    })
+
+    it('finds runs anywhere on a large board', () => {
+      const b = createEmptyBoard(15)
+      for (let i = 0; i < 5; i++) b[3 + i]![10 - i] = 'O'
+      expect(getOutcome(b, 5)).toEqual({
+        winner: 'O',
+        line: [
+          { row: 3, col: 10 },
+          { row: 4, col: 9 },
+          { row: 5, col: 8 },
+          { row: 6, col: 7 },
+          { row: 7, col: 6 },
+        ],
+      })
+    })
+
+    it('defaults to five in a row on large boards', () => {
+      const b = createEmptyBoard(9)
+      for (let i = 0; i < 4; i++) b[0]![i] = 'X'
+      expect(getOutcome(b).winner).toBeNull()
+      b[0]![4] = 'X'
+      expect(getOutcome(b).winner).toBe('X')
+    })
+
+    it('checks lines through a single cell', () => {
+      const b = board(['X....', '.X...', '..X..', '...X.', '.....'])
+      expect(completesLine(b, { row: 2, col: 2 }, 4)).toBe(true)
+      expect(completesLine(b, { row: 2, col: 2 }, 5)).toBe(false)
+      expect(completesLine(b, { row: 4, col: 4 }, 4)).toBe(false)
+    })
+  })
+
+  describe('getTurn', () => {
+    it('starts with X and alternates', () => {
+      expect(getTurn(createEmptyBoard())).toBe('X')
+      expect(getTurn(board(['X..', '...', '...']))).toBe('O')
+      expect(getTurn(board(['XO.', '...', '...']))).toBe('X')
+    })
+
+    it('returns null once the game is over', () => {
+      expect(getTurn(board(['XXX', 'OO.', '...']))).toBeNull()
+    })
+  })
+
+  describe('legal moves', () => {
+    it('allows only empty in-bounds cells', () => {
+      const b = board(['X..', '...', '...'])
+      expect(isLegalMove(b, { row: 0, col: 0 })).toBe(false)
+      expect(isLegalMove(b, { row: 0, col: 1 })).toBe(true)
+      expect(isLegalMove(b, { row: 3, col: 0 })).toBe(false)
+      expect(isLegalMove(b, { row: 0, col: -1 })).toBe(false)
+    })
+
+    it('lists every empty cell in reading order', () => {
+      expect(getLegalMoves(board(['XOX', 'O.X', 'OX.']))).toEqual([
+        { row: 1, col: 1 },
+        { row: 2, col: 2 },
+      ])
+    })
+
+    it('has no legal moves after a win', () => {
+      const b = board(['XXX', 'OO.', '...'])
+      expect(getLegalMoves(b)).toEqual([])
+      expect(isLegalMove(b, { row: 1, col: 2 })).toBe(false)
+    })
+  })
+
+  describe('applyMove', () => {
+    it('returns a new board without mutating the original', () => {
+      const before = createEmptyBoard()
+      const after = applyMove(before, { row: 1, col: 1 }, 'X')
+      expect(after[1]![1]).toBe('X')
+      expect(before[1]![1]).toBeNull()
+    })
+
+    it('throws on an occupied cell', () => {
+      expect(() => applyMove(board(['X..', '...', '...']), { row: 0, col: 0 }, 'O')).toThrow(
+        'Illegal move at 0,0',
+      )
+    })
+  })
+})
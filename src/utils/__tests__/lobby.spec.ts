@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { formatAge, matchesQuery } from '../lobby'
+import type { LobbyEntry } from '../../services/api'
+
+const entry = (overrides: Partial<LobbyEntry['game']> = {}, rating = 1200): LobbyEntry => ({
+  game: {
+    id: 'g1',
+    player_x_id: 'u1',
+    player_o_id: null,
+    status: 'waiting',
+    variant: 'classic',
+    board_size: 3,
+    win_length: 3,
+    created_at: '2024-01-01T12:00:00Z',
+    ...overrides,
+  },
+  creator: { id: 'u1', username: 'alice', elo_rating: rating },
+})
+
+describe('matchesQuery', () => {
+  it('accepts any waiting game without filters', () => {
+    expect(matchesQuery(entry(), {})).toBe(true)
+  })
+
+  it('rejects games that are no longer waiting', () => {
+    expect(matchesQuery(entry({ status: 'ongoing' }), {})).toBe(false)
+  })
+
+  it('filters by variant', () => {
+    expect(matchesQuery(entry({ variant: 'ultimate' }), { variant: 'classic' })).toBe(false)
+    expect(matchesQuery(entry({ variant: 'ultimate' }), { variant: 'ultimate' })).toBe(true)
+  })
+
+  it('filters by creator rating, bounds included', () => {
+    const query = { minRating: 1100, maxRating: 1300 }
+    expect(matchesQuery(entry({}, 1100), query)).toBe(true)
+    expect(matchesQuery(entry({}, 1300), query)).toBe(true)
+    expect(matchesQuery(entry({}, 1099), query)).toBe(false)
+    expect(matchesQuery(entry({}, 1301), query)).toBe(false)
+  })
+})
+
+describe('formatAge', () => {
+  const created = '2024-01-01T12:00:00Z'
+  const at = (ms: number) => Date.parse(created) + ms
+
+  it('rounds down to the largest whole unit', () => {
+    expect(formatAge(created, at(30 * 1000))).toBe('just now')
+    expect(formatAge(created, at(5 * 60 * 1000 + 59 * 1000))).toBe('5 min ago')
+    expect(formatAge(created, at(2 * 3600 * 1000 + 1))).toBe('2 h ago')
+    expect(formatAge(created, at(3 * 24 * 3600 * 1000))).toBe('3 d ago')
+  })
+
+  it('treats timestamps slightly in the future as new', () => {
+    expect(formatAge(created, at(-5000))).toBe('just now')
+  })
+
+  it('returns an empty string for unparseable dates', () => {
+    expect(formatAge('not a date')).toBe('')
+  })
+})
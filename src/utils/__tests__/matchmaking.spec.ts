@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  formatWaitTime,
+  INITIAL_RATING_WINDOW,
+  MAX_RATING_WINDOW,
+  ratingRange,
+  ratingWindow,
+} from '../matchmaking'
+
+describe('ratingWindow', () => {
+  it('starts narrow and widens in steps while waiting', () => {
+    expect(ratingWindow(0)).toBe(INITIAL_RATING_WINDOW)
+    expect(ratingWindow(9999)).toBe(INITIAL_RATING_WINDOW)
+    expect(ratingWindow(10000)).toBe(INITIAL_RATING_WINDOW + 50)
+    expect(ratingWindow(35000)).toBe(INITIAL_RATING_WINDOW + 150)
+  })
+
+  it('stops widening at the maximum', () => {
+    expect(ratingWindow(10 * 60 * 1000)).toBe(MAX_RATING_WINDOW)
+  })
+})
+
+describe('ratingRange', () => {
+  it('centres the window on the rating without going negative', () => {
+    expect(ratingRange(1200, 150)).toEqual({ min: 1050, max: 1350 })
+    expect(ratingRange(50, 100)).toEqual({ min: 0, max: 150 })
+  })
+})
+
+describe('formatWaitTime', () => {
+  it('shows minutes and seconds', () => {
+    expect(formatWaitTime(0)).toBe('0:00')
+    expect(formatWaitTime(75400)).toBe('1:15')
+  })
+})
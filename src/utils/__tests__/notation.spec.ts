@@ -0,0 +1,223 @@
+import { describe, it, expect, afterEach } from 'vitest'
+
+import {
+  formatNotation,
+  NotationError,
+  parseNotation,
+  recordPlayers,
+  toSquare,
+  type GameRecord,
+} from '../notation'
+import { setLocale } from '../../i18n'
+
+const parseError = (text: string): NotationError => {
+  try {
+    parseNotation(text)
+  } catch (error) {
+    if (error instanceof NotationError) return error
+    throw error
+  }
+  throw new Error('Expected the notation to be rejected')
+}
+
+afterEach(() => {
+  setLocale('en')
+  localStorage.clear()
+})
+
+describe('toSquare', () => {
+  it('names classic and ultimate positions', () => {
+    expect(toSquare('0,0')).toBe('a1')
+    expect(toSquare('2,1')).toBe('b3')
+    expect(toSquare('14,14')).toBe('o15')
+    expect(toSquare('1,1,0,2')).toBe('b2:c1')
+  })
+})
+
+describe('recordPlayers', () => {
+  it('names players by username, falling back to their id', () => {
+    const game = { player_x_id: 'user-1', player_o_id: 'user-2' }
+
+    expect(recordPlayers(game, { 'user-1': 'alice' })).toEqual({ X: 'alice', O: 'user-2' })
+    expect(recordPlayers({ ...game, player_o_id: null }, {})).toEqual({ X: 'user-1', O: '?' })
+  })
+})
+
+describe('formatNotation', () => {
+  it('writes headers and numbered moves', () => {
+    const record: GameRecord = {
+      variant: 'classic',
+      settings: { boardSize: 3, winLength: 3 },
+      players: { X: 'alice', O: 'bob' },
+      date: '2024-05-01',
+      result: null,
+      termination: null,
+      moves: [
+        { position: '1,1', symbol: 'X' },
+        { position: '0,0', symbol: 'O' },
+        { position: '2,2', symbol: 'X' },
+      ],
+    }
+
+    expect(formatNotation(record)).toBe(
+      [
+        '[Variant "classic"]',
+        '[Size "3"]',
+        '[WinLength "3"]',
+        '[X "alice"]',
+        '[O "bob"]',
+        '[Date "2024-05-01"]',
+        '[Result "*"]',
+        '',
+        '1. b2 a1 2. c3',
+        '',
+      ].join('\n'),
+    )
+  })
+})
+
+describe('parseNotation', () => {
+  it('round-trips an exported game', () => {
+    const record: GameRecord = {
+      variant: 'classic',
+      settings: { boardSize: 15, winLength: 5 },
+      players: { X: 'alice', O: 'bob' },
+      date: '2024-05-01',
+      result: 'X',
+      termination: null,
+      moves: [
+        { position: '7,7', symbol: 'X' },
+        { position: '0,0', symbol: 'O' },
+        { position: '7,8', symbol: 'X' },
+        { position: '0,1', symbol: 'O' },
+        { position: '7,9', symbol: 'X' },
+        { position: '0,2', symbol: 'O' },
+        { position: '7,10', symbol: 'X' },
+        { position: '0,3', symbol: 'O' },
+        { position: '7,11', symbol: 'X' },
+      ],
+    }
+
+    expect(parseNotation(formatNotation(record))).toEqual(record)
+  })
+
+  it.each([
+    ['resigned', 'resignation', 'O'],
+    ['timed-out', 'timeout', 'X'],
+    ['drawn by agreement', 'agreement', 'DRAW'],
+  ] as const)('round-trips a %s game', (_, termination, result) => {
+    const record: GameRecord = {
+      variant: 'classic',
+      settings: { boardSize: 3, winLength: 3 },
+      players: { X: 'alice', O: 'bob' },
+      date: '2024-05-01',
+      result,
+      termination,
+      moves: [
+        { position: '1,1', symbol: 'X' },
+        { position: '0,0', symbol: 'O' },
+      ],
+    }
+
+    const text = formatNotation(record)
+    expect(text).toContain(`[Termination "${termination}"]`)
+    expect(parseNotation(text)).toEqual(record)
+  })
+
+  it('round-trips an ultimate game', () => {
+    const record: GameRecord = {
+      variant: 'ultimate',
+      settings: { boardSize: 3, winLength: 3 },
+      players: { X: 'alice', O: 'bob' },
+      date: '',
+      result: null,
+      termination: null,
+      moves: [
+        { position: '1,1,0,2', symbol: 'X' },
+        { position: '0,2,1,1', symbol: 'O' },
+      ],
+    }
+
+    expect(parseNotation(formatNotation(record))).toEqual(record)
+  })
+
+  it('accepts bare moves with defaults for missing headers', () => {
+    const record = parseNotation('b2 a1\nc3')
+
+    expect(record.variant).toBe('classic')
+    expect(record.settings).toEqual({ boardSize: 3, winLength: 3 })
+    expect(record.players).toEqual({ X: '?', O: '?' })
+    expect(record.moves.map((move) => move.symbol)).toEqual(['X', 'O', 'X'])
+  })
+
+  it('points at a malformed square', () => {
+    const error = parseError('[Variant "classic"]\n\n1. b2 zz')
+
+    expect(error.line).toBe(3)
+    expect(error.column).toBe(7)
+    expect(error.message).toBe('Line 3, column 7: Expected a square like b2, got "zz"')
+  })
+
+  it('rejects squares off the board', () => {
+    expect(parseError('1. d1').message).toBe('Line 1, column 4: d1 is off the 3×3 board')
+  })
+
+  it('rejects a move on an occupied square', () => {
+    expect(parseError('1. b2 b2').message).toBe(
+      'Line 1, column 7: Illegal move O b2: b2 is already taken',
+    )
+  })
+
+  it('rejects moves after the game is over', () => {
+    expect(parseError('1. a1 b1 2. a2 b2 3. a3 c3').message).toBe(
+      'Line 1, column 25: Illegal move O c3: the game is already over',
+    )
+  })
+
+  it('rejects an ultimate move outside the sub-board it was sent to', () => {
+    expect(parseError('[Variant "ultimate"]\n1. b2:c1 a1:a1').message).toBe(
+      'Line 2, column 10: Illegal move O a1:a1: the move must be played in sub-board c1',
+    )
+  })
+
+  it('rejects a result that does not match the moves', () => {
+    const error = parseError('[Result "O"]\n1. a1 b1 2. a2 b2 3. a3')
+
+    expect(error.line).toBe(1)
+    expect(error.message).toContain('Result "O" does not match the moves, which end in X')
+  })
+
+  it('rejects a termination that does not fit the game', () => {
+    expect(parseError('[Result "X"]\n[Termination "abandoned"]').message).toBe(
+      'Line 2, column 15: Unknown termination "abandoned", expected timeout, resignation or agreement',
+    )
+    expect(parseError('[Result "*"]\n[Termination "resignation"]\n1. b2').message).toBe(
+      'Line 2, column 15: A game ended by resignation needs the Result X or O',
+    )
+    expect(
+      parseError('[Result "X"]\n[Termination "timeout"]\n1. a1 b1 2. a2 b2 3. a3').message,
+    ).toBe('Line 2, column 15: The moves already end the game, so it cannot end by timeout')
+  })
+
+  it('rejects wrong move numbers', () => {
+    expect(parseError('1. a1 b1 3. c1').message).toBe('Line 1, column 10: Expected move number 2.')
+  })
+
+  it('rejects unknown and misplaced headers', () => {
+    expect(parseError('[Event "club"]').message).toBe('Line 1, column 2: Unknown header "Event"')
+    expect(parseError('1. a1\n[Result "*"]').message).toBe(
+      'Line 2, column 1: Headers must come before the moves',
+    )
+    expect(parseError('[Size "20"]').message).toBe(
+      'Line 1, column 8: Board size must be between 3 and 15',
+    )
+  })
+
+  it('explains problems in the current language', () => {
+    setLocale('fr')
+
+    expect(parseError('1. b2 b2').message).toBe(
+      'Ligne 1, colonne 7 : Coup illégal O b2 : b2 est déjà prise',
+    )
+  })
+})
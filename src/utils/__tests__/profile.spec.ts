@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildRatingChart,
+  combineRecords,
+  describeStreak,
+  formatWinRate,
+  winRate,
+} from '../profile'
+
+const size = { width: 200, height: 100, padding: 10 }
+
+const point = (rating: number, recordedAt: string) => ({
+  rating,
+  recorded_at: recordedAt,
+  game_id: null,
+})
+
+describe('player records', () => {
+  it('adds up records', () => {
+    expect(
+      combineRecords({ wins: 3, losses: 1, draws: 2 }, { wins: 1, losses: 4, draws: 0 }),
+    ).toEqual({ wins: 4, losses: 5, draws: 2 })
+  })
+
+  it('counts draws as played but not won', () => {
+    expect(winRate({ wins: 1, losses: 1, draws: 2 })).toBe(0.25)
+    expect(formatWinRate(2 / 3)).toBe('67%')
+  })
+
+  it('has no win rate before any game', () => {
+    expect(winRate({ wins: 0, losses: 0, draws: 0 })).toBeNull()
+    expect(formatWinRate(null)).toBe('–')
+  })
+
+  it('describes streaks', () => {
+    expect(describeStreak({ result: 'win', length: 3 })).toBe('3 wins')
+    expect(describeStreak({ result: 'loss', length: 1 })).toBe('1 loss')
+    expect(describeStreak({ result: null, length: 0 })).toBe('No games yet')
+  })
+})
+
+describe('buildRatingChart', () => {
+  it('spaces points by time and puts higher ratings nearer the top', () => {
+    const chart = buildRatingChart(
+      [
+        point(1200, '2024-01-01T00:00:00Z'),
+        point(1300, '2024-01-02T00:00:00Z'),
+        point(1250, '2024-01-05T00:00:00Z'),
+      ],
+      size,
+    )
+
+    expect(chart.points.map((p) => p.x)).toEqual([10, 55, 190])
+    expect(chart.points.map((p) => p.y)).toEqual([90, 10, 50])
+    expect(chart.path).toBe('M10,90 L55,10 L190,50')
+  })
+
+  it('spaces points evenly when their times cannot be used', () => {
+    const chart = buildRatingChart(
+      [point(1200, 'unknown'), point(1210, 'unknown'), point(1220, 'unknown')],
+      size,
+    )
+
+    expect(chart.points.map((p) => p.x)).toEqual([10, 100, 190])
+  })
+
+  it('centres a flat history instead of stretching it', () => {
+    const chart = buildRatingChart([point(1200, 'a'), point(1200, 'b')], size)
+
+    expect(chart.points.map((p) => p.y)).toEqual([50, 50])
+    expect(chart.ticks.map((tick) => tick.rating)).toEqual([1150, 1183, 1217, 1250])
+  })
+
+  it('draws nothing without history', () => {
+    expect(buildRatingChart([], size)).toEqual({ points: [], path: '', ticks: [] })
+  })
+})
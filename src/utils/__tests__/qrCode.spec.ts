@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest'
+import {
+  encodeQr,
+  formatBits,
+  qrToSvgPath,
+  reedSolomonDivisor,
+  reedSolomonRemainder,
+  type QrCode,
+} from '../qrCode'
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+]
+
+const dark = (code: QrCode, x: number, y: number) => code.modules[y]![x]!
+
+// The format bits next to the top-left finder, bit 14 first
+const readFormat = (code: QrCode) => {
+  const cells: [number, number][] = [
+    [0, 8],
+    [1, 8],
+    [2, 8],
+    [3, 8],
+    [4, 8],
+    [5, 8],
+    [7, 8],
+    [8, 8],
+    [8, 7],
+    [8, 5],
+    [8, 4],
+    [8, 3],
+    [8, 2],
+    [8, 1],
+    [8, 0],
+  ]
+  return cells.reduce((bits, [x, y]) => (bits << 1) | (dark(code, x, y) ? 1 : 0), 0)
+}
+
+// Reads a version 1 symbol back to its codewords, independently of the encoder's placement code
+const readVersion1 = (code: QrCode) => {
+  const mask = ((readFormat(code) ^ 0x5412) >>> 10) & 7
+  const size = code.size
+  const reserved = (x: number, y: number) =>
+    (x < 9 && y < 9) || (x >= size - 8 && y < 9) || (x < 9 && y >= size - 8) || x === 6 || y === 6
+
+  const bits: number[] = []
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    const upward = ((right + 1) & 2) === 0
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step
+      for (const x of [right, right - 1]) {
+        if (!reserved(x, y)) bits.push(dark(code, x, y) !== MASKS[mask]!(x, y) ? 1 : 0)
+      }
+    }
+  }
+  const codewords: number[] = []
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+describe('reedSolomonRemainder', () => {
+  it('matches the worked example for HELLO WORLD at 1-M', () => {
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17]
+    expect(reedSolomonRemainder(data, reedSolomonDivisor(10))).toEqual([
+      196, 35, 39, 119, 235, 215, 231, 226, 93, 23,
+    ])
+  })
+})
+
+describe('formatBits', () => {
+  it('matches the standard table', () => {
+    expect(formatBits('M', 0)).toBe(0b101010000010010)
+    expect(formatBits('L', 4)).toBe(0b110011000101111)
+    expect(formatBits('H', 7)).toBe(0b000100000111011)
+  })
+})
+
+describe('encodeQr', () => {
+  it('picks the smallest version that fits', () => {
+    expect(encodeQr('hello').size).toBe(21)
+    // 61 bytes, just under the 62 that fit in version 4 at level M
+    const invite = 'https://example.com/join/0f8fad5b-d9cb-469f-a165-70867728950e'
+    expect(encodeQr(invite).version).toBe(4)
+    expect(encodeQr(`${invite}!!`).version).toBe(5)
+    expect(encodeQr('x'.repeat(120)).version).toBe(7)
+  })
+
+  it('draws the finder and timing patterns and the dark module', () => {
+    const code = encodeQr('hello')
+    const finderRow = [true, true, true, true, true, true, true, false]
+    for (const [x, y] of [
+      [0, 0],
+      [code.size - 7, 0],
+      [0, code.size - 7],
+    ] as const) {
+      expect([0, 1, 2, 3, 4, 5, 6].map((i) => dark(code, x + i, y))).toEqual(finderRow.slice(0, 7))
+      expect(dark(code, x + 2, y + 2)).toBe(true)
+      expect(dark(code, x + 1, y + 1)).toBe(false)
+    }
+    for (let i = 8; i < code.size - 8; i++) {
+      expect(dark(code, i, 6)).toBe(i % 2 === 0)
+      expect(dark(code, 6, i)).toBe(i % 2 === 0)
+    }
+    expect(dark(code, 8, code.size - 8)).toBe(true)
+  })
+
+  it('writes matching format information in both copies', () => {
+    const code = encodeQr('hello', 'Q')
+    const format = readFormat(code)
+    const mask = ((format ^ 0x5412) >>> 10) & 7
+    expect(format).toBe(formatBits('Q', mask))
+
+    let second = 0
+    for (let i = 0; i < 7; i++) second = (second << 1) | (dark(code, 8, code.size - 1 - i) ? 1 : 0)
+    for (let i = 7; i >= 0; i--) second = (second << 1) | (dark(code, code.size - 1 - i, 8) ? 1 : 0)
+    expect(second).toBe(format)
+  })
+
+  it('stores the text and valid error correction', () => {
+    const code = encodeQr('Hi, zizou!')
+    const codewords = readVersion1(code)
+    const data = codewords.slice(0, 16)
+    const ecc = codewords.slice(16, 26)
+
+    expect(reedSolomonRemainder(data, reedSolomonDivisor(10))).toEqual(ecc)
+    expect(data[0]! >>> 4).toBe(0b0100)
+    const length = ((data[0]! & 0xf) << 4) | (data[1]! >>> 4)
+    const bytes = Array.from(
+      { length },
+      (_, i) => ((data[i + 1]! & 0xf) << 4) | (data[i + 2]! >>> 4),
+    )
+    expect(new TextDecoder().decode(new Uint8Array(bytes))).toBe('Hi, zizou!')
+  })
+
+  it('adds version information from version 7', () => {
+    const code = encodeQr('x'.repeat(120))
+    let bits = 0
+    for (let i = 17; i >= 0; i--) {
+      bits = (bits << 1) | (dark(code, code.size - 11 + (i % 3), Math.floor(i / 3)) ? 1 : 0)
+    }
+    expect(bits).toBe(0b000111110010010100)
+  })
+
+  it('rejects text too long for the supported versions', () => {
+    expect(() => encodeQr('x'.repeat(300))).toThrow('Text is too long for a QR code')
+  })
+})
+
+describe('qrToSvgPath', () => {
+  it('draws a unit square per dark module inside the quiet zone', () => {
+    const code = {
+      version: 1,
+      size: 2,
+      modules: [
+        [true, false],
+        [false, true],
+      ],
+    }
+    expect(qrToSvgPath(code)).toBe('M4,4h1v1h-1zM5,5h1v1h-1z')
+  })
+})
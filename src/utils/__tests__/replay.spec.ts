@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+
+import { CLASSIC_SETTINGS } from '../gameRules'
+import { buildReplay, parseMovePosition, snapshotOutcome } from '../replay'
+
+describe('buildReplay', () => {
+  it('starts from an empty board and adds one frame per move', () => {
+    const frames = buildReplay(
+      [
+        { position: '1,1', symbol: 'X' },
+        { position: '0,0', symbol: 'O' },
+      ],
+      'classic',
+      CLASSIC_SETTINGS,
+    )
+
+    expect(frames).toHaveLength(3)
+    const [first, second, third] = frames
+    expect(first?.variant === 'classic' && first.board.flat().every((cell) => cell === null)).toBe(
+      true,
+    )
+    expect(second?.variant === 'classic' && second.board[1]![1]).toBe('X')
+    expect(third?.variant === 'classic' && third.board[0]![0]).toBe('O')
+  })
+
+  it('reports the outcome of the final frame', () => {
+    const frames = buildReplay(
+      [
+        { position: '0,0', symbol: 'X' },
+        { position: '1,0', symbol: 'O' },
+        { position: '0,1', symbol: 'X' },
+        { position: '1,1', symbol: 'O' },
+        { position: '0,2', symbol: 'X' },
+      ],
+      'classic',
+      CLASSIC_SETTINGS,
+    )
+
+    const outcome = snapshotOutcome(frames[frames.length - 1]!)
+    expect(outcome.winner).toBe('X')
+    expect(outcome.line).toHaveLength(3)
+  })
+
+  it('replays ultimate games with the sub-board constraint', () => {
+    const frames = buildReplay(
+      [
+        { position: '1,1,0,2', symbol: 'X' },
+        { position: '0,2,1,1', symbol: 'O' },
+      ],
+      'ultimate',
+      CLASSIC_SETTINGS,
+    )
+
+    const last = frames[2]
+    expect(last?.variant === 'ultimate' && last.state.activeBoard).toEqual({ row: 1, col: 1 })
+  })
+
+  it('names the move that cannot be replayed', () => {
+    expect(() =>
+      buildReplay(
+        [
+          { position: '0,0', symbol: 'X' },
+          { position: '0,0', symbol: 'O' },
+        ],
+        'classic',
+        CLASSIC_SETTINGS,
+      ),
+    ).toThrow('Move 2 (O at 0,0): Illegal move at 0,0')
+  })
+})
+
+describe('parseMovePosition', () => {
+  it('parses positions for each variant', () => {
+    expect(parseMovePosition('classic', '2,1')).toEqual({ row: 2, col: 1 })
+    expect(parseMovePosition('ultimate', '0,1,2,2')).toEqual({
+      boardRow: 0,
+      boardCol: 1,
+      row: 2,
+      col: 2,
+    })
+    expect(parseMovePosition('classic', 'nope')).toBeNull()
+  })
+})
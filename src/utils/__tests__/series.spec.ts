@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+
+import { isSeriesOver, tallySeries } from '../series'
+
+const series = {
+  id: 's1',
+  best_of: 3,
+  games: [
+    { game_id: 'g1', winner_id: 'alice' },
+    { game_id: 'g2', winner_id: null },
+  ],
+}
+
+describe('tallySeries', () => {
+  it('counts wins per player and draws', () => {
+    expect(tallySeries(series)).toEqual({ wins: { alice: 1 }, draws: 1, played: 2 })
+  })
+
+  it('adds a finished game the server has not recorded yet, once', () => {
+    expect(tallySeries(series, { gameId: 'g3', winnerId: 'bob' }).wins).toEqual({
+      alice: 1,
+      bob: 1,
+    })
+    expect(tallySeries(series, { gameId: 'g1', winnerId: 'alice' }).played).toBe(2)
+  })
+})
+
+describe('isSeriesOver', () => {
+  it('ends once a player has a majority', () => {
+    expect(isSeriesOver(5, { wins: { alice: 2, bob: 1 }, draws: 0, played: 3 })).toBe(false)
+    expect(isSeriesOver(5, { wins: { alice: 3 }, draws: 0, played: 3 })).toBe(true)
+  })
+
+  it('ends when every game has been played, even without a majority', () => {
+    expect(isSeriesOver(3, { wins: { alice: 1 }, draws: 2, played: 3 })).toBe(true)
+  })
+})
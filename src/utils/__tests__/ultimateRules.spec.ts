@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+
+import type { Board } from '../gameRules'
+import {
+  applyUltimateMove,
+  createUltimateState,
+  formatUltimatePosition,
+  getLegalUltimateMoves,
+  getPlayableBoards,
+  getUltimateOutcome,
+  getUltimateTurn,
+  isLegalUltimateMove,
+  parseUltimatePosition,
+  type UltimateState,
+} from '../ultimateRules'
+
+const X_WON: Board = [
+  ['X', 'X', 'X'],
+  ['O', 'O', null],
+  [null, null, null],
+]
+const O_WON: Board = [
+  ['O', 'X', 'X'],
+  ['O', 'X', null],
+  ['O', null, null],
+]
+const DRAWN: Board = [
+  ['X', 'O', 'X'],
+  ['X', 'O', 'O'],
+  ['O', 'X', 'X'],
+]
+const EMPTY: Board = [
+  [null, null, null],
+  [null, null, null],
+  [null, null, null],
+]
+
+const stateOf = (boards: Board[][], activeBoard: UltimateState['activeBoard'] = null) => ({
+  boards: boards.map((row) => row.map((board) => board.map((cells) => [...cells]))),
+  activeBoard,
+})
+
+describe('ultimateRules', () => {
+  it('formats and parses nested positions', () => {
+    const position = { boardRow: 2, boardCol: 0, row: 1, col: 2 }
+    expect(formatUltimatePosition(position)).toBe('2,0,1,2')
+    expect(parseUltimatePosition('2,0,1,2')).toEqual(position)
+    expect(parseUltimatePosition('2,0')).toBeNull()
+  })
+
+  it('allows any cell on the first move', () => {
+    const state = createUltimateState()
+    expect(getPlayableBoards(state)).toHaveLength(9)
+    expect(getLegalUltimateMoves(state)).toHaveLength(81)
+    expect(getUltimateTurn(state.boards)).toBe('X')
+  })
+
+  it('sends the opponent to the sub-board matching the cell played', () => {
+    const state = applyUltimateMove(
+      createUltimateState(),
+      { boardRow: 1, boardCol: 1, row: 0, col: 2 },
+      'X',
+    )
+    expect(state.activeBoard).toEqual({ row: 0, col: 2 })
+    expect(getPlayableBoards(state)).toEqual([{ row: 0, col: 2 }])
+    expect(isLegalUltimateMove(state, { boardRow: 0, boardCol: 2, row: 1, col: 1 })).toBe(true)
+    expect(isLegalUltimateMove(state, { boardRow: 1, boardCol: 1, row: 1, col: 1 })).toBe(false)
+    expect(getUltimateTurn(state.boards)).toBe('O')
+  })
+
+  it('frees the choice when the target sub-board is already decided', () => {
+    const boards = [
+      [X_WON, EMPTY, EMPTY],
+      [EMPTY, EMPTY, EMPTY],
+      [EMPTY, EMPTY, EMPTY],
+    ]
+    const state = applyUltimateMove(
+      stateOf(boards, { row: 2, col: 2 }),
+      { boardRow: 2, boardCol: 2, row: 0, col: 0 },
+      'O',
+    )
+    expect(state.activeBoard).toBeNull()
+    const playable = getPlayableBoards(state)
+    expect(playable).toHaveLength(8)
+    expect(playable).not.toContainEqual({ row: 0, col: 0 })
+  })
+
+  it('rejects moves into a decided sub-board', () => {
+    const boards = [
+      [X_WON, EMPTY, EMPTY],
+      [EMPTY, EMPTY, EMPTY],
+      [EMPTY, EMPTY, EMPTY],
+    ]
+    expect(() =>
+      applyUltimateMove(stateOf(boards), { boardRow: 0, boardCol: 0, row: 2, col: 2 }, 'O'),
+    ).toThrow('Illegal move at 0,0,2,2')
+  })
+
+  it('wins with three sub-boards in a row on the outer grid', () => {
+    const outcome = getUltimateOutcome([
+      [O_WON, EMPTY, EMPTY],
+      [EMPTY, O_WON, EMPTY],
+      [X_WON, EMPTY, O_WON],
+    ])
+    expect(outcome.winner).toBe('O')
+    expect(outcome.line).toEqual([
+      { row: 0, col: 0 },
+      { row: 1, col: 1 },
+      { row: 2, col: 2 },
+    ])
+  })
+
+  it('does not count drawn sub-boards for either player', () => {
+    expect(
+      getUltimateOutcome([
+        [X_WON, X_WON, DRAWN],
+        [EMPTY, EMPTY, EMPTY],
+        [EMPTY, EMPTY, EMPTY],
+      ]).winner,
+    ).toBeNull()
+  })
+
+  it('is a draw once every sub-board is decided without a line', () => {
+    const outcome = getUltimateOutcome([
+      [X_WON, O_WON, X_WON],
+      [X_WON, O_WON, O_WON],
+      [O_WON, X_WON, DRAWN],
+    ])
+    expect(outcome).toEqual({ winner: 'DRAW', line: null })
+  })
+})
@@ -0,0 +1,90 @@
+import { t } from '../i18n'
+
+// Client-side rules for in-game chat. The server enforces its own limits; these keep a player
+// from spamming the room or typing a novel before the server ever sees it.
+
+export const MAX_CHAT_LENGTH = 200
+// Oldest entries are dropped past this so a long game cannot grow the history forever
+export const MAX_CHAT_HISTORY = 200
+export const CHAT_RATE_LIMIT = 5
+export const CHAT_RATE_WINDOW = 10000
+
+export const EMOTES = {
+  gg: '🤝',
+  wave: '👋',
+  think: '🤔',
+  laugh: '😂',
+  wow: '😮',
+  oops: '😅',
+} as const
+
+export type Emote = keyof typeof EMOTES
+
+export const EMOTE_NAMES = Object.keys(EMOTES) as Emote[]
+
+const BLOCKED_WORDS = [
+  'arse',
+  'ass',
+  'asshole',
+  'bastard',
+  'bitch',
+  'bollocks',
+  'crap',
+  'damn',
+  'dick',
+  'fuck',
+  'fucker',
+  'piss',
+  'shit',
+  'slut',
+  'twat',
+  'wanker',
+]
+
+// Whole words only, so "class" or "scrap" are left alone; common endings are caught too
+const PROFANITY_PATTERN = new RegExp(`\\b(?:${BLOCKED_WORDS.join('|')})(?:s|es|ed|ing|y)?\\b`, 'gi')
+
+export function filterProfanity(text: string): string {
+  return text.replace(PROFANITY_PATTERN, (word) => '*'.repeat(word.length))
+}
+
+// Collapses whitespace and trims; returns an error message when the text cannot be sent
+export function validateChatText(text: string): string | null {
+  const normalized = normalizeChatText(text)
+  if (!normalized) return t('validation.chatEmpty')
+  if (normalized.length > MAX_CHAT_LENGTH) {
+    return t('validation.chatTooLong', { max: MAX_CHAT_LENGTH })
+  }
+  return null
+}
+
+export function normalizeChatText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+export interface RateLimiter {
+  // Records an attempt and reports whether it is within the limit
+  tryAcquire(): boolean
+  reset(): void
+}
+
+// Allows `limit` attempts in any sliding window of `windowMs`
+export function createRateLimiter(
+  limit: number,
+  windowMs: number,
+  now: () => number = Date.now,
+): RateLimiter {
+  let attempts: number[] = []
+  return {
+    tryAcquire() {
+      const time = now()
+      attempts = attempts.filter((at) => time - at < windowMs)
+      if (attempts.length >= limit) return false
+      attempts.push(time)
+      return true
+    },
+    reset() {
+      attempts = []
+    },
+  }
+}
@@ -0,0 +1,79 @@
+import type { ServerClock, TimeControl } from '../services/api'
+import type { PlayerSymbol } from './gameRules'
+import { t } from '../i18n'
+
+// Labelled with describeTimeControl, in the reader's language
+export const TIME_CONTROL_PRESETS: TimeControl[] = [
+  { kind: 'none' },
+  { kind: 'per_move', move_seconds: 10 },
+  { kind: 'per_move', move_seconds: 30 },
+  { kind: 'bank', initial_seconds: 60, increment_seconds: 2 },
+  { kind: 'bank', initial_seconds: 180, increment_seconds: 5 },
+  { kind: 'bank', initial_seconds: 600, increment_seconds: 0 },
+]
+
+// Clocks in this client's time. runningSince is a local Date.now() value, already corrected
+// for the difference between our clock and the server's.
+export interface ClockState {
+  remaining: Record<PlayerSymbol, number>
+  turn: PlayerSymbol | null
+  runningSince: number | null
+}
+
+export function isTimed(control: TimeControl | null | undefined): boolean {
+  return !!control && control.kind !== 'none'
+}
+
+export function describeTimeControl(control: TimeControl): string {
+  if (control.kind === 'per_move') {
+    return t('settings.perMove', { seconds: control.move_seconds })
+  }
+  if (control.kind === 'bank') {
+    const minutes = control.initial_seconds / 60
+    const bank = Number.isInteger(minutes)
+      ? t('settings.minutes', { minutes })
+      : t('settings.seconds', { seconds: control.initial_seconds })
+    return control.increment_seconds > 0
+      ? t('settings.increment', { bank, seconds: control.increment_seconds })
+      : bank
+  }
+  return t('settings.untimed')
+}
+
+// `receivedAt` is when the server's message arrived; the server's own timestamp only serves
+// to measure how far its clock is ahead of ours
+export function fromServerClock(clock: ServerClock, receivedAt: number = Date.now()): ClockState {
+  const offset = receivedAt - Date.parse(clock.server_time)
+  const since = clock.running_since === null ? NaN : Date.parse(clock.running_since)
+  return {
+    remaining: { X: clock.x_remaining_ms, O: clock.o_remaining_ms },
+    turn: clock.turn,
+    runningSince:
+      clock.turn && !Number.isNaN(since) && !Number.isNaN(offset) ? since + offset : null,
+  }
+}
+
+export function remainingTime(clock: ClockState, symbol: PlayerSymbol, now: number): number {
+  const base = clock.remaining[symbol]
+  if (clock.turn !== symbol || clock.runningSince === null) return base
+  return Math.max(0, base - (now - clock.runningSince))
+}
+
+// Stops the running side's clock, e.g. when the game ends
+export function stopClock(clock: ClockState, now: number): ClockState {
+  return {
+    remaining: { X: remainingTime(clock, 'X', now), O: remainingTime(clock, 'O', now) },
+    turn: null,
+    runningSince: null,
+  }
+}
+
+// m:ss, with tenths once under ten seconds
+export function formatClock(ms: number): string {
+  const clamped = Math.max(0, ms)
+  if (clamped < 10000) return (Math.floor(clamped / 100) / 10).toFixed(1)
+  const totalSeconds = Math.ceil(clamped / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
@@ -0,0 +1,139 @@
+import {
+  applyMove,
+  cloneBoard,
+  completesLine,
+  getLegalMoves,
+  getOutcome,
+  opponentOf,
+  type Board,
+  type PlayerSymbol,
+  type Position,
+} from './gameRules'
+
+export type Difficulty = 'random' | 'heuristic' | 'perfect'
+
+export const DIFFICULTIES: Difficulty[] = ['random', 'heuristic', 'perfect']
+
+type RandomSource = () => number
+
+function pickRandom<T>(items: T[], random: RandomSource): T | null {
+  if (items.length === 0) return null
+  return items[Math.floor(random() * items.length)] ?? null
+}
+
+function findWinningMove(board: Board, symbol: PlayerSymbol): Position | null {
+  return (
+    getLegalMoves(board).find(
+      (move) => getOutcome(applyMove(board, move, symbol)).winner === symbol,
+    ) ?? null
+  )
+}
+
+export function randomMove(board: Board, random: RandomSource = Math.random): Position | null {
+  return pickRandom(getLegalMoves(board), random)
+}
+
+// Win if possible, otherwise block, otherwise prefer the centre, then corners, then edges
+export function heuristicMove(
+  board: Board,
+  symbol: PlayerSymbol,
+  random: RandomSource = Math.random,
+): Position | null {
+  const legal = getLegalMoves(board)
+  if (legal.length === 0) return null
+
+  const win = findWinningMove(board, symbol)
+  if (win) return win
+
+  const block = findWinningMove(board, opponentOf(symbol))
+  if (block) return block
+
+  const last = board.length - 1
+  const center = legal.find((move) => move.row * 2 === last && move.col * 2 === last)
+  if (center) return center
+
+  const corners = legal.filter(
+    (move) => (move.row === 0 || move.row === last) && (move.col === 0 || move.col === last),
+  )
+  return pickRandom(corners, random) ?? pickRandom(legal, random)
+}
+
+function emptyCells(board: Board): Position[] {
+  const cells: Position[] = []
+  board.forEach((row, rowIndex) => {
+    row.forEach((cell, colIndex) => {
+      if (cell === null) cells.push({ row: rowIndex, col: colIndex })
+    })
+  })
+  return cells
+}
+
+// Scores are from `symbol`'s point of view; quicker wins and slower losses score higher.
+// The board is mutated in place and restored after each probe to keep the search cheap, and
+// only lines through the last move are checked since the position was undecided before it.
+function minimax(
+  board: Board,
+  symbol: PlayerSymbol,
+  lastMove: Position,
+  depth: number,
+  alpha: number,
+  beta: number,
+): number {
+  const lastSymbol = board[lastMove.row]![lastMove.col]!
+  if (completesLine(board, lastMove)) {
+    return lastSymbol === symbol ? 10 - depth : depth - 10
+  }
+  const moves = emptyCells(board)
+  if (moves.length === 0) return 0
+
+  const toMove = opponentOf(lastSymbol)
+  const maximizing = toMove === symbol
+  let best = maximizing ? -Infinity : Infinity
+  for (const move of moves) {
+    board[move.row]![move.col] = toMove
+    const score = minimax(board, symbol, move, depth + 1, alpha, beta)
+    board[move.row]![move.col] = null
+    if (maximizing) {
+      best = Math.max(best, score)
+      alpha = Math.max(alpha, score)
+    } else {
+      best = Math.min(best, score)
+      beta = Math.min(beta, score)
+    }
+    if (beta <= alpha) break
+  }
+  return best
+}
+
+export function perfectMove(board: Board, symbol: PlayerSymbol): Position | null {
+  const scratch = cloneBoard(board)
+  let bestMove: Position | null = null
+  let bestScore = -Infinity
+  for (const move of getLegalMoves(scratch)) {
+    scratch[move.row]![move.col] = symbol
+    // A move that cannot beat the best so far is dropped as soon as that is certain
+    const score = minimax(scratch, symbol, move, 1, bestScore, Infinity)
+    scratch[move.row]![move.col] = null
+    if (score > bestScore) {
+      bestScore = score
+      bestMove = move
+    }
+  }
+  return bestMove
+}
+
+export function chooseMove(
+  board: Board,
+  symbol: PlayerSymbol,
+  difficulty: Difficulty,
+  random: RandomSource = Math.random,
+): Position | null {
+  switch (difficulty) {
+    case 'random':
+      return randomMove(board, random)
+    case 'heuristic':
+      return heuristicMove(board, symbol, random)
+    case 'perfect':
+      return perfectMove(board, symbol)
+  }
+}
@@ -0,0 +1,158 @@
+// A small runtime decoder library. A decoder checks an unknown value (usually parsed JSON) and
+// returns it typed, or throws a DecodeError saying where and how the value is wrong. Types are
+// derived from decoders with Infer<>, so the runtime check and the static type cannot drift.
+
+export type Decoder<T> = (value: unknown, path: string) => T
+
+// Marks an object field that may be missing
+export type OptionalDecoder<T> = Decoder<T | undefined> & { readonly optional: true }
+
+export type Infer<D> = D extends Decoder<infer T> ? T : never
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+type OptionalKeys<S> = {
+  [K in keyof S]: S[K] extends { optional: true } ? K : never
+}[keyof S]
+
+type ObjectOf<S> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>
+  }
+>
+
+export class DecodeError extends Error {
+  // Where in the value the problem is, e.g. `$.board[0][2]`
+  readonly path: string
+  readonly expected: string
+  readonly received: string
+
+  constructor(path: string, expected: string, received: unknown) {
+    const description = describe(received)
+    super(`Expected ${expected} at ${path}, got ${description}`)
+    this.name = 'DecodeError'
+    this.path = path
+    this.expected = expected
+    this.received = description
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return typeof value === 'object' ? 'an object' : String(typeof value)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function decode<T>(decoder: Decoder<T>, value: unknown): T {
+  return decoder(value, '$')
+}
+
+export const unknown: Decoder<unknown> = (value) => value
+
+export const string: Decoder<string> = (value, path) => {
+  if (typeof value !== 'string') throw new DecodeError(path, 'a string', value)
+  return value
+}
+
+export const number: Decoder<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new DecodeError(path, 'a number', value)
+  }
+  return value
+}
+
+export const integer: Decoder<number> = (value, path) => {
+  if (!Number.isInteger(value)) throw new DecodeError(path, 'an integer', value)
+  return value as number
+}
+
+export const boolean: Decoder<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new DecodeError(path, 'a boolean', value)
+  return value
+}
+
+export function literal<const T extends readonly (string | number | boolean | null)[]>(
+  ...values: T
+): Decoder<T[number]> {
+  const expected = values.map((value) => JSON.stringify(value)).join(' | ')
+  return (value, path) => {
+    if (!values.includes(value as T[number])) throw new DecodeError(path, expected, value)
+    return value as T[number]
+  }
+}
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (value, path) => (value === null ? null : decoder(value, path))
+}
+
+export function optional<T>(decoder: Decoder<T>): OptionalDecoder<T> {
+  const decodeOptional: Decoder<T | undefined> = (value, path) =>
+    value === undefined ? undefined : decoder(value, path)
+  return Object.assign(decodeOptional, { optional: true as const })
+}
+
+export function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new DecodeError(path, 'an array', value)
+    return value.map((item, index) => decoder(item, `${path}[${index}]`))
+  }
+}
+
+// Unknown fields are dropped so callers never see data the schema does not describe
+export function object<S extends Record<string, Decoder<unknown>>>(shape: S): Decoder<ObjectOf<S>> {
+  return (value, path) => {
+    if (!isRecord(value)) throw new DecodeError(path, 'an object', value)
+    const result: Record<string, unknown> = {}
+    for (const [key, decoder] of Object.entries(shape)) {
+      const field = decoder(value[key], `${path}.${key}`)
+      if (field !== undefined) result[key] = field
+    }
+    return result as ObjectOf<S>
+  }
+}
+
+// Objects told apart by a string field, e.g. `type` on WebSocket messages
+export function taggedUnion<K extends string, M extends Record<string, Decoder<object>>>(
+  key: K,
+  members: M,
+): Decoder<{ [T in keyof M & string]: Simplify<{ [P in K]: T } & Infer<M[T]>> }[keyof M & string]> {
+  const expected = Object.keys(members)
+    .map((tag) => JSON.stringify(tag))
+    .join(' | ')
+  return (value, path) => {
+    if (!isRecord(value)) throw new DecodeError(path, 'an object', value)
+    const tag = value[key]
+    if (typeof tag !== 'string' || !Object.prototype.hasOwnProperty.call(members, tag)) {
+      throw new DecodeError(`${path}.${key}`, expected, tag)
+    }
+    return { ...members[tag]!(value, path), [key]: tag } as never
+  }
+}
+
+export function intersect<A extends object, B extends object>(
+  first: Decoder<A>,
+  second: Decoder<B>,
+): Decoder<A & B> {
+  return (value, path) => ({ ...first(value, path), ...second(value, path) })
+}
+
+// Adds a check the structure alone cannot express, such as a board being square
+export function refine<T>(
+  decoder: Decoder<T>,
+  check: (value: T) => boolean,
+  expected: string,
+): Decoder<T> {
+  return (value, path) => {
+    const decoded = decoder(value, path)
+    if (!check(decoded)) throw new DecodeError(path, expected, value)
+    return decoded
+  }
+}
@@ -0,0 +1,60 @@
+import type { PlayerResult } from '../services/api'
+
+// Elo ratings as the server computes them, mirrored so players can see what a game is worth
+// before they play it. New players move fast until they have played PROVISIONAL_GAMES games;
+// strong players move slowly.
+
+export const PROVISIONAL_GAMES = 30
+export const PROVISIONAL_K = 40
+export const STANDARD_K = 20
+export const MASTER_K = 10
+export const MASTER_RATING = 2400
+
+export interface RatedPlayer {
+  rating: number
+  gamesPlayed: number
+}
+
+const SCORES: Record<PlayerResult, number> = { win: 1, draw: 0.5, loss: 0 }
+
+// The share of points `rating` is expected to take off `opponentRating`, from 0 to 1
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400))
+}
+
+export function isProvisional(gamesPlayed: number): boolean {
+  return gamesPlayed < PROVISIONAL_GAMES
+}
+
+// An established player's rating only moves half as much against a provisional opponent,
+// whose own rating is still a guess
+export function kFactor(player: RatedPlayer, opponent: RatedPlayer): number {
+  if (isProvisional(player.gamesPlayed)) return PROVISIONAL_K
+  const k = player.rating >= MASTER_RATING ? MASTER_K : STANDARD_K
+  return isProvisional(opponent.gamesPlayed) ? k / 2 : k
+}
+
+export function ratingChange(
+  player: RatedPlayer,
+  opponent: RatedPlayer,
+  result: PlayerResult,
+): number {
+  const expected = expectedScore(player.rating, opponent.rating)
+  return Math.round(kFactor(player, opponent) * (SCORES[result] - expected))
+}
+
+export function previewRatingChanges(
+  player: RatedPlayer,
+  opponent: RatedPlayer,
+): Record<PlayerResult, number> {
+  return {
+    win: ratingChange(player, opponent, 'win'),
+    draw: ratingChange(player, opponent, 'draw'),
+    loss: ratingChange(player, opponent, 'loss'),
+  }
+}
+
+export function formatRatingChange(change: number): string {
+  if (change === 0) return '±0'
+  return change > 0 ? `+${change}` : String(change)
+}
@@ -0,0 +1,181 @@
+import { t } from '../i18n'
+
+export type PlayerSymbol = 'X' | 'O'
+export type Cell = PlayerSymbol | null
+export type Board = Cell[][]
+export type Winner = PlayerSymbol | 'DRAW' | null
+export type GameStatus = 'waiting' | 'ongoing' | 'finished'
+// How a finished game ended. line and board_full come from the board itself; the others end
+// the game before the board does.
+export type EndReason = 'line' | 'board_full' | 'timeout' | 'resignation' | 'agreement'
+// classic: a single N×N board; ultimate: a 3×3 grid of 3×3 boards (see ultimateRules)
+export type GameVariant = 'classic' | 'ultimate'
+
+export interface Position {
+  row: number
+  col: number
+}
+
+export interface GameOutcome {
+  winner: Winner
+  // Cells forming the winning line, or null when nobody has won (yet)
+  line: Position[] | null
+}
+
+export interface GameSettings {
+  boardSize: number
+  // Number of symbols in a row needed to win
+  winLength: number
+}
+
+export const BOARD_SIZE = 3
+export const MIN_BOARD_SIZE = 3
+export const MAX_BOARD_SIZE = 15
+export const MIN_WIN_LENGTH = 3
+export const MAX_WIN_LENGTH = 5
+
+export const CLASSIC_SETTINGS: GameSettings = { boardSize: BOARD_SIZE, winLength: BOARD_SIZE }
+export const GOMOKU_SETTINGS: GameSettings = { boardSize: 15, winLength: 5 }
+
+export function validateSettings({ boardSize, winLength }: GameSettings): string | null {
+  if (!Number.isInteger(boardSize) || boardSize < MIN_BOARD_SIZE || boardSize > MAX_BOARD_SIZE) {
+    return t('validation.boardSize', { min: MIN_BOARD_SIZE, max: MAX_BOARD_SIZE })
+  }
+  if (!Number.isInteger(winLength) || winLength < MIN_WIN_LENGTH || winLength > MAX_WIN_LENGTH) {
+    return t('validation.winLength', { min: MIN_WIN_LENGTH, max: MAX_WIN_LENGTH })
+  }
+  if (winLength > boardSize) {
+    return t('validation.winLengthOverBoard')
+  }
+  return null
+}
+
+// Win length used when a caller does not say: the full width on small boards, five on large ones
+export function defaultWinLength(board: Board): number {
+  return Math.min(board.length, MAX_WIN_LENGTH)
+}
+
+export function createEmptyBoard(size: number = BOARD_SIZE): Board {
+  return Array.from({ length: size }, () => Array<Cell>(size).fill(null))
+}
+
+export function cloneBoard(board: Board): Board {
+  return board.map((row) => [...row])
+}
+
+export function opponentOf(symbol: PlayerSymbol): PlayerSymbol {
+  return symbol === 'X' ? 'O' : 'X'
+}
+
+export function formatPosition({ row, col }: Position): string {
+  return `${row},${col}`
+}
+
+export function parsePosition(position: string): Position | null {
+  const match = /^\s*(\d+)\s*,\s*(\d+)\s*$/.exec(position)
+  if (!match) return null
+  return { row: Number(match[1]), col: Number(match[2]) }
+}
+
+export function isInBounds(board: Board, { row, col }: Position): boolean {
+  return row >= 0 && row < board.length && col >= 0 && col < (board[row]?.length ?? 0)
+}
+
+const DIRECTIONS: [number, number][] = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [1, -1],
+]
+
+export function getOutcome(board: Board, winLength: number = defaultWinLength(board)): GameOutcome {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row]!.length; col++) {
+      const symbol = board[row]![col]
+      if (!symbol) continue
+      for (const [dRow, dCol] of DIRECTIONS) {
+        // Only measure a run from its first cell so each run is walked once
+        if (board[row - dRow]?.[col - dCol] === symbol) continue
+        let length = 1
+        while (board[row + dRow * length]?.[col + dCol * length] === symbol) length++
+        if (length >= winLength) {
+          const line = Array.from({ length }, (_, i) => ({
+            row: row + dRow * i,
+            col: col + dCol * i,
+          }))
+          return { winner: symbol, line }
+        }
+      }
+    }
+  }
+
+  const isFull = board.every((cells) => cells.every((cell) => cell !== null))
+  return { winner: isFull ? 'DRAW' : null, line: null }
+}
+
+// Whether the symbol at `position` is part of a winning run; cheaper than getOutcome after a move
+export function completesLine(
+  board: Board,
+  { row, col }: Position,
+  winLength: number = defaultWinLength(board),
+): boolean {
+  const symbol = board[row]?.[col]
+  if (!symbol) return false
+  return DIRECTIONS.some(([dRow, dCol]) => {
+    let length = 1
+    while (board[row + dRow * length]?.[col + dCol * length] === symbol) length++
+    for (let i = 1; board[row - dRow * i]?.[col - dCol * i] === symbol; i++) length++
+    return length >= winLength
+  })
+}
+
+export function isGameOver(board: Board, winLength?: number): boolean {
+  return getOutcome(board, winLength).winner !== null
+}
+
+// X always moves first, so the side to move follows from the piece count
+export function getTurn(board: Board, winLength?: number): PlayerSymbol | null {
+  if (isGameOver(board, winLength)) return null
+  let xCount = 0
+  let oCount = 0
+  for (const row of board) {
+    for (const cell of row) {
+      if (cell === 'X') xCount++
+      else if (cell === 'O') oCount++
+    }
+  }
+  return xCount > oCount ? 'O' : 'X'
+}
+
+export function isLegalMove(board: Board, position: Position, winLength?: number): boolean {
+  return (
+    isInBounds(board, position) &&
+    board[position.row]![position.col] === null &&
+    !isGameOver(board, winLength)
+  )
+}
+
+export function getLegalMoves(board: Board, winLength?: number): Position[] {
+  if (isGameOver(board, winLength)) return []
+  const moves: Position[] = []
+  board.forEach((row, rowIndex) => {
+    row.forEach((cell, colIndex) => {
+      if (cell === null) moves.push({ row: rowIndex, col: colIndex })
+    })
+  })
+  return moves
+}
+
+export function applyMove(
+  board: Board,
+  position: Position,
+  symbol: PlayerSymbol,
+  winLength?: number,
+): Board {
+  if (!isLegalMove(board, position, winLength)) {
+    throw new Error(`Illegal move at ${formatPosition(position)}`)
+  }
+  const next = cloneBoard(board)
+  next[position.row]![position.col] = symbol
+  return next
+}
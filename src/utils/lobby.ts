@@ -0,0 +1,24 @@
+import type { ListGamesQuery, LobbyEntry } from '../services/api'
+import { t, tn } from '../i18n'
+
+// Whether a game announced over the socket belongs in a list fetched with `query`
+export function matchesQuery(entry: LobbyEntry, query: ListGamesQuery): boolean {
+  const { game, creator } = entry
+  if (game.status !== 'waiting') return false
+  if (query.variant && game.variant !== query.variant) return false
+  if (query.minRating !== undefined && creator.elo_rating < query.minRating) return false
+  if (query.maxRating !== undefined && creator.elo_rating > query.maxRating) return false
+  return true
+}
+
+// "just now", "5 min ago", "2 h ago", "3 d ago"
+export function formatAge(createdAt: string, now: number = Date.now()): string {
+  const created = Date.parse(createdAt)
+  if (Number.isNaN(created)) return ''
+  const minutes = Math.floor((now - created) / 60000)
+  if (minutes < 1) return t('lobby.justNow')
+  if (minutes < 60) return tn('lobby.minutesAgo', minutes)
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return tn('lobby.hoursAgo', hours)
+  return tn('lobby.daysAgo', Math.floor(hours / 24))
+}
@@ -0,0 +1,25 @@
+// Matchmaking pairs players whose ratings are within a window of each other. The window starts
+// narrow for a fair game and widens while nobody suitable turns up, so nobody waits forever.
+// The server is the authority; this schedule mirrors it so the UI can show the window between
+// its status updates, and the fake backend pairs players by it.
+
+export const DEFAULT_RATING = 1200
+export const INITIAL_RATING_WINDOW = 100
+export const RATING_WINDOW_STEP = 50
+export const RATING_WINDOW_INTERVAL = 10000
+export const MAX_RATING_WINDOW = 400
+
+export function ratingWindow(waitedMs: number): number {
+  const steps = Math.floor(Math.max(0, waitedMs) / RATING_WINDOW_INTERVAL)
+  return Math.min(MAX_RATING_WINDOW, INITIAL_RATING_WINDOW + steps * RATING_WINDOW_STEP)
+}
+
+export function ratingRange(rating: number, window: number): { min: number; max: number } {
+  return { min: Math.max(0, Math.round(rating - window)), max: Math.round(rating + window) }
+}
+
+export function formatWaitTime(ms: number): string {
+  const totalSeconds = Math.floor(Math.max(0, ms) / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, '0')}`
+}
@@ -0,0 +1,470 @@
+import {
+  formatPosition,
+  getTurn,
+  isGameOver,
+  isInBounds,
+  MAX_BOARD_SIZE,
+  MAX_WIN_LENGTH,
+  MIN_BOARD_SIZE,
+  parsePosition,
+  validateSettings,
+  type EndReason,
+  type GameSettings,
+  type GameVariant,
+  type PlayerSymbol,
+  type Position,
+  type Winner,
+} from './gameRules'
+import {
+  formatUltimatePosition,
+  getPlayableBoards,
+  getUltimateTurn,
+  parseUltimatePosition,
+  type UltimatePosition,
+} from './ultimateRules'
+import {
+  applySnapshotMove,
+  emptySnapshot,
+  snapshotOutcome,
+  type BoardSnapshot,
+  type ReplayMove,
+} from './replay'
+import type { Game } from '../services/api'
+import { t } from '../i18n'
+
+// A game in the shareable `.ttt` notation:
+//
+//   [Variant "classic"]
+//   [Size "3"]
+//   [WinLength "3"]
+//   [X "alice"]
+//   [O "bob"]
+//   [Date "2024-05-01"]
+//   [Result "X"]
+//
+//   1. b2 a1 2. c3 c1 3. a3
+//
+// Squares are a column letter and a 1-based row counted from the top, so a1 is the top-left
+// corner. Ultimate moves name the sub-board, then the square inside it: `b2:a1`. Move numbers
+// are optional; X always moves first. Result is X, O, DRAW or * for an unfinished game. A game
+// that ended before its board did adds [Termination "timeout"], "resignation" or "agreement".
+
+export const NOTATION_EXTENSION = '.ttt'
+
+const COLUMNS = 'abcdefghijklmnopqrstuvwxyz'
+const LINE_WIDTH = 80
+const HEADER_PATTERN = /^\[(\w+)\s+"([^"]*)"\]$/
+const MOVE_NUMBER_PATTERN = /^(\d+)\.$/
+const KNOWN_HEADERS = [
+  'Variant',
+  'Size',
+  'WinLength',
+  'X',
+  'O',
+  'Date',
+  'Result',
+  'Termination',
+] as const
+
+type HeaderName = (typeof KNOWN_HEADERS)[number]
+
+// The ways a game ends that its board does not show
+export type Termination = Extract<EndReason, 'timeout' | 'resignation' | 'agreement'>
+
+const TERMINATIONS: readonly Termination[] = ['timeout', 'resignation', 'agreement']
+
+const isTermination = (text: string): text is Termination =>
+  (TERMINATIONS as readonly string[]).includes(text)
+
+// The Termination header for a game that ended this way, if it needs one
+export function toTermination(reason: EndReason | null): Termination | null {
+  return reason && isTermination(reason) ? reason : null
+}
+
+export interface GameRecord {
+  variant: GameVariant
+  settings: GameSettings
+  players: Record<PlayerSymbol, string>
+  date: string
+  // null while the game is unfinished, written as `*`
+  result: Winner
+  // Set when the result does not follow from the moves
+  termination: Termination | null
+  moves: ReplayMove[]
+}
+
+export class NotationError extends Error {
+  readonly line: number
+  readonly column: number
+
+  constructor(message: string, line: number, column: number) {
+    super(t('notation.errors.at', { line, column, message }))
+    this.name = 'NotationError'
+    this.line = line
+    this.column = column
+  }
+}
+
+interface Token {
+  text: string
+  line: number
+  column: number
+}
+
+function formatSquare({ row, col }: Position): string {
+  return `${COLUMNS[col]}${row + 1}`
+}
+
+function parseSquare(square: string): Position | null {
+  const match = /^([a-z])(\d{1,2})$/.exec(square)
+  if (!match) return null
+  return { row: Number(match[2]) - 1, col: COLUMNS.indexOf(match[1]!) }
+}
+
+// Notation for a stored "row,col" or "boardRow,boardCol,row,col" position
+export function toSquare(position: string): string {
+  const ultimate = parseUltimatePosition(position)
+  if (ultimate) {
+    return `${formatSquare({ row: ultimate.boardRow, col: ultimate.boardCol })}:${formatSquare(ultimate)}`
+  }
+  const classic = parsePosition(position)
+  return classic ? formatSquare(classic) : position
+}
+
+// The X and O headers: usernames where they are known, ids otherwise, and ? for an empty seat
+export function recordPlayers(
+  game: Pick<Game, 'player_x_id' | 'player_o_id'>,
+  usernames: Readonly<Record<string, string>>,
+): Record<PlayerSymbol, string> {
+  const name = (id: string | null) => (id ? (usernames[id] ?? id) : '?')
+  return { X: name(game.player_x_id), O: name(game.player_o_id) }
+}
+
+function formatResult(result: Winner): string {
+  return result ?? '*'
+}
+
+export function formatNotation(record: GameRecord): string {
+  const headers: [HeaderName, string][] = [
+    ['Variant', record.variant],
+    ['Size', String(record.settings.boardSize)],
+    ['WinLength', String(record.settings.winLength)],
+    ['X', record.players.X],
+    ['O', record.players.O],
+    ['Date', record.date],
+    ['Result', formatResult(record.result)],
+  ]
+  if (record.termination) {
+    headers.push(['Termination', record.termination])
+  }
+
+  const lines: string[] = []
+  let line = ''
+  record.moves.forEach((move, index) => {
+    const square = toSquare(move.position)
+    const token = index % 2 === 0 ? `${index / 2 + 1}. ${square}` : square
+    if (line && line.length + token.length + 1 > LINE_WIDTH) {
+      lines.push(line)
+      line = token
+    } else {
+      line = line ? `${line} ${token}` : token
+    }
+  })
+  if (line) lines.push(line)
+
+  const headerText = headers.map(([name, value]) => `[${name} "${value.replace(/"/g, "'")}"]`)
+  return [...headerText, '', ...lines].join('\n') + '\n'
+}
+
+function tokenize(line: string, lineNumber: number): Token[] {
+  const tokens: Token[] = []
+  for (const match of line.matchAll(/\S+/g)) {
+    tokens.push({ text: match[0], line: lineNumber, column: match.index + 1 })
+  }
+  return tokens
+}
+
+function readHeaders(lines: string[]): {
+  headers: Map<HeaderName, Token>
+  moveTokens: Token[]
+} {
+  const headers = new Map<HeaderName, Token>()
+  const moveTokens: Token[] = []
+
+  lines.forEach((text, index) => {
+    const lineNumber = index + 1
+    const trimmed = text.trim()
+    if (!trimmed) return
+    const column = text.indexOf(trimmed) + 1
+
+    if (!trimmed.startsWith('[')) {
+      moveTokens.push(...tokenize(text, lineNumber))
+      return
+    }
+    if (moveTokens.length > 0) {
+      throw new NotationError(t('notation.errors.headersFirst'), lineNumber, column)
+    }
+    const match = HEADER_PATTERN.exec(trimmed)
+    if (!match) {
+      throw new NotationError(t('notation.errors.headerExpected'), lineNumber, column)
+    }
+    const name = match[1]!
+    if (!(KNOWN_HEADERS as readonly string[]).includes(name)) {
+      throw new NotationError(t('notation.errors.unknownHeader', { name }), lineNumber, column + 1)
+    }
+    if (headers.has(name as HeaderName)) {
+      throw new NotationError(
+        t('notation.errors.duplicateHeader', { name }),
+        lineNumber,
+        column + 1,
+      )
+    }
+    const valueColumn = column + trimmed.indexOf('"') + 1
+    headers.set(name as HeaderName, { text: match[2]!, line: lineNumber, column: valueColumn })
+  })
+
+  return { headers, moveTokens }
+}
+
+function readVariant(token: Token | undefined): GameVariant {
+  if (!token) return 'classic'
+  if (token.text === 'classic' || token.text === 'ultimate') return token.text
+  throw new NotationError(
+    t('notation.errors.unknownVariant', { variant: token.text }),
+    token.line,
+    token.column,
+  )
+}
+
+function readNumber(token: Token): number {
+  if (!/^\d+$/.test(token.text)) {
+    throw new NotationError(
+      t('notation.errors.numberExpected', { text: token.text }),
+      token.line,
+      token.column,
+    )
+  }
+  return Number(token.text)
+}
+
+function readSettings(
+  variant: GameVariant,
+  sizeToken: Token | undefined,
+  winLengthToken: Token | undefined,
+): GameSettings {
+  if (variant === 'ultimate') {
+    for (const token of [sizeToken, winLengthToken]) {
+      if (token && token.text !== '3') {
+        throw new NotationError(t('notation.errors.ultimateSize'), token.line, token.column)
+      }
+    }
+    return { boardSize: 3, winLength: 3 }
+  }
+
+  const boardSize = sizeToken ? readNumber(sizeToken) : 3
+  const winLength = winLengthToken
+    ? readNumber(winLengthToken)
+    : Math.min(boardSize, MAX_WIN_LENGTH)
+  const settings = { boardSize, winLength }
+  const problem = validateSettings(settings)
+  if (problem) {
+    const badSize = boardSize < MIN_BOARD_SIZE || boardSize > MAX_BOARD_SIZE
+    const token = badSize ? sizeToken : (winLengthToken ?? sizeToken)
+    throw new NotationError(problem, token?.line ?? 1, token?.column ?? 1)
+  }
+  return settings
+}
+
+function readResult(token: Token | undefined): Winner | undefined {
+  if (!token) return undefined
+  if (token.text === '*') return null
+  if (token.text === 'X' || token.text === 'O' || token.text === 'DRAW') return token.text
+  throw new NotationError(
+    t('notation.errors.unknownResult', { result: token.text }),
+    token.line,
+    token.column,
+  )
+}
+
+function readTermination(token: Token | undefined): Termination | null {
+  if (!token) return null
+  if (isTermination(token.text)) return token.text
+  throw new NotationError(
+    t('notation.errors.unknownTermination', { termination: token.text }),
+    token.line,
+    token.column,
+  )
+}
+
+// A game cut short keeps the result it was given, as long as the board had not already decided
+// it and the result fits: a draw by agreement, a win otherwise
+function checkTermination(
+  termination: Termination,
+  token: Token,
+  boardResult: Winner,
+  claimedResult: Winner | undefined,
+) {
+  if (boardResult !== null) {
+    throw new NotationError(
+      t('notation.errors.terminationAfterEnd', { termination }),
+      token.line,
+      token.column,
+    )
+  }
+  const fits =
+    termination === 'agreement'
+      ? claimedResult === 'DRAW'
+      : claimedResult === 'X' || claimedResult === 'O'
+  if (!fits) {
+    const key = termination === 'agreement' ? 'terminationDraw' : 'terminationWinner'
+    throw new NotationError(t(`notation.errors.${key}`, { termination }), token.line, token.column)
+  }
+}
+
+function readMove(snapshot: BoardSnapshot, token: Token): string {
+  if (snapshot.variant === 'ultimate') {
+    const [outer, inner, ...rest] = token.text.split(':')
+    const board = outer ? parseSquare(outer) : null
+    const cell = inner ? parseSquare(inner) : null
+    if (!board || !cell || rest.length > 0) {
+      throw new NotationError(
+        t('notation.errors.ultimateMoveExpected', { text: token.text }),
+        token.line,
+        token.column,
+      )
+    }
+    for (const position of [board, cell]) {
+      if (!isInBounds(snapshot.state.boards[0]![0]!, position)) {
+        throw new NotationError(
+          t('notation.errors.offUltimateBoard', { move: token.text }),
+          token.line,
+          token.column,
+        )
+      }
+    }
+    const position: UltimatePosition = {
+      boardRow: board.row,
+      boardCol: board.col,
+      row: cell.row,
+      col: cell.col,
+    }
+    return formatUltimatePosition(position)
+  }
+
+  const position = parseSquare(token.text)
+  if (!position) {
+    throw new NotationError(
+      t('notation.errors.squareExpected', { text: token.text }),
+      token.line,
+      token.column,
+    )
+  }
+  if (!isInBounds(snapshot.board, position)) {
+    const size = snapshot.board.length
+    throw new NotationError(
+      t('notation.errors.offBoard', { square: token.text, size }),
+      token.line,
+      token.column,
+    )
+  }
+  return formatPosition(position)
+}
+
+function illegalReason(snapshot: BoardSnapshot, position: string, square: string): string {
+  if (snapshot.variant === 'ultimate') {
+    if (getUltimateTurn(snapshot.state.boards) === null) return t('notation.errors.gameOver')
+    const move = parseUltimatePosition(position)!
+    const playable = getPlayableBoards(snapshot.state)
+    if (!playable.some((board) => board.row === move.boardRow && board.col === move.boardCol)) {
+      const active = snapshot.state.activeBoard
+      return active && playable.length === 1
+        ? t('notation.errors.wrongSubBoard', { board: formatSquare(active) })
+        : t('notation.errors.subBoardDecided', {
+            board: formatSquare({ row: move.boardRow, col: move.boardCol }),
+          })
+    }
+    return t('notation.errors.squareTaken', { square })
+  }
+  if (isGameOver(snapshot.board, snapshot.winLength)) return t('notation.errors.gameOver')
+  return t('notation.errors.squareTaken', { square })
+}
+
+function turnOf(snapshot: BoardSnapshot): PlayerSymbol | null {
+  return snapshot.variant === 'ultimate'
+    ? getUltimateTurn(snapshot.state.boards)
+    : getTurn(snapshot.board, snapshot.winLength)
+}
+
+// Parses and replays a game, so a record that comes back is always a legal sequence of moves
+export function parseNotation(text: string): GameRecord {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const { headers, moveTokens } = readHeaders(lines)
+
+  const variant = readVariant(headers.get('Variant'))
+  const settings = readSettings(variant, headers.get('Size'), headers.get('WinLength'))
+  const claimedResult = readResult(headers.get('Result'))
+  const terminationToken = headers.get('Termination')
+  const termination = readTermination(terminationToken)
+
+  let snapshot = emptySnapshot(variant, settings)
+  const moves: ReplayMove[] = []
+
+  for (const token of moveTokens) {
+    const moveNumber = MOVE_NUMBER_PATTERN.exec(token.text)
+    if (moveNumber) {
+      const expected = Math.floor(moves.length / 2) + 1
+      if (moves.length % 2 !== 0 || Number(moveNumber[1]) !== expected) {
+        const key = moves.length % 2 !== 0 ? 'moveNumberBeforeX' : 'moveNumber'
+        throw new NotationError(
+          t(`notation.errors.${key}`, { number: expected }),
+          token.line,
+          token.column,
+        )
+      }
+      continue
+    }
+
+    const position = readMove(snapshot, token)
+    const symbol = turnOf(snapshot) ?? (moves.length % 2 === 0 ? 'X' : 'O')
+    try {
+      snapshot = applySnapshotMove(snapshot, { position, symbol })
+    } catch {
+      throw new NotationError(
+        t('notation.errors.illegalMove', {
+          symbol,
+          move: token.text,
+          reason: illegalReason(snapshot, position, token.text),
+        }),
+        token.line,
+        token.column,
+      )
+    }
+    moves.push({ position, symbol })
+  }
+
+  let result = snapshotOutcome(snapshot).winner
+  const resultToken = headers.get('Result')
+  if (termination && terminationToken) {
+    checkTermination(termination, terminationToken, result, claimedResult)
+    result = claimedResult ?? null
+  } else if (claimedResult !== undefined && claimedResult !== result && resultToken) {
+    throw new NotationError(
+      t('notation.errors.resultMismatch', {
+        result: resultToken.text,
+        actual: formatResult(result),
+      }),
+      resultToken.line,
+      resultToken.column,
+    )
+  }
+
+  return {
+    variant,
+    settings,
+    players: { X: headers.get('X')?.text ?? '?', O: headers.get('O')?.text ?? '?' },
+    date: headers.get('Date')?.text ?? '',
+    result,
+    termination,
+    moves,
+  }
+}
@@ -0,0 +1,108 @@
+import type { PlayerRecord, PlayerStats, RatingPoint } from '../services/api'
+import { t, tn } from '../i18n'
+
+export function combineRecords(...records: PlayerRecord[]): PlayerRecord {
+  return records.reduce(
+    (total, record) => ({
+      wins: total.wins + record.wins,
+      losses: total.losses + record.losses,
+      draws: total.draws + record.draws,
+    }),
+    { wins: 0, losses: 0, draws: 0 },
+  )
+}
+
+export function gamesPlayed(record: PlayerRecord): number {
+  return record.wins + record.losses + record.draws
+}
+
+// Draws count as games played but not as wins; null before any game
+export function winRate(record: PlayerRecord): number | null {
+  const played = gamesPlayed(record)
+  return played === 0 ? null : record.wins / played
+}
+
+export function formatWinRate(rate: number | null): string {
+  return rate === null ? '–' : `${Math.round(rate * 100)}%`
+}
+
+export function describeStreak(streak: PlayerStats['streak']): string {
+  if (streak.result === null || streak.length === 0) return t('profile.streak.none')
+  return tn(`profile.streak.${streak.result}`, streak.length)
+}
+
+export interface ChartSize {
+  width: number
+  height: number
+  // Room left around the plot for the axis labels
+  padding: number
+}
+
+export interface ChartPoint {
+  x: number
+  y: number
+  rating: number
+  recordedAt: string
+}
+
+export interface RatingChart {
+  points: ChartPoint[]
+  // SVG path data through the points
+  path: string
+  ticks: { y: number; rating: number }[]
+}
+
+const TICK_COUNT = 4
+// Keeps a flat history from filling the whole height with a few points of variation
+const MIN_RATING_SPAN = 100
+
+// Lays out the history in SVG coordinates, spaced by when each rating was recorded. Points
+// with unparseable or identical times fall back to even spacing.
+export function buildRatingChart(history: RatingPoint[], size: ChartSize): RatingChart {
+  if (history.length === 0) return { points: [], path: '', ticks: [] }
+
+  const ratings = history.map((point) => point.rating)
+  let low = Math.min(...ratings)
+  let high = Math.max(...ratings)
+  if (high - low < MIN_RATING_SPAN) {
+    const middle = (high + low) / 2
+    low = middle - MIN_RATING_SPAN / 2
+    high = middle + MIN_RATING_SPAN / 2
+  }
+
+  const times = history.map((point) => Date.parse(point.recorded_at))
+  const first = times[0] ?? NaN
+  const last = times[times.length - 1] ?? NaN
+  const byTime = times.every((time) => !Number.isNaN(time)) && last > first
+
+  const plotWidth = size.width - 2 * size.padding
+  const plotHeight = size.height - 2 * size.padding
+  const xAt = (index: number) => {
+    const fraction = byTime
+      ? ((times[index] ?? first) - first) / (last - first)
+      : history.length === 1
+        ? 0.5
+        : index / (history.length - 1)
+    return size.padding + fraction * plotWidth
+  }
+  const yAt = (rating: number) => size.padding + ((high - rating) / (high - low)) * plotHeight
+
+  const points = history.map((point, index) => ({
+    x: round(xAt(index)),
+    y: round(yAt(point.rating)),
+    rating: point.rating,
+    recordedAt: point.recorded_at,
+  }))
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x},${point.y}`)
+
+  const ticks = Array.from({ length: TICK_COUNT }, (_, index) => {
+    const rating = Math.round(low + ((high - low) * index) / (TICK_COUNT - 1))
+    return { y: round(yAt(rating)), rating }
+  })
+
+  return { points, path: path.join(' '), ticks }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
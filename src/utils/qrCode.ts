@@ -0,0 +1,418 @@
+// QR code encoder (ISO/IEC 18004), byte mode only, versions 1 to 10. That covers any text up
+// to 271 bytes, which is plenty for an invite link.
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H'
+
+export interface QrCode {
+  version: number
+  // Modules per side, without the quiet zone
+  size: number
+  // modules[row][col], true for dark
+  modules: boolean[][]
+}
+
+const MAX_VERSION = 10
+
+// Indexed by version; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK: Record<ErrorCorrectionLevel, number[]> = {
+  L: [0, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18],
+  M: [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26],
+  Q: [0, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24],
+  H: [0, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28],
+}
+
+const ECC_BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4],
+  M: [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5],
+  Q: [0, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8],
+  H: [0, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8],
+}
+
+// The two bits the format information uses for each level
+const FORMAT_BITS: Record<ErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+const BYTE_MODE = 0b0100
+
+const PENALTY_RUN = 3
+const PENALTY_BLOCK = 3
+const PENALTY_FINDER_LIKE = 40
+const PENALTY_BALANCE = 10
+
+export function encodeQr(text: string, level: ErrorCorrectionLevel = 'M'): QrCode {
+  const bytes = Array.from(new TextEncoder().encode(text))
+  const version = chooseVersion(bytes.length, level)
+  const codewords = addErrorCorrection(encodeData(bytes, version, level), version, level)
+
+  const size = version * 4 + 17
+  const grid = createGrid(size)
+  drawFunctionPatterns(grid, version)
+  placeCodewords(grid, codewords)
+
+  // Every mask gives a valid code; the one with the fewest scanner-confusing features wins
+  let best: boolean[][] | null = null
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    const modules = applyMask(grid, mask)
+    drawFormatBits(modules, level, mask)
+    const penalty = computePenalty(modules)
+    if (penalty < bestPenalty) {
+      best = modules
+      bestPenalty = penalty
+    }
+  }
+
+  return { version, size, modules: best ?? grid.modules }
+}
+
+// SVG path data drawing each dark module as a unit square, offset by the quiet zone
+export function qrToSvgPath(code: QrCode, margin = 4): string {
+  const parts: string[] = []
+  code.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`)
+    })
+  })
+  return parts.join('')
+}
+
+// Data codewords available once error correction has taken its share
+function dataCapacity(version: number, level: ErrorCorrectionLevel): number {
+  const total = Math.floor(rawDataModules(version) / 8)
+  return total - eccPerBlock(version, level) * eccBlocks(version, level)
+}
+
+function chooseVersion(length: number, level: ErrorCorrectionLevel): number {
+  for (let version = 1; version <= MAX_VERSION; version++) {
+    const countBits = version < 10 ? 8 : 16
+    const neededBits = 4 + countBits + length * 8
+    if (neededBits <= dataCapacity(version, level) * 8) return version
+  }
+  throw new Error('Text is too long for a QR code')
+}
+
+function encodeData(bytes: number[], version: number, level: ErrorCorrectionLevel): number[] {
+  const bits: number[] = []
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  push(BYTE_MODE, 4)
+  push(bytes.length, version < 10 ? 8 : 16)
+  bytes.forEach((byte) => push(byte, 8))
+
+  const capacityBits = dataCapacity(version, level) * 8
+  // Terminator, then zeros up to a whole byte
+  push(0, Math.min(4, capacityBits - bits.length))
+  push(0, (8 - (bits.length % 8)) % 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  // Alternating pad bytes fill what is left
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad)
+  }
+  return codewords
+}
+
+function eccPerBlock(version: number, level: ErrorCorrectionLevel): number {
+  return ECC_CODEWORDS_PER_BLOCK[level][version] ?? 0
+}
+
+function eccBlocks(version: number, level: ErrorCorrectionLevel): number {
+  return ECC_BLOCKS[level][version] ?? 1
+}
+
+// Splits the data into blocks, appends each block's error correction and interleaves them
+function addErrorCorrection(data: number[], version: number, level: ErrorCorrectionLevel) {
+  const blockCount = eccBlocks(version, level)
+  const eccLength = eccPerBlock(version, level)
+  const total = Math.floor(rawDataModules(version) / 8)
+  const shortBlocks = blockCount - (total % blockCount)
+  const shortBlockLength = Math.floor(total / blockCount)
+  const divisor = reedSolomonDivisor(eccLength)
+
+  const blocks: { data: number[]; ecc: number[] }[] = []
+  let offset = 0
+  for (let i = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1)
+    const blockData = data.slice(offset, offset + length)
+    offset += length
+    blocks.push({ data: blockData, ecc: reedSolomonRemainder(blockData, divisor) })
+  }
+
+  const result: number[] = []
+  const longest = Math.max(...blocks.map((block) => block.data.length))
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach((block) => {
+      const codeword = block.data[i]
+      if (codeword !== undefined) result.push(codeword)
+    })
+  }
+  for (let i = 0; i < eccLength; i++) {
+    blocks.forEach((block) => result.push(block.ecc[i] ?? 0))
+  }
+  return result
+}
+
+// Modules left for data and error correction once the function patterns are drawn
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+// GF(256) multiplication modulo the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(a: number, b: number): number {
+  let result = 0
+  for (let i = 7; i >= 0; i--) {
+    result = (result << 1) ^ ((result >>> 7) * 0x11d)
+    result ^= ((b >>> i) & 1) * a
+  }
+  return result
+}
+
+// Generator polynomial coefficients, highest degree first with the leading 1 left out
+export function reedSolomonDivisor(degree: number): number[] {
+  const result = Array.from({ length: degree }, () => 0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j] ?? 0, root) ^ (result[j + 1] ?? 0)
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+export function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = Array.from({ length: divisor.length }, () => 0)
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() ?? 0)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] = (result[i] ?? 0) ^ gfMultiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+interface Grid {
+  size: number
+  modules: boolean[][]
+  // Function patterns and format areas, which data and masks must leave alone
+  reserved: boolean[][]
+}
+
+function createGrid(size: number): Grid {
+  const matrix = () => Array.from({ length: size }, () => Array.from({ length: size }, () => false))
+  return { size, modules: matrix(), reserved: matrix() }
+}
+
+function setFunction(grid: Grid, x: number, y: number, dark: boolean) {
+  const row = grid.modules[y]
+  const reservedRow = grid.reserved[y]
+  if (!row || !reservedRow || x < 0 || x >= grid.size) return
+  row[x] = dark
+  reservedRow[x] = true
+}
+
+function drawFunctionPatterns(grid: Grid, version: number) {
+  const { size } = grid
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(grid, 6, i, i % 2 === 0)
+    setFunction(grid, i, 6, i % 2 === 0)
+  }
+
+  // Finder patterns with their light separators
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ] as const) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        setFunction(grid, cx + dx, cy + dy, distance !== 2 && distance !== 4)
+      }
+    }
+  }
+
+  // Alignment patterns, except where they would overlap a finder
+  const positions = alignmentPositions(version)
+  const last = positions.length - 1
+  positions.forEach((cy, i) => {
+    positions.forEach((cx, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    })
+  })
+
+  // Reserve the format areas now; their bits depend on the mask and are drawn last
+  formatCells(size).forEach(([x, y]) => setFunction(grid, x, y, false))
+  // Always dark
+  setFunction(grid, 8, size - 8, true)
+
+  if (version >= 7) {
+    let remainder = version
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    const bits = (version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1
+      const a = size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      setFunction(grid, a, b, dark)
+      setFunction(grid, b, a, dark)
+    }
+  }
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const count = Math.floor(version / 7) + 2
+  const size = version * 4 + 17
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2
+  const result = [6]
+  for (let position = size - 7; result.length < count; position -= step) {
+    result.splice(1, 0, position)
+  }
+  return result
+}
+
+// Where the 15 format bits go, bit 0 first: one copy around the top-left finder, the other
+// split between the top-right and bottom-left ones. Given as [x, y].
+function formatCells(size: number): [number, number][] {
+  const cells: [number, number][] = []
+  for (let i = 0; i <= 5; i++) cells.push([8, i])
+  cells.push([8, 7], [8, 8], [7, 8])
+  for (let i = 9; i < 15; i++) cells.push([14 - i, 8])
+
+  for (let i = 0; i < 8; i++) cells.push([size - 1 - i, 8])
+  for (let i = 8; i < 15; i++) cells.push([8, size - 15 + i])
+  return cells
+}
+
+// The level and mask, BCH protected against misreads
+export function formatBits(level: ErrorCorrectionLevel, mask: number): number {
+  const data = (FORMAT_BITS[level] << 3) | mask
+  let remainder = data
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+  return ((data << 10) | remainder) ^ 0x5412
+}
+
+function drawFormatBits(modules: boolean[][], level: ErrorCorrectionLevel, mask: number) {
+  const bits = formatBits(level, mask)
+  formatCells(modules.length).forEach(([x, y], index) => {
+    const row = modules[y]
+    if (row) row[x] = ((bits >>> (index % 15)) & 1) === 1
+  })
+}
+
+// Fills the non-reserved modules in the standard two-column zigzag, starting bottom right
+function placeCodewords(grid: Grid, codewords: number[]) {
+  const { size, modules, reserved } = grid
+  const totalBits = codewords.length * 8
+  let index = 0
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // The vertical timing pattern shifts the columns left of it by one
+    if (right === 6) right = 5
+    const upward = ((right + 1) & 2) === 0
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const row = modules[y]
+        if (!row || reserved[y]?.[x] || index >= totalBits) continue
+        row[x] = (((codewords[index >>> 3] ?? 0) >>> (7 - (index & 7))) & 1) === 1
+        index++
+      }
+    }
+  }
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+]
+
+function applyMask(grid: Grid, mask: number): boolean[][] {
+  const flip = MASKS[mask] ?? (() => false)
+  return grid.modules.map((row, y) =>
+    row.map((dark, x) => (grid.reserved[y]?.[x] ? dark : dark !== flip(x, y))),
+  )
+}
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+]
+
+function linePenalty(line: boolean[]): number {
+  let penalty = 0
+  let runLength = 1
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      runLength++
+    } else {
+      if (runLength >= 5) penalty += PENALTY_RUN + runLength - 5
+      runLength = 1
+    }
+  }
+  for (let i = 0; i + 11 <= line.length; i++) {
+    if (FINDER_LIKE.some((pattern) => pattern.every((dark, j) => line[i + j] === dark))) {
+      penalty += PENALTY_FINDER_LIKE
+    }
+  }
+  return penalty
+}
+
+function computePenalty(modules: boolean[][]): number {
+  const size = modules.length
+  const cell = (x: number, y: number) => modules[y]?.[x] ?? false
+  let penalty = 0
+
+  for (let i = 0; i < size; i++) {
+    penalty += linePenalty(modules[i] ?? [])
+    penalty += linePenalty(modules.map((row) => row[i] ?? false))
+  }
+
+  let dark = 0
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (cell(x, y)) dark++
+      if (
+        x < size - 1 &&
+        y < size - 1 &&
+        cell(x, y) === cell(x + 1, y) &&
+        cell(x, y) === cell(x, y + 1) &&
+        cell(x, y) === cell(x + 1, y + 1)
+      ) {
+        penalty += PENALTY_BLOCK
+      }
+    }
+  }
+
+  // Every 5% the dark share strays from half costs more
+  const total = size * size
+  const deviation = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1
+  penalty += Math.max(0, deviation) * PENALTY_BALANCE
+  return penalty
+}
@@ -0,0 +1,82 @@
+import {
+  applyMove,
+  createEmptyBoard,
+  getOutcome,
+  parsePosition,
+  type Board,
+  type GameOutcome,
+  type GameSettings,
+  type GameVariant,
+  type PlayerSymbol,
+  type Position,
+} from './gameRules'
+import {
+  applyUltimateMove,
+  createUltimateState,
+  getUltimateOutcome,
+  parseUltimatePosition,
+  type UltimatePosition,
+  type UltimateState,
+} from './ultimateRules'
+
+// A board position detached from the game store, e.g. one frame of a replay
+export type BoardSnapshot =
+  | { variant: 'classic'; board: Board; winLength: number }
+  | { variant: 'ultimate'; state: UltimateState }
+
+export interface ReplayMove {
+  position: string
+  symbol: PlayerSymbol
+}
+
+export function emptySnapshot(variant: GameVariant, settings: GameSettings): BoardSnapshot {
+  if (variant === 'ultimate') {
+    return { variant, state: createUltimateState() }
+  }
+  return { variant, board: createEmptyBoard(settings.boardSize), winLength: settings.winLength }
+}
+
+export function snapshotOutcome(snapshot: BoardSnapshot): GameOutcome {
+  return snapshot.variant === 'ultimate'
+    ? getUltimateOutcome(snapshot.state.boards)
+    : getOutcome(snapshot.board, snapshot.winLength)
+}
+
+export function parseMovePosition(
+  variant: GameVariant,
+  position: string,
+): Position | UltimatePosition | null {
+  return variant === 'ultimate' ? parseUltimatePosition(position) : parsePosition(position)
+}
+
+export function applySnapshotMove(snapshot: BoardSnapshot, move: ReplayMove): BoardSnapshot {
+  if (snapshot.variant === 'ultimate') {
+    const position = parseUltimatePosition(move.position)
+    if (!position) throw new Error(`Invalid position "${move.position}"`)
+    return { ...snapshot, state: applyUltimateMove(snapshot.state, position, move.symbol) }
+  }
+  const position = parsePosition(move.position)
+  if (!position) throw new Error(`Invalid position "${move.position}"`)
+  return {
+    ...snapshot,
+    board: applyMove(snapshot.board, position, move.symbol, snapshot.winLength),
+  }
+}
+
+// Every position of a game from the empty board to the last move, so frames[i] follows moves[i - 1]
+export function buildReplay(
+  moves: ReplayMove[],
+  variant: GameVariant,
+  settings: GameSettings,
+): BoardSnapshot[] {
+  const frames = [emptySnapshot(variant, settings)]
+  moves.forEach((move, index) => {
+    try {
+      frames.push(applySnapshotMove(frames[index]!, move))
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new Error(`Move ${index + 1} (${move.symbol} at ${move.position}): ${reason}`)
+    }
+  })
+  return frames
+}
@@ -0,0 +1,40 @@
+import type { Series } from '../services/api'
+
+export const SERIES_LENGTHS = [1, 3, 5, 7] as const
+
+export interface SeriesTally {
+  // Wins keyed by player id
+  wins: Record<string, number>
+  draws: number
+  played: number
+}
+
+export interface SeriesResult {
+  gameId: string
+  // null for a draw
+  winnerId: string | null
+}
+
+// Counts the series' finished games, plus a just-finished one the server has not recorded yet
+export function tallySeries(series: Series, latest: SeriesResult | null = null): SeriesTally {
+  const games = series.games.map((game) => ({ gameId: game.game_id, winnerId: game.winner_id }))
+  if (latest && !games.some((game) => game.gameId === latest.gameId)) {
+    games.push(latest)
+  }
+
+  const tally: SeriesTally = { wins: {}, draws: 0, played: games.length }
+  for (const game of games) {
+    if (game.winnerId === null) {
+      tally.draws++
+    } else {
+      tally.wins[game.winnerId] = (tally.wins[game.winnerId] ?? 0) + 1
+    }
+  }
+  return tally
+}
+
+// Over once someone holds a majority of the games, or every game has been played
+export function isSeriesOver(bestOf: number, tally: SeriesTally): boolean {
+  const needed = Math.floor(bestOf / 2) + 1
+  return tally.played >= bestOf || Object.values(tally.wins).some((wins) => wins >= needed)
+}
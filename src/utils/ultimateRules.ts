@@ -0,0 +1,141 @@
+import {
+  BOARD_SIZE,
+  createEmptyBoard,
+  getOutcome,
+  type Board,
+  type GameOutcome,
+  type PlayerSymbol,
+  type Position,
+  type Winner,
+} from './gameRules'
+
+// Outer grid of sub-boards, indexed [boardRow][boardCol]
+export type UltimateBoard = Board[][]
+
+export interface UltimatePosition {
+  boardRow: number
+  boardCol: number
+  row: number
+  col: number
+}
+
+export interface UltimateState {
+  boards: UltimateBoard
+  // Sub-board the next move must be played in, or null when any open sub-board is allowed
+  activeBoard: Position | null
+}
+
+export function createUltimateBoard(): UltimateBoard {
+  return Array.from({ length: BOARD_SIZE }, () =>
+    Array.from({ length: BOARD_SIZE }, () => createEmptyBoard()),
+  )
+}
+
+export function createUltimateState(): UltimateState {
+  return { boards: createUltimateBoard(), activeBoard: null }
+}
+
+export function cloneUltimateBoard(boards: UltimateBoard): UltimateBoard {
+  return boards.map((boardRow) => boardRow.map((board) => board.map((row) => [...row])))
+}
+
+export function formatUltimatePosition({ boardRow, boardCol, row, col }: UltimatePosition): string {
+  return `${boardRow},${boardCol},${row},${col}`
+}
+
+export function parseUltimatePosition(position: string): UltimatePosition | null {
+  const match = /^\s*(\d)\s*,\s*(\d)\s*,\s*(\d)\s*,\s*(\d)\s*$/.exec(position)
+  if (!match) return null
+  const [boardRow, boardCol, row, col] = match.slice(1).map(Number) as [
+    number,
+    number,
+    number,
+    number,
+  ]
+  return { boardRow, boardCol, row, col }
+}
+
+// Winner of every sub-board; a drawn sub-board counts for nobody on the outer grid
+export function getSubBoardWinners(boards: UltimateBoard): Winner[][] {
+  return boards.map((boardRow) => boardRow.map((board) => getOutcome(board).winner))
+}
+
+export function isSubBoardOpen(boards: UltimateBoard, { row, col }: Position): boolean {
+  const board = boards[row]?.[col]
+  return board !== undefined && getOutcome(board).winner === null
+}
+
+// The line in a GameOutcome refers to sub-boards on the outer grid
+export function getUltimateOutcome(boards: UltimateBoard): GameOutcome {
+  const winners = getSubBoardWinners(boards)
+  const outer: Board = winners.map((row) =>
+    row.map((winner) => (winner === 'DRAW' ? null : winner)),
+  )
+  const outcome = getOutcome(outer, BOARD_SIZE)
+  if (outcome.winner && outcome.winner !== 'DRAW') {
+    return outcome
+  }
+  const allDecided = winners.every((row) => row.every((winner) => winner !== null))
+  return { winner: allDecided ? 'DRAW' : null, line: null }
+}
+
+export function getUltimateTurn(boards: UltimateBoard): PlayerSymbol | null {
+  if (getUltimateOutcome(boards).winner) return null
+  let xCount = 0
+  let oCount = 0
+  for (const cell of boards.flat(3)) {
+    if (cell === 'X') xCount++
+    else if (cell === 'O') oCount++
+  }
+  return xCount > oCount ? 'O' : 'X'
+}
+
+// Sub-boards the next move may be played in
+export function getPlayableBoards(state: UltimateState): Position[] {
+  if (getUltimateOutcome(state.boards).winner) return []
+  if (state.activeBoard && isSubBoardOpen(state.boards, state.activeBoard)) {
+    return [state.activeBoard]
+  }
+  const playable: Position[] = []
+  state.boards.forEach((boardRow, row) => {
+    boardRow.forEach((_, col) => {
+      if (isSubBoardOpen(state.boards, { row, col })) playable.push({ row, col })
+    })
+  })
+  return playable
+}
+
+export function isLegalUltimateMove(state: UltimateState, position: UltimatePosition): boolean {
+  const { boardRow, boardCol, row, col } = position
+  return (
+    getPlayableBoards(state).some((board) => board.row === boardRow && board.col === boardCol) &&
+    state.boards[boardRow]![boardCol]![row]?.[col] === null
+  )
+}
+
+export function getLegalUltimateMoves(state: UltimateState): UltimatePosition[] {
+  const moves: UltimatePosition[] = []
+  for (const { row: boardRow, col: boardCol } of getPlayableBoards(state)) {
+    state.boards[boardRow]![boardCol]!.forEach((cells, row) => {
+      cells.forEach((cell, col) => {
+        if (cell === null) moves.push({ boardRow, boardCol, row, col })
+      })
+    })
+  }
+  return moves
+}
+
+// The cell played inside a sub-board picks the sub-board the opponent must answer in
+export function applyUltimateMove(
+  state: UltimateState,
+  position: UltimatePosition,
+  symbol: PlayerSymbol,
+): UltimateState {
+  if (!isLegalUltimateMove(state, position)) {
+    throw new Error(`Illegal move at ${formatUltimatePosition(position)}`)
+  }
+  const boards = cloneUltimateBoard(state.boards)
+  boards[position.boardRow]![position.boardCol]![position.row]![position.col] = symbol
+  const target = { row: position.row, col: position.col }
+  return { boards, activeBoard: isSubBoardOpen(boards, target) ? target : null }
+}
@@ -1,16 +1,61 @@
+import { createHash } from 'node:crypto'
 import { fileURLToPath, URL } from 'node:url'
 
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import vue from '@vitejs/plugin-vue'
 import vueJsx from '@vitejs/plugin-vue-jsx'
 import vueDevTools from 'vite-plugin-vue-devtools'
 
+// Writes the list of built files for the service worker (public/sw.js) to cache on install.
+// Its version changes with the files, which is what makes browsers install a new worker.
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle).filter((file) => !file.endsWith('.map')).sort()
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12)
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.js',
+        source: `self.__PRECACHE_MANIFEST = ${JSON.stringify({ version, files })}\n`,
+      })
+    },
+  }
+}
+
+// `vite --mode fake` (npm run dev:fake) runs the app against the in-memory backend in
+// src/fakeBackend instead of a server on localhost:8000
+function fakeBackend(prefix = '/fake-api'): Plugin {
+  return {
+    name: 'fake-backend',
+    apply: (_config, { command, mode }) => command === 'serve' && mode === 'fake',
+    config: () => ({
+      define: {
+        'import.meta.env.VITE_API_BASE_URL': JSON.stringify(prefix),
+        // Whatever host and port the page was served from
+        'import.meta.env.VITE_WS_URL': `((location.protocol === 'https:' ? 'wss://' : 'ws://') + location.host + ${JSON.stringify(`${prefix}/ws`)})`,
+      },
+    }),
+    async configureServer(server) {
+      // Loaded through Vite so it can share the app's rules and types
+      const { createDevServer } = await server.ssrLoadModule('/src/fakeBackend/devServer.ts')
+      const fake = createDevServer(prefix)
+      server.middlewares.use(prefix, fake.handleRequest)
+      server.httpServer?.on('upgrade', fake.handleUpgrade)
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     vue(),
     vueJsx(),
     vueDevTools(),
+    precacheManifest(),
+    fakeBackend(),
   ],
   resolve: {
     alias: {